@@ -0,0 +1,31 @@
+/**
+ * POST /api/orchestrate
+ *
+ * Body: { userInput, snapshot: { ui, data } }
+ * Returns: OrchestratorResponse JSON, or { error } with
+ * - 400 for a body that is not JSON or not a valid request
+ * - 502 when the provider failed
+ * - 504 when the provider timed out
+ * - 500 for anything unexpected
+ */
+
+import { NextResponse } from "next/server";
+import { orchestrateOnServer, OrchestrateError } from "@/lib/server-orchestrator";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+  }
+
+  try {
+    const response = await orchestrateOnServer(body, { signal: request.signal });
+    return NextResponse.json(response);
+  } catch (error) {
+    const status = error instanceof OrchestrateError ? error.status : 500;
+    const message = error instanceof Error ? error.message : "Orchestration failed";
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -1,7 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
-import { TamboProvider } from "@tambo-ai/react";
-import { tamboComponents } from "@/lib/tambo-components";
+import { TamboClientProvider } from "@/components/TamboClientProvider";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -31,9 +30,7 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <TamboProvider apiKey={apiKey} components={tamboComponents}>
-          {children}
-        </TamboProvider>
+        <TamboClientProvider apiKey={apiKey}>{children}</TamboClientProvider>
       </body>
     </html>
   );
@@ -1,5 +1,5 @@
 import { OrchestratorClient } from "@/components/OrchestratorClient";
 
 export default function Home() {
-  return <OrchestratorClient />;
+  return <OrchestratorClient persistence={{ kind: "local" }} />;
 }
@@ -2,12 +2,17 @@
  * Debug Panel Component
  *
  * Shows internal AI reasoning, component render decisions, and intent memory.
+ * With a timeline, scrubs the UI (and only the UI) back and forth through its
+ * recorded versions.
  * Hidden by default - activated via keyboard shortcut (Ctrl+Shift+D) or URL param.
  */
 
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import type { ValidationRejection } from "@/lib/response-validator";
+import type { OrchestrationContext } from "@/lib/orchestration-context";
+import type { UIHistoryAction, UIHistoryEntry, UIStateDiff } from "@/lib/ui-state-engine";
 
 interface DebugPanelProps {
   show?: boolean;
@@ -19,6 +24,8 @@ interface DebugPanelProps {
     reason: string;
     confidence: number;
   }>;
+  rejections?: ValidationRejection[];
+  context?: OrchestrationContext;
   intentMemory?: {
     intents: Array<{
       id: string;
@@ -30,6 +37,42 @@ interface DebugPanelProps {
     references: Record<string, string>;
   };
   rawData?: Record<string, unknown>;
+  session?: {
+    recording: boolean;
+    steps: number;
+    hasRecording: boolean;
+    onToggleRecording: () => void;
+    onDownload: () => void;
+    onReplay: () => void;
+  };
+  timeline?: {
+    entries: UIHistoryEntry[];
+    /** Version the UI is showing */
+    current: number;
+    /** Changes from the shown version to the latest one */
+    diff: UIStateDiff | null;
+    onJump: (version: number) => void;
+  };
+}
+
+/**
+ * Short description of a recorded transition
+ */
+function describeHistoryAction(action: UIHistoryAction): string {
+  switch (action.type) {
+    case "init":
+      return "Start";
+    case "reset":
+      return "Reset";
+    case "render":
+      return `render ${action.component.id}`;
+    case "batch":
+      return `batch of ${action.actions.length}`;
+    case "setOrder":
+      return `setOrder ${action.id} → ${action.order}`;
+    default:
+      return `${action.type} ${action.id}`;
+  }
 }
 
 export function DebugPanel({
@@ -37,8 +80,12 @@ export function DebugPanel({
   onClose,
   reasoning = "",
   componentDecisions = [],
+  rejections = [],
+  context,
   intentMemory,
   rawData,
+  session,
+  timeline,
 }: DebugPanelProps) {
   if (!show) return null;
 
@@ -77,7 +124,7 @@ export function DebugPanel({
                 AI Reasoning
               </h3>
               <div className="rounded-md bg-amber-50 border border-amber-200 p-3 text-sm dark:bg-amber-950/30 dark:border-amber-800">
-                <p className="text-amber-900 dark:text-amber-100">{reasoning}</p>
+                <p className="whitespace-pre-line text-amber-900 dark:text-amber-100">{reasoning}</p>
               </div>
             </section>
           )}
@@ -114,6 +161,40 @@ export function DebugPanel({
             </section>
           )}
 
+          {/* Validation Rejections */}
+          {rejections.length > 0 && (
+            <section>
+              <h3 className="mb-2 text-xs font-semibold uppercase text-zinc-500">
+                Validation
+              </h3>
+              <div className="space-y-2">
+                {rejections.map((rejection, index) => (
+                  <div
+                    key={`${rejection.action}-${rejection.id}-${index}`}
+                    className={`rounded-md border p-3 text-sm ${
+                      rejection.outcome === "dropped"
+                        ? "border-rose-200 bg-rose-50 dark:border-rose-800 dark:bg-rose-950/30"
+                        : "border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-mono text-xs text-zinc-500">
+                        {rejection.action} {rejection.type}
+                      </span>
+                      <span className="text-xs uppercase text-zinc-400">
+                        {rejection.outcome}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-zinc-700 dark:text-zinc-300">
+                      {rejection.reason}
+                    </p>
+                    <p className="mt-1 text-xs text-zinc-400">ID: {rejection.id}</p>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
           {/* Intent Memory */}
           {intentMemory && (
             <section>
@@ -166,6 +247,114 @@ export function DebugPanel({
             </section>
           )}
 
+          {/* Orchestration Context - exactly what the provider received */}
+          {context && (
+            <section>
+              <h3 className="mb-2 text-xs font-semibold uppercase text-zinc-500">
+                Orchestration Context
+              </h3>
+              <pre className="max-h-80 overflow-auto rounded-md bg-zinc-100 p-3 text-xs dark:bg-zinc-800">
+                {JSON.stringify(context, null, 2)}
+              </pre>
+            </section>
+          )}
+
+          {/* Session Recording */}
+          {session && (
+            <section>
+              <h3 className="mb-2 text-xs font-semibold uppercase text-zinc-500">
+                Session Recording
+              </h3>
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <button
+                  type="button"
+                  onClick={session.onToggleRecording}
+                  className={`rounded-md border px-2 py-1 ${
+                    session.recording
+                      ? "border-red-300 bg-red-50 text-red-700 dark:border-red-800 dark:bg-red-950/30 dark:text-red-300"
+                      : "border-zinc-300 hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800"
+                  }`}
+                >
+                  {session.recording ? `Stop recording (${session.steps} steps)` : "Start recording"}
+                </button>
+                {session.hasRecording && !session.recording && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={session.onDownload}
+                      className="rounded-md border border-zinc-300 px-2 py-1 hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800"
+                    >
+                      Download
+                    </button>
+                    <button
+                      type="button"
+                      onClick={session.onReplay}
+                      className="rounded-md border border-zinc-300 px-2 py-1 hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800"
+                    >
+                      Replay
+                    </button>
+                  </>
+                )}
+              </div>
+            </section>
+          )}
+
+          {/* Timeline - time travel through recorded UI versions */}
+          {timeline && timeline.entries.length > 1 && (() => {
+            const { entries, current, diff, onJump } = timeline;
+            const index = Math.max(0, entries.findIndex((entry) => entry.version === current));
+            const latest = entries[entries.length - 1];
+            return (
+              <section>
+                <h3 className="mb-2 text-xs font-semibold uppercase text-zinc-500">
+                  Timeline
+                </h3>
+                <div className="flex items-center gap-3 text-xs">
+                  <input
+                    type="range"
+                    min={0}
+                    max={entries.length - 1}
+                    value={index}
+                    onChange={(e) => onJump(entries[Number(e.target.value)].version)}
+                    className="flex-1"
+                    aria-label="UI version"
+                  />
+                  <span className="font-mono text-zinc-500">
+                    v{current} ({index + 1}/{entries.length})
+                  </span>
+                  {current !== latest.version && (
+                    <button
+                      type="button"
+                      onClick={() => onJump(latest.version)}
+                      className="rounded-md border border-zinc-300 px-2 py-1 hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800"
+                    >
+                      Latest
+                    </button>
+                  )}
+                </div>
+                <p className="mt-1 font-mono text-xs text-zinc-600 dark:text-zinc-400">
+                  {describeHistoryAction(entries[index].action)}
+                </p>
+                {diff && current !== latest.version && (
+                  <div className="mt-2 rounded-md bg-zinc-100 p-2 text-xs dark:bg-zinc-800">
+                    <p className="text-zinc-500">
+                      Latest has {diff.added.length} added, {diff.removed.length} removed,{" "}
+                      {diff.updated.length} updated, {diff.visibilityChanged.length} shown/hidden.
+                      Only the UI is rewound - data, references and pending confirmations
+                      stay current. New input continues from here and discards the later
+                      versions.
+                    </p>
+                    {Object.entries(diff.changedProps).map(([id, props]) => (
+                      <p key={id} className="mt-1 font-mono text-zinc-600 dark:text-zinc-400">
+                        {id}: {props.join(", ")}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </section>
+            );
+          })()}
+
           {/* Raw Data */}
           {rawData && Object.keys(rawData).length > 0 && (
             <section>
@@ -203,6 +392,8 @@ export function useDebugMode() {
       reason: string;
       confidence: number;
     }>;
+    rejections?: ValidationRejection[];
+    context?: OrchestrationContext;
     intentMemory?: {
       intents: Array<{
         id: string;
@@ -3,23 +3,37 @@
  *
  * Provides the main UI for user input and connects to the AI Orchestrator.
  * Handles form submissions and renders components based on AI decisions.
+ * Runs on the orchestrator of the nearest OrchestratorScope, so clients in
+ * separate scopes keep separate UI, data and handlers.
  */
 
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import { UIRenderer } from "./UIRenderer";
-import { useVisibleComponents, useUIControls } from "@/lib/use-ui-state";
+import { useVisibleComponents, useUIControls, useUIHistory } from "@/lib/use-ui-state";
+import { useOrchestrator } from "@/lib/use-orchestrator";
 import {
-  processUserInput,
-  handleFormSubmission,
-  confirmDestructiveAction,
-  cancelDestructiveAction,
-  registerHandlers,
-  clearHandlers,
+  OrchestrationQueue,
+  isAbortError,
+  type ComponentEvent,
+  type HandlerRegistry,
   type OrchestratorAction,
+  type OrchestratorProvider,
+  type OrchestratorProviderConfig,
+  type QueueMode,
+  type QueueSnapshot,
+  type RecorderSnapshot,
+  type SessionRecording,
 } from "@/lib/ui-orchestrator";
-import { dataStore, intentMemory } from "@/lib/ui-orchestrator";
+import { describeReplay, replaySession } from "@/lib/session-replay";
+import {
+  createStorageAdapter,
+  persistOrchestrator,
+  type StorageAdapter,
+  type StorageAdapterConfig,
+} from "@/lib/state-persistence";
+import type { QueueTask } from "@/lib/orchestration-queue";
 import { DebugPanel, useDebugMode } from "./DebugPanel";
 
 // Utility function for className merging (simple version of cn utility)
@@ -41,21 +55,46 @@ interface OrchestratorClientProps {
   greeting?: string;
   /** Optional placeholder text for input */
   placeholder?: string;
+  /** Decision provider for this orchestrator (defaults to the environment setting) */
+  provider?: OrchestratorProvider | OrchestratorProviderConfig;
+  /** Whether new input waits for the running request or cancels it */
+  queueMode?: QueueMode;
+  /**
+   * Storage that keeps the generated UI across reloads (not persisted when omitted)
+   * A config may be written inline; an adapter instance must keep its identity
+   * between renders, since a new one restores the saved state again.
+   */
+  persistence?: StorageAdapter | StorageAdapterConfig;
+  /** Storage key, to keep several clients' state apart */
+  persistenceKey?: string;
 }
 
 export function OrchestratorClient({
   greeting = "Ask me to show you something...",
   placeholder = "Try: 'Show me the comparison between my last month salary and current month salary'",
+  provider,
+  queueMode = "queue",
+  persistence,
+  persistenceKey,
 }: OrchestratorClientProps) {
+  const orchestrator = useOrchestrator();
   const components = useVisibleComponents();
-  const { remove, clear: clearUI } = useUIControls();
+  const { remove } = useUIControls();
   const [input, setInput] = useState("");
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [queue] = useState(() => new OrchestrationQueue());
+  const [queueState, setQueueState] = useState<QueueSnapshot>(() => queue.getSnapshot());
+  const isProcessing = queueState.running !== null;
   const [lastAction, setLastAction] = useState<OrchestratorAction | null>(null);
   const [uiPhase, setUIPhase] = useState<UIPhase>("EMPTY");
   const [toast, setToast] = useState<Toast | null>(null);
   const [processingAction, setProcessingAction] = useState<string | undefined>();
   const { isEnabled: debugMode, debugData, updateDebugData, setIsEnabled: setDebugMode } = useDebugMode();
+  // The timeline only records while the debug panel is open
+  const uiHistory = useUIHistory(debugMode);
+  const [recorderState, setRecorderState] = useState<RecorderSnapshot>(() =>
+    orchestrator.recorder.getSnapshot()
+  );
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
 
   // Helper to show toast notification
   const showToast = useCallback((message: string, type: ToastType = "info") => {
@@ -63,63 +102,74 @@ export function OrchestratorClient({
     setTimeout(() => setToast(null), 3000);
   }, []);
 
-  // Register handlers on mount
+  // Track queue state; cancel outstanding requests on unmount
   useEffect(() => {
-    const handlers = {
-      onFormSubmit: async (formData: Record<string, string>) => {
-        setIsProcessing(true);
-        try {
-          const action = await handleFormSubmission(formData);
-          setLastAction(action);
-          updateDebugDataForAction(action);
-        } catch (error) {
-          console.error("Error handling form submission:", error);
-        } finally {
-          setIsProcessing(false);
-        }
-      },
-      onModalConfirm: (modalId: string) => {
-        const action = confirmDestructiveAction(modalId);
-        setLastAction(action);
-        updateDebugDataForAction(action);
-      },
-      onModalCancel: (modalId: string) => {
-        const action = cancelDestructiveAction(modalId);
-        setLastAction(action);
-        updateDebugDataForAction(action);
-      },
-      onEmptyStateAction: () => {
-        const prompt = "Show me what you can do";
-        setInput(prompt);
-        handleSubmit(prompt);
-      },
-      onPredictAction: (input: string, label?: string) => {
-        if (label) {
-          handlePredictActionClick(input, label);
-        } else {
-          setInput(input);
-          handleSubmit(input);
-        }
-      },
-      onDismissPredictions: () => {
-        remove("predictive-actions");
-      },
-      onToast: (message: string, type: ToastType) => {
-        showToast(message, type);
-      },
+    const unsubscribe = queue.subscribe(setQueueState);
+    return () => {
+      unsubscribe();
+      queue.cancelAll("Orchestrator unmounted");
+    };
+  }, [queue]);
+
+  // Track session recorder state for the debug panel
+  useEffect(() => {
+    const unsubscribe = orchestrator.recorder.subscribe(setRecorderState);
+    return () => {
+      unsubscribe();
     };
+  }, [orchestrator]);
 
-    registerHandlers(handlers);
+  // Apply the configured decision provider
+  useEffect(() => {
+    if (provider) {
+      orchestrator.setProvider(provider);
+    }
+  }, [orchestrator, provider]);
+
+  // Build the storage from the config's fields, not its identity: an inline
+  // `persistence={{ kind: "local" }}` is a new object on every render, and
+  // each new storage would restore the saved state over the live UI
+  const customStorage = persistence && "read" in persistence ? persistence : undefined;
+  const storageConfig = persistence && !("read" in persistence) ? persistence : undefined;
+  const storageKind = storageConfig?.kind;
+  const dbName = storageConfig?.kind === "indexeddb" ? storageConfig.dbName : undefined;
+  const storeName = storageConfig?.kind === "indexeddb" ? storageConfig.storeName : undefined;
+  const storage = useMemo(() => {
+    if (customStorage || !storageKind) return customStorage;
+    return createStorageAdapter(
+      storageKind === "indexeddb" ? { kind: storageKind, dbName, storeName } : { kind: storageKind }
+    );
+  }, [customStorage, storageKind, dbName, storeName]);
+
+  // Restore the saved UI, then save it after every change
+  useEffect(() => {
+    if (!storage) return;
+
+    let cancelled = false;
+    let stopSaving: (() => void) | undefined;
+    persistOrchestrator(orchestrator, storage, { key: persistenceKey }).then(
+      ({ restored, stop }) => {
+        if (cancelled) {
+          stop();
+          return;
+        }
+        stopSaving = stop;
+        if (restored && orchestrator.engine.getVisibleComponents().length > 0) {
+          setUIPhase("ACTIVE");
+        }
+      }
+    );
 
     return () => {
-      clearHandlers();
+      cancelled = true;
+      stopSaving?.();
     };
-  }, [remove, showToast]);
+  }, [orchestrator, storage, persistenceKey]);
 
   // Update debug data after each action
   const updateDebugDataForAction = useCallback((action: OrchestratorAction) => {
     // Gather intent memory data
-    const intents = intentMemory.getIntents();
+    const intents = orchestrator.memory.getIntents();
     const memoryIntents = intents.slice(-5).map((intent) => ({
       id: intent.id,
       type: intent.type,
@@ -129,7 +179,7 @@ export function OrchestratorClient({
     }));
 
     const referencesObj: Record<string, string> = {};
-    for (const [key, ref] of intentMemory.getReferences()) {
+    for (const [key, ref] of orchestrator.memory.getReferences()) {
       referencesObj[key] = ref.componentId;
     }
 
@@ -142,6 +192,8 @@ export function OrchestratorClient({
     updateDebugData({
       reasoning: action.debug?.reasoning || "",
       componentDecisions: decisions,
+      rejections: action.debug?.rejections ?? [],
+      context: action.debug?.context,
       intentMemory: {
         intents: memoryIntents,
         references: referencesObj,
@@ -149,67 +201,200 @@ export function OrchestratorClient({
       rawData: {
         componentCount: components.length,
         componentIds: components.map((c) => c.id),
-        dataSummary: dataStore.getSourceSummary(),
+        dataSummary: orchestrator.store.getSourceSummary(),
       },
     });
-  }, [components, updateDebugData]);
+  }, [orchestrator, components, updateDebugData]);
 
-  // Handle user input submission
-  const handleSubmit = useCallback(
-    async (text: string) => {
-      if (!text.trim() || isProcessing) return;
-
-      setIsProcessing(true);
-      setProcessingAction(undefined);
-      setInput("");
+  // Run an orchestrator request through the queue; cancelled requests are ignored
+  const runQueued = useCallback(
+    async (label: string, task: QueueTask<OrchestratorAction>, actionLabel?: string) => {
+      setProcessingAction(actionLabel);
+      const handle = queue.enqueue(label, task, queueMode);
 
       try {
-        const action = await processUserInput(text);
+        const action = await handle.result;
         setLastAction(action);
         updateDebugDataForAction(action);
       } catch (error) {
-        console.error("Error processing input:", error);
+        if (!isAbortError(error)) {
+          console.error("Error processing input:", error);
+        }
       } finally {
-        setIsProcessing(false);
+        setProcessingAction((current) => (current === actionLabel ? undefined : current));
       }
     },
-    [isProcessing, updateDebugDataForAction]
+    [queue, queueMode, updateDebugDataForAction]
+  );
+
+  // Handle user input submission
+  const handleSubmit = useCallback(
+    (text: string) => {
+      if (!text.trim()) return;
+
+      setInput("");
+      runQueued(text, (signal) => orchestrator.processUserInput(text, { signal }));
+    },
+    [orchestrator, runQueued]
   );
 
   // Handle predictive action click with processing state
   const handlePredictActionClick = useCallback(
-    async (input: string, label: string) => {
-      if (isProcessing) return;
-
-      setProcessingAction(label);
-      setIsProcessing(true);
+    (input: string, label: string) => {
       setInput("");
+      runQueued(input, (signal) => orchestrator.processUserInput(input, { signal }), label);
+    },
+    [orchestrator, runQueued]
+  );
 
-      try {
-        const action = await processUserInput(input);
-        setLastAction(action);
-        updateDebugDataForAction(action);
-      } catch (error) {
-        console.error("Error processing input:", error);
-      } finally {
-        setIsProcessing(false);
-        setProcessingAction(undefined);
-      }
+  // Register event handlers; components emit these by name. Everything that
+  // changes UI or data runs through the queue, so handlers never interleave
+  // with a running request
+  useEffect(() => {
+    const handlers: HandlerRegistry = {
+      submit: ({ payload }) => {
+        const values = payload?.values as Record<string, string>;
+        runQueued("Form submission", (signal) =>
+          orchestrator.handleFormSubmission(values, { signal })
+        );
+      },
+      confirm: ({ componentId, payload }) => {
+        const phrase = payload?.phrase as string | undefined;
+        runQueued("Confirm", async () => orchestrator.confirmDestructiveAction(componentId, { phrase }));
+      },
+      cancel: ({ componentId }) => {
+        runQueued("Cancel", async () => orchestrator.cancelDestructiveAction(componentId));
+      },
+      action: () => {
+        const prompt = "Show me what you can do";
+        setInput(prompt);
+        handleSubmit(prompt);
+      },
+      // Suggested actions and clarification options run as new requests
+      select: ({ payload }) => {
+        const input = String(payload?.input);
+        if (typeof payload?.label === "string") {
+          handlePredictActionClick(input, payload.label);
+        } else {
+          setInput(input);
+          handleSubmit(input);
+        }
+      },
+      dismiss: ({ componentId }) => {
+        remove(componentId);
+      },
+      export: ({ payload }) => {
+        showToast(`Report exported as ${String(payload?.format).toUpperCase()}`, "success");
+      },
+      // ErrorNotice retry runs the failed request again
+      retry: () => {
+        runQueued("Retry", (signal) => orchestrator.retryLastFailure({ signal }));
+      },
+    };
+
+    orchestrator.registerHandlers(handlers);
+
+    // Only this client's orchestrator loses its handlers
+    return () => {
+      orchestrator.clearHandlers();
+    };
+  }, [orchestrator, remove, showToast, runQueued, handleSubmit, handlePredictActionClick]);
+
+  // Route events from rendered components to this client's orchestrator
+  const handleComponentEvent = useCallback(
+    (event: ComponentEvent) => {
+      orchestrator.dispatchEvent(event);
     },
-    [isProcessing, updateDebugDataForAction]
+    [orchestrator]
   );
 
-  // Handle Enter key
+  // Cancel the running request and anything queued behind it
+  const handleCancel = useCallback(() => {
+    queue.cancelAll();
+  }, [queue]);
+
+  // Handle Enter key (submit) and Escape (cancel)
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent<HTMLInputElement>) => {
       if (e.key === "Enter" && !e.shiftKey) {
         e.preventDefault();
         handleSubmit(input);
+      } else if (e.key === "Escape" && isProcessing) {
+        e.preventDefault();
+        handleCancel();
       }
     },
-    [input, handleSubmit]
+    [input, handleSubmit, handleCancel, isProcessing]
   );
 
+  // Undo/redo go through the queue so they never interleave with a running request
+  const handleUndo = useCallback(() => {
+    runQueued("Undo", async () => orchestrator.undoLastAction());
+  }, [orchestrator, runQueued]);
+
+  const handleRedo = useCallback(() => {
+    runQueued("Redo", async () => orchestrator.redoLastAction());
+  }, [orchestrator, runQueued]);
+
+  // Session recording controls (debug panel)
+  const handleToggleRecording = useCallback(() => {
+    if (orchestrator.recorder.isRecording()) {
+      setRecording(orchestrator.recorder.stop());
+    } else {
+      orchestrator.recorder.start();
+    }
+  }, [orchestrator]);
+
+  const handleDownloadRecording = useCallback(() => {
+    if (!recording) return;
+    const blob = new Blob([JSON.stringify(recording, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `session-${recording.startedAt}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [recording]);
+
+  // Replay runs on its own orchestrator, leaving this one's UI and data alone
+  const handleReplay = useCallback(() => {
+    if (!recording) return;
+    runQueued("Replay session", async () => {
+      const report = await replaySession(recording);
+      return {
+        render: [],
+        remove: [],
+        update: [],
+        debug: { reasoning: describeReplay(report), componentDecisions: [] },
+      };
+    });
+  }, [recording, runQueued]);
+
+  // Keyboard shortcuts: Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z or Ctrl+Y redo
+  useEffect(() => {
+    const handleShortcut = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      // Leave native text undo alone while the user is editing text
+      const target = e.target as HTMLElement | null;
+      if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) {
+        if (target.value.length > 0) return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && e.shiftKey) || (key === "y" && !e.metaKey)) {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener("keydown", handleShortcut);
+    return () => window.removeEventListener("keydown", handleShortcut);
+  }, [handleUndo, handleRedo]);
+
   // Focus input when phase transitions to ACTIVE
   useEffect(() => {
     if (uiPhase === "ACTIVE") {
@@ -273,7 +458,6 @@ export function OrchestratorClient({
                   onChange={(e) => setInput(e.target.value)}
                   onKeyDown={handleKeyDown}
                   placeholder={placeholder}
-                  disabled={isProcessing}
                   className="w-full rounded-lg border border-zinc-300 bg-white px-4 py-3 pr-12 text-zinc-900 placeholder-zinc-400 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-50 dark:placeholder-zinc-500"
                 />
                 {isProcessing && (
@@ -283,7 +467,23 @@ export function OrchestratorClient({
                 )}
               </div>
               <div className="mt-2 flex items-center justify-between text-xs text-zinc-500 dark:text-zinc-400">
-                <span>Press Enter to submit</span>
+                {isProcessing ? (
+                  <span className="flex items-center gap-2">
+                    <span>
+                      Working on &ldquo;{queueState.running?.label}&rdquo;
+                      {queueState.pending.length > 0 && ` (${queueState.pending.length} queued)`}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={handleCancel}
+                      className="rounded border border-zinc-300 px-2 py-0.5 text-zinc-600 hover:bg-zinc-100 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+                    >
+                      Cancel
+                    </button>
+                  </span>
+                ) : (
+                  <span>Press Enter to submit &middot; Ctrl+Z to undo</span>
+                )}
                 {lastAction && (
                   <span>
                     {lastAction.render.length} rendered, {lastAction.remove.length} removed,{" "}
@@ -295,10 +495,15 @@ export function OrchestratorClient({
           </>
         )}
 
-        {/* PHASE 2: ORCHESTRATED - Only components returned by orchestrator */}
-        {lastAction && (
+        {/* PHASE 2: ORCHESTRATED - Only components returned by orchestrator,
+            or restored from storage before any request ran */}
+        {components.length > 0 && (
           <div className="space-y-4">
-            <UIRenderer components={components} processingAction={processingAction} />
+            <UIRenderer
+              components={components}
+              processingAction={processingAction}
+              onEvent={handleComponentEvent}
+            />
           </div>
         )}
 
@@ -319,9 +524,7 @@ export function OrchestratorClient({
           <button
             type="button"
             onClick={() => {
-              dataStore.clear();
-              intentMemory.clear();
-              clearUI();
+              orchestrator.reset();
               setUIPhase("EMPTY");
               setLastAction(null);
               setInput("");
@@ -340,8 +543,26 @@ export function OrchestratorClient({
           onClose={() => setDebugMode(false)}
           reasoning={debugData.reasoning}
           componentDecisions={debugData.componentDecisions}
+          rejections={debugData.rejections}
+          context={debugData.context}
           intentMemory={debugData.intentMemory}
           rawData={debugData.rawData}
+          session={{
+            recording: recorderState.recording,
+            steps: recorderState.steps,
+            hasRecording: recording !== null,
+            onToggleRecording: handleToggleRecording,
+            onDownload: handleDownloadRecording,
+            onReplay: handleReplay,
+          }}
+          timeline={{
+            entries: uiHistory.entries,
+            current: uiHistory.current,
+            diff: uiHistory.entries.length > 0
+              ? uiHistory.diff(uiHistory.current, uiHistory.entries[uiHistory.entries.length - 1].version)
+              : null,
+            onJump: uiHistory.jumpTo,
+          }}
         />
       )}
 
@@ -0,0 +1,36 @@
+/**
+ * Orchestrator Scope
+ *
+ * Gives its subtree its own orchestrator, so several OrchestratorClients (or
+ * other hook users) on one page never share components, data, references or
+ * handlers. Pass an orchestrator to share one between scopes or to set it up
+ * beforehand; otherwise a fresh one is created when the scope mounts.
+ */
+
+"use client";
+
+import { useState } from "react";
+import { OrchestratorContext } from "@/lib/use-orchestrator";
+import {
+  createOrchestrator,
+  type OrchestratorOptions,
+  type UIOrchestrator,
+} from "@/lib/ui-orchestrator";
+
+interface OrchestratorScopeProps {
+  /** Orchestrator to provide (created from `options` when omitted) */
+  orchestrator?: UIOrchestrator;
+  /** Options for the orchestrator created by this scope */
+  options?: OrchestratorOptions;
+  children: React.ReactNode;
+}
+
+export function OrchestratorScope({ orchestrator, options, children }: OrchestratorScopeProps) {
+  const [created] = useState(() => orchestrator ?? createOrchestrator(options));
+
+  return (
+    <OrchestratorContext.Provider value={orchestrator ?? created}>
+      {children}
+    </OrchestratorContext.Provider>
+  );
+}
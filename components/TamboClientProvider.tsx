@@ -0,0 +1,25 @@
+/**
+ * Tambo Client Provider
+ *
+ * Client-side wrapper around TamboProvider. The component registry holds
+ * React components and zod schemas, which cannot be passed as props from the
+ * server-rendered root layout, so the registry is attached here.
+ */
+
+"use client";
+
+import { TamboProvider } from "@tambo-ai/react";
+import { tamboComponents } from "@/lib/tambo-components";
+
+interface TamboClientProviderProps {
+  apiKey: string;
+  children: React.ReactNode;
+}
+
+export function TamboClientProvider({ apiKey, children }: TamboClientProviderProps) {
+  return (
+    <TamboProvider apiKey={apiKey} components={tamboComponents}>
+      {children}
+    </TamboProvider>
+  );
+}
@@ -2,39 +2,29 @@
  * Dynamic UI Renderer
  *
  * Renders components based on UI state engine.
- * Maps component types to actual React components.
+ * Maps component types to actual React components, and binds the callback
+ * props each component declares as events to `onEvent`.
  */
 
 "use client";
 
 import type { UIComponent } from "@/lib/ui-state-engine";
-import { EmptyState } from "@/components/ui/EmptyState";
-import { ChartView } from "@/components/ui/ChartView";
-import { SummaryCards } from "@/components/ui/SummaryCards";
-import { DateRangePicker } from "@/components/ui/DateRangePicker";
-import { InputForm } from "@/components/ui/InputForm";
-import { ExportActions } from "@/components/ui/ExportActions";
-import { InsightSummary } from "@/components/ui/InsightSummary";
-import { PredictiveActionBar } from "@/components/ui/PredictiveActionBar";
-import { GuardrailModal } from "@/components/ui/GuardrailModal";
+import {
+  COMPONENT_SCHEMAS,
+  REGISTERED_COMPONENT_TYPES,
+  type RegisteredComponentType,
+} from "@/lib/component-schemas";
+import { bindComponentEvents, type ComponentEvent } from "@/lib/component-events";
 
 /**
  * Component registry mapping type names to React components
+ *
+ * Derived from COMPONENT_SCHEMAS, which pairs each type name with its
+ * implementation.
  */
-const COMPONENT_REGISTRY: Record<
-  string,
-  React.ComponentType<any>
-> = {
-  EmptyState,
-  ChartView,
-  SummaryCards,
-  DateRangePicker,
-  InputForm,
-  ExportActions,
-  InsightSummary,
-  PredictiveActionBar,
-  GuardrailModal,
-};
+export const COMPONENT_REGISTRY = Object.fromEntries(
+  REGISTERED_COMPONENT_TYPES.map((type) => [type, COMPONENT_SCHEMAS[type].component])
+) as Record<RegisteredComponentType, React.ComponentType<any>>;
 
 /**
  * Props for the UIRenderer
@@ -44,8 +34,10 @@ export interface UIRendererProps {
   components?: UIComponent[];
   /** Custom component registry for extensibility */
   registry?: Record<string, React.ComponentType<any>>;
-  /** Label of the action currently being processed (for PredictiveActionBar) */
+  /** Label of the action currently being processed (for PredictiveActionBar and ClarificationPrompt) */
   processingAction?: string;
+  /** Receives the events components emit (e.g. UIOrchestrator.dispatchEvent) */
+  onEvent?: (event: ComponentEvent) => void;
 }
 
 /**
@@ -58,8 +50,12 @@ export function UIRenderer({
   components = [],
   registry = COMPONENT_REGISTRY,
   processingAction,
+  onEvent,
 }: UIRendererProps) {
-  const mergedRegistry = { ...COMPONENT_REGISTRY, ...registry };
+  const mergedRegistry: NonNullable<UIRendererProps["registry"]> = {
+    ...COMPONENT_REGISTRY,
+    ...registry,
+  };
 
   return (
     <>
@@ -75,10 +71,11 @@ export function UIRenderer({
         // with any show prop already in the component props
         const show = component.visible !== false && component.props.show !== false;
 
-        // For PredictiveActionBar, pass the processingAction prop
-        const props = component.type === "PredictiveActionBar"
+        // For clickable intent lists, pass the processingAction prop
+        const props = component.type === "PredictiveActionBar" || component.type === "ClarificationPrompt"
           ? { ...component.props, processingAction }
           : component.props;
+        const events = onEvent ? bindComponentEvents(component, onEvent) : {};
 
         return (
           <div
@@ -87,6 +84,7 @@ export function UIRenderer({
           >
             <ComponentClass
               {...props}
+              {...events}
               show={show}
             />
           </div>
@@ -0,0 +1,73 @@
+export interface ClarificationOption {
+  label: string;
+  input: string; // Request dispatched when chosen
+  intent?: string;
+  confidence?: number;
+}
+
+export interface ClarificationPromptProps {
+  show?: boolean;
+  question?: string;
+  options: ClarificationOption[];
+  /** Called with the chosen option's request and label */
+  onSelect?: (input: string, label: string) => void;
+  /** Label of the option currently being processed */
+  processingAction?: string;
+}
+
+export function ClarificationPrompt({
+  show = true,
+  question = "Did you mean one of these?",
+  options,
+  onSelect,
+  processingAction,
+}: ClarificationPromptProps) {
+  if (!show || options.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 dark:border-amber-900 dark:bg-amber-950">
+      <p className="mb-3 text-sm font-medium text-amber-900 dark:text-amber-100">
+        {question}
+      </p>
+      <div className="flex flex-col gap-2">
+        {options.map((option, index) => {
+          const isProcessing = processingAction === option.label;
+          return (
+            <button
+              key={index}
+              type="button"
+              onClick={() => onSelect?.(option.input, option.label)}
+              disabled={!onSelect || processingAction !== undefined}
+              className={cn(
+                "flex items-center justify-between gap-3 rounded-md border px-3 py-2 text-left text-sm transition-all duration-200",
+                "border-amber-200 bg-white text-zinc-900",
+                "hover:border-amber-300 hover:shadow-sm",
+                "dark:border-amber-800 dark:bg-zinc-900 dark:text-zinc-100 dark:hover:border-amber-700",
+                isProcessing ? "cursor-wait opacity-50" : ""
+              )}
+            >
+              <span className="flex flex-col">
+                <span className="font-medium">{option.label}</span>
+                <span className="text-xs text-muted-foreground">&ldquo;{option.input}&rdquo;</span>
+              </span>
+              {isProcessing ? (
+                <span className="h-3 w-3 shrink-0 animate-spin rounded-full border border-amber-300 border-t-amber-600" />
+              ) : (
+                option.confidence !== undefined && (
+                  <span className="shrink-0 text-xs text-muted-foreground">
+                    {Math.round(option.confidence * 100)}%
+                  </span>
+                )
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// Helper function for className merging (simple version of cn utility)
+function cn(...classes: (string | boolean | undefined | null)[]): string {
+  return classes.filter(Boolean).join(" ");
+}
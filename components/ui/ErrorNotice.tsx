@@ -0,0 +1,67 @@
+import type { OrchestrationErrorKind } from "@/lib/orchestration-errors";
+
+export interface ErrorNoticeProps {
+  show?: boolean;
+  kind?: OrchestrationErrorKind;
+  title?: string;
+  message?: string;
+  /** Specific problems, e.g. the values that failed validation */
+  details?: string[];
+  /** Whether to offer the retry button */
+  retryable?: boolean;
+  onRetry?: () => void;
+}
+
+export function ErrorNotice({
+  show = true,
+  kind = "unknown",
+  title = "Something went wrong",
+  message = "Please try again.",
+  details = [],
+  retryable = false,
+  onRetry,
+}: ErrorNoticeProps) {
+  if (!show) return null;
+
+  return (
+    <div
+      role="alert"
+      data-error-kind={kind}
+      className="flex gap-3 rounded-lg border border-red-200 bg-red-50 p-4 dark:border-red-900 dark:bg-red-950"
+    >
+      <svg
+        className="mt-0.5 h-5 w-5 shrink-0 text-red-600 dark:text-red-400"
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M12 9v3.75m0 3.75h.008M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z"
+        />
+      </svg>
+      <div className="flex-1">
+        <h3 className="text-sm font-semibold text-red-900 dark:text-red-100">{title}</h3>
+        <p className="mt-1 text-sm text-red-800 dark:text-red-200">{message}</p>
+        {details.length > 0 && (
+          <ul className="mt-2 list-inside list-disc text-xs text-red-700 dark:text-red-300">
+            {details.map((detail, index) => (
+              <li key={index}>{detail}</li>
+            ))}
+          </ul>
+        )}
+        {retryable && onRetry && (
+          <button
+            type="button"
+            onClick={onRetry}
+            className="mt-3 rounded-md bg-red-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-red-700 dark:bg-red-500 dark:hover:bg-red-600"
+          >
+            Try again
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
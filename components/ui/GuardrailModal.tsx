@@ -1,29 +1,99 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+export type GuardrailConfirmation =
+  | { kind: "click" }
+  | { kind: "typed"; phrase: string }
+  | { kind: "delay"; seconds: number };
+
 export interface GuardrailModalProps {
   show?: boolean;
   title?: string;
   message?: string;
   confirmLabel?: string;
   cancelLabel?: string;
-  onConfirm?: () => void;
+  severity?: "low" | "medium" | "high" | "critical";
+  confirmation?: GuardrailConfirmation;
+  details?: string[];
+  onConfirm?: (phrase?: string) => void;
   onCancel?: () => void;
 }
 
+const SEVERITY_STYLES: Record<NonNullable<GuardrailModalProps["severity"]>, string> = {
+  low: "bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300",
+  medium: "bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200",
+  high: "bg-orange-100 text-orange-800 dark:bg-orange-900/50 dark:text-orange-200",
+  critical: "bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200",
+};
+
 export function GuardrailModal({
   show = true,
   title = "Confirm Action",
   message = "Are you sure you want to proceed?",
   confirmLabel = "Confirm",
   cancelLabel = "Cancel",
+  severity,
+  confirmation = { kind: "click" },
+  details = [],
   onConfirm,
   onCancel,
 }: GuardrailModalProps) {
+  const [typed, setTyped] = useState("");
+  const delaySeconds = confirmation.kind === "delay" ? confirmation.seconds : 0;
+  const [remaining, setRemaining] = useState(delaySeconds);
+
+  // Count down before a delayed confirmation becomes available
+  useEffect(() => {
+    if (delaySeconds <= 0) return;
+
+    const timer = setInterval(() => {
+      setRemaining((prev) => {
+        if (prev <= 1) {
+          clearInterval(timer);
+          return 0;
+        }
+        return prev - 1;
+      });
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [delaySeconds]);
+
   if (!show) return null;
 
+  const canConfirm =
+    confirmation.kind === "typed" ? typed.trim() === confirmation.phrase : remaining === 0;
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
       <div className="w-full max-w-md rounded-lg border border-zinc-200 bg-white p-6 shadow-lg dark:border-zinc-800 dark:bg-zinc-950">
-        <h3 className="text-lg font-semibold">{title}</h3>
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="text-lg font-semibold">{title}</h3>
+          {severity && (
+            <span className={`rounded-full px-2 py-0.5 text-xs font-medium uppercase ${SEVERITY_STYLES[severity]}`}>
+              {severity}
+            </span>
+          )}
+        </div>
         <p className="mt-2 text-muted-foreground">{message}</p>
+        {details.length > 0 && (
+          <ul className="mt-3 list-disc space-y-1 pl-5 text-sm text-zinc-600 dark:text-zinc-400">
+            {details.map((detail) => (
+              <li key={detail}>{detail}</li>
+            ))}
+          </ul>
+        )}
+        {confirmation.kind === "typed" && (
+          <input
+            type="text"
+            value={typed}
+            onChange={(e) => setTyped(e.target.value)}
+            placeholder={confirmation.phrase}
+            aria-label={`Type ${confirmation.phrase} to confirm`}
+            className="mt-4 w-full rounded-md border border-zinc-300 bg-white px-3 py-2 text-sm dark:border-zinc-700 dark:bg-zinc-900"
+          />
+        )}
         <div className="mt-6 flex justify-end gap-3">
           {onCancel && (
             <button
@@ -37,10 +107,11 @@ export function GuardrailModal({
           {onConfirm && (
             <button
               type="button"
-              onClick={onConfirm}
-              className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 dark:bg-white dark:text-zinc-900 dark:hover:bg-zinc-200"
+              onClick={() => onConfirm(confirmation.kind === "typed" ? typed.trim() : undefined)}
+              disabled={!canConfirm}
+              className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-white dark:text-zinc-900 dark:hover:bg-zinc-200"
             >
-              {confirmLabel}
+              {remaining > 0 ? `${confirmLabel} (${remaining})` : confirmLabel}
             </button>
           )}
         </div>
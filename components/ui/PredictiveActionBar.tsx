@@ -9,8 +9,8 @@ export interface PredictiveActionBarProps {
   show?: boolean;
   actions: PredictiveAction[];
   onDismiss?: () => void;
-  /** Called when an action is clicked with the intent string */
-  onActionClick?: (intent: string) => void;
+  /** Called when an action is clicked with the intent string and its label */
+  onActionClick?: (intent: string, label: string) => void;
   /** Label of the action currently being processed */
   processingAction?: string;
 }
@@ -39,7 +39,7 @@ export function PredictiveActionBar({
               onClick={() => {
                 // Prefer onActionClick with intent string, fall back to onClick
                 if (onActionClick && action.input) {
-                  onActionClick(action.input);
+                  onActionClick(action.input, action.label);
                 } else if (action.onClick) {
                   action.onClick();
                 }
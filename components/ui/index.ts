@@ -22,5 +22,11 @@ export type { InsightSummaryProps, Insight } from "./InsightSummary";
 export { PredictiveActionBar } from "./PredictiveActionBar";
 export type { PredictiveActionBarProps, PredictiveAction } from "./PredictiveActionBar";
 
+export { ClarificationPrompt } from "./ClarificationPrompt";
+export type { ClarificationPromptProps, ClarificationOption } from "./ClarificationPrompt";
+
 export { GuardrailModal } from "./GuardrailModal";
-export type { GuardrailModalProps } from "./GuardrailModal";
+export type { GuardrailModalProps, GuardrailConfirmation } from "./GuardrailModal";
+
+export { ErrorNotice } from "./ErrorNotice";
+export type { ErrorNoticeProps } from "./ErrorNotice";
@@ -0,0 +1,285 @@
+/**
+ * Action History
+ *
+ * Undo/redo stack for the UI Orchestrator. Each entry captures one action set
+ * (a processed input, a form submission, a confirmed modal) as the difference
+ * between the UI and data store state before and after it, so it can be
+ * reverted and re-applied exactly - including data written by forms.
+ * GuardrailModals are not recorded: undo never brings back a confirmation
+ * whose operation has already run or been cancelled.
+ *
+ * Usage:
+ *   actionHistory.begin();
+ *   try { ...mutate uiEngine / dataStore... } finally { actionHistory.end("label"); }
+ *
+ * Nested begin/end pairs (e.g. a form submission that re-processes input)
+ * are folded into a single entry.
+ */
+
+import {
+  uiEngine,
+  type UIAction,
+  type UIComponent,
+  type UIState,
+  type UIStateEngine,
+} from "./ui-state-engine";
+import { dataStore, type DataEntry, type DataStore } from "./data-store";
+
+/**
+ * A reversible action set
+ */
+export interface HistoryEntry {
+  id: string;
+  /** What triggered the change, e.g. the user input */
+  label: string;
+  timestamp: number;
+  /** UI actions that restore the state before this entry */
+  undo: UIAction[];
+  /** UI actions that re-apply this entry */
+  redo: UIAction[];
+  /** Data entries before the change (null = key did not exist) */
+  dataBefore: Record<string, DataEntry | null>;
+  /** Data entries after the change (null = key was deleted) */
+  dataAfter: Record<string, DataEntry | null>;
+}
+
+/**
+ * Undo/redo availability for UI consumption
+ */
+export interface HistorySnapshot {
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Label of the entry undo would revert */
+  undoLabel?: string;
+  /** Label of the entry redo would re-apply */
+  redoLabel?: string;
+}
+
+/**
+ * History commands recognized in user input
+ */
+export type HistoryCommand = "undo" | "redo";
+
+/**
+ * Phrases treated as undo/redo requests (whole input only)
+ */
+const HISTORY_COMMAND_PATTERNS: Array<{ command: HistoryCommand; pattern: RegExp }> = [
+  { command: "redo", pattern: /^\s*(redo|redo that|redo it|do that again|bring it back)\s*[.!]?\s*$/i },
+  {
+    command: "undo",
+    pattern: /^\s*(undo|undo that|undo it|undo last|undo the last (action|change)|revert( that)?|go back|take that back)\s*[.!]?\s*$/i,
+  },
+];
+
+/**
+ * Check if the input is an undo/redo request
+ */
+export function parseHistoryCommand(input: string): HistoryCommand | null {
+  return HISTORY_COMMAND_PATTERNS.find(({ pattern }) => pattern.test(input))?.command ?? null;
+}
+
+/**
+ * State captured when a change begins
+ */
+interface Checkpoint {
+  ui: UIState;
+  data: Record<string, DataEntry>;
+}
+
+/**
+ * Whether a component is left out of history
+ * A GuardrailModal is only meaningful while its pending operation is
+ * registered; once confirmed or cancelled, bringing it back with undo would
+ * show a modal that does nothing.
+ */
+function isTransient(component: UIComponent): boolean {
+  return component.type === "GuardrailModal";
+}
+
+/**
+ * UI actions that turn state `from` into state `to`
+ * Components are compared by reference - the engine replaces changed ones.
+ */
+function diffUIState(from: UIState, to: UIState): UIAction[] {
+  const actions: UIAction[] = [];
+
+  for (const [id, component] of Object.entries(from)) {
+    if (!to[id] && !isTransient(component)) {
+      actions.push({ type: "remove", id });
+    }
+  }
+
+  for (const [id, component] of Object.entries(to)) {
+    if (from[id] !== component && !isTransient(component)) {
+      actions.push({ type: "render", component });
+    }
+  }
+
+  return actions;
+}
+
+/**
+ * Undo/redo stack bound to a UI engine and data store
+ */
+export class ActionHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private listeners: Set<(snapshot: HistorySnapshot) => void> = new Set();
+  private checkpoint: Checkpoint | null = null;
+  private depth: number = 0;
+  private nextId: number = 0;
+
+  constructor(
+    private engine: UIStateEngine,
+    private store: DataStore,
+    private maxEntries: number = 50
+  ) {}
+
+  /**
+   * Start recording a change
+   */
+  begin(): void {
+    if (this.depth++ === 0) {
+      this.checkpoint = { ui: this.engine.getState(), data: this.store.export() };
+    }
+  }
+
+  /**
+   * Finish recording a change
+   * Returns the new entry, or null if nothing changed or a change is still open
+   */
+  end(label: string): HistoryEntry | null {
+    if (this.depth === 0) return null;
+    if (--this.depth > 0 || !this.checkpoint) return null;
+
+    const before = this.checkpoint;
+    this.checkpoint = null;
+
+    const ui = this.engine.getState();
+    const data = this.store.export();
+
+    const dataBefore: Record<string, DataEntry | null> = {};
+    const dataAfter: Record<string, DataEntry | null> = {};
+    for (const key of new Set([...Object.keys(before.data), ...Object.keys(data)])) {
+      if (before.data[key] !== data[key]) {
+        dataBefore[key] = before.data[key] ?? null;
+        dataAfter[key] = data[key] ?? null;
+      }
+    }
+
+    const redo = diffUIState(before.ui, ui);
+    if (redo.length === 0 && Object.keys(dataBefore).length === 0) {
+      return null;
+    }
+
+    const entry: HistoryEntry = {
+      id: `history_${++this.nextId}`,
+      label,
+      timestamp: Date.now(),
+      undo: diffUIState(ui, before.ui),
+      redo,
+      dataBefore,
+      dataAfter,
+    };
+
+    this.undoStack.push(entry);
+    if (this.undoStack.length > this.maxEntries) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.notify();
+
+    return entry;
+  }
+
+  /**
+   * Revert the most recent entry
+   */
+  undo(): HistoryEntry | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+
+    this.apply(entry.undo, entry.dataBefore);
+    this.redoStack.push(entry);
+    this.notify();
+    return entry;
+  }
+
+  /**
+   * Re-apply the most recently undone entry
+   */
+  redo(): HistoryEntry | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+
+    this.apply(entry.redo, entry.dataAfter);
+    this.undoStack.push(entry);
+    this.notify();
+    return entry;
+  }
+
+  /**
+   * Get undo/redo availability
+   */
+  getSnapshot(): HistorySnapshot {
+    const undoEntry = this.undoStack[this.undoStack.length - 1];
+    const redoEntry = this.redoStack[this.redoStack.length - 1];
+    return {
+      canUndo: !!undoEntry,
+      canRedo: !!redoEntry,
+      undoLabel: undoEntry?.label,
+      redoLabel: redoEntry?.label,
+    };
+  }
+
+  /**
+   * Drop all history
+   */
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.checkpoint = null;
+    this.depth = 0;
+    this.notify();
+  }
+
+  /**
+   * Subscribe to history changes
+   * Returns an unsubscribe function
+   */
+  subscribe(listener: (snapshot: HistorySnapshot) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Apply UI actions and data entries as one step
+   */
+  private apply(actions: UIAction[], data: Record<string, DataEntry | null>): void {
+    for (const [key, entry] of Object.entries(data)) {
+      this.store.restore(key, entry);
+    }
+    if (actions.length > 0) {
+      this.engine.dispatchAll(actions);
+    }
+  }
+
+  /**
+   * Notify all listeners of a change
+   */
+  private notify(): void {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.error("Error in ActionHistory listener:", error);
+      }
+    });
+  }
+}
+
+/**
+ * Singleton instance bound to the shared engine and data store
+ */
+export const actionHistory = new ActionHistory(uiEngine, dataStore);
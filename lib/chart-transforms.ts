@@ -0,0 +1,220 @@
+/**
+ * Chart Transforms
+ *
+ * Refines a ChartView that is already on screen with an `update` action
+ * instead of regenerating the view:
+ *
+ *   "make this a line chart" / "show it as a pie"   -> type
+ *   "rename the chart to Take-home pay"             -> title
+ *   "label them June and July"                      -> labels
+ *   "only show the current month"                   -> data and labels subset
+ *   "remove last month from the chart"              -> data and labels subset
+ *
+ * The target is the ChartView the orchestrator annotated the input with
+ * ("[referencing: ChartView id:...]"), the only chart on screen, or the chart
+ * intent memory points at. Several transforms in one request ("make it a line
+ * chart titled Pay") are combined into a single update.
+ */
+
+import type { UIComponent } from "./ui-state-engine";
+import type { IntentRule, IntentRuleContext } from "./intent-rules";
+import { MATCH_THRESHOLD, scoreTerm } from "./intent-matching";
+
+/**
+ * Chart styles ChartView supports
+ */
+export type ChartType = "bar" | "line" | "pie";
+
+/**
+ * Props changes for a chart, with a description of each change
+ */
+export interface ChartTransform {
+  chartId: string;
+  props: { type?: ChartType; title?: string; labels?: string[]; data?: number[] };
+  changes: string[];
+}
+
+const CHART_TYPES: Record<string, ChartType> = {
+  line: "line",
+  bar: "bar",
+  column: "bar",
+  pie: "pie",
+  donut: "pie",
+  doughnut: "pie",
+};
+
+const TYPE_WORD = /\b(line|bar|column|pie|donut|doughnut)(?:\s+(?:chart|graph))?\b/;
+const TYPE_VERB = /\b(?:make|turn|change|convert|switch|show|display|render|draw|as|into)\b/;
+
+/** Words showing the request is about an existing chart */
+const CHART_REFERENCE = /\b(?:it|this|that|chart|graph)\b/;
+
+const TITLE_PATTERNS = [
+  /\b(?:rename|retitle)\s+(?:it|this|that|the\s+(?:chart|graph))\s+(?:to|as)\s+(.+)$/i,
+  /\b(?:set|change)\s+the\s+(?:chart\s+)?title\s+to\s+(.+)$/i,
+  /\b(?:title|call|name)\s+(?:it|this|that|the\s+(?:chart|graph))\s+(.+)$/i,
+  /\btitled\s+(.+)$/i,
+];
+
+const LABEL_PATTERN =
+  /\b(?:label\s+(?:them|it|this|the\s+(?:bars|values|points|chart))(?:\s+as)?|(?:set|rename|change)\s+the\s+labels\s+to)\s+(.+)$/i;
+
+/** "only show X", "just X" keep; "remove X", "without X" drop */
+const KEEP_VERB = /\b(?:only|just)\b/;
+const DROP_VERB = /\b(?:remove|drop|exclude|without|hide)\b/;
+const FIRST_OR_LAST = /\b(first|last)\s+(\d+)\b/;
+
+/**
+ * Input without the orchestrator's reference annotation and trailing punctuation
+ */
+function stripAnnotation(text: string): string {
+  return text.replace(/\s*\[referencing:[^\]]*\]/g, "").replace(/[.!?]+\s*$/, "").trim();
+}
+
+/**
+ * Split a spoken list ("June and July", "A, B, C")
+ */
+function splitList(text: string): string[] {
+  return text
+    .split(/\s*(?:,|&|\band\b)\s*/i)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function unquote(text: string): string {
+  return text.trim().replace(/^["'“‘](.*)["'”’]$/, "$1").trim();
+}
+
+/**
+ * Find the ChartView a request refers to
+ */
+export function findTargetChart(ctx: IntentRuleContext): UIComponent | null {
+  const annotated = ctx.input.match(/\[referencing: ChartView id:([^\]\s]+)\]/);
+  if (annotated && ctx.state[annotated[1]]?.type === "ChartView") {
+    return ctx.state[annotated[1]];
+  }
+
+  const charts = Object.values(ctx.state).filter((c) => c.type === "ChartView" && c.visible);
+  if (charts.length === 1) return charts[0];
+
+  for (const key of ["this", "that", "chartview"]) {
+    const id = ctx.memory.resolveReference(key);
+    const chart = charts.find((c) => c.id === id);
+    if (chart) return chart;
+  }
+  return null;
+}
+
+/**
+ * Indices of the chart values a subset request keeps, or null if it isn't one
+ */
+function parseSubset(lowerText: string, labels: string[], count: number): number[] | null {
+  const keep = KEEP_VERB.test(lowerText);
+  const drop = DROP_VERB.test(lowerText);
+  if (keep === drop) return null;
+
+  const all = Array.from({ length: count }, (_, i) => i);
+  let selected: number[];
+
+  const range = lowerText.match(FIRST_OR_LAST);
+  if (range) {
+    const n = Number(range[2]);
+    selected = range[1] === "first" ? all.slice(0, n) : all.slice(Math.max(count - n, 0));
+  } else {
+    selected = all.filter(
+      (i) => labels[i] !== undefined && scoreTerm(labels[i].toLowerCase(), lowerText).score >= MATCH_THRESHOLD
+    );
+  }
+  if (selected.length === 0) return null;
+
+  const kept = keep ? selected : all.filter((i) => !selected.includes(i));
+  // Must leave something and change something
+  return kept.length > 0 && kept.length < count ? kept : null;
+}
+
+/**
+ * Work out the props changes a request makes to a chart, or null if it isn't a transform
+ */
+export function parseChartTransform(ctx: IntentRuleContext): ChartTransform | null {
+  const chart = findTargetChart(ctx);
+  if (!chart) return null;
+
+  const text = stripAnnotation(ctx.input);
+  const lowerText = stripAnnotation(ctx.lowerInput);
+  const data = Array.isArray(chart.props.data) ? (chart.props.data as number[]) : [];
+  const labels = Array.isArray(chart.props.labels) ? (chart.props.labels as string[]) : [];
+
+  const props: ChartTransform["props"] = {};
+  const changes: string[] = [];
+
+  const typeWord = lowerText.match(TYPE_WORD);
+  if (typeWord && TYPE_VERB.test(lowerText) && CHART_REFERENCE.test(lowerText)) {
+    const type = CHART_TYPES[typeWord[1]];
+    if (type !== chart.props.type) {
+      props.type = type;
+      changes.push(`type ${String(chart.props.type ?? "bar")} -> ${type}`);
+    }
+  }
+
+  for (const pattern of TITLE_PATTERNS) {
+    const title = text.match(pattern);
+    if (title) {
+      props.title = unquote(title[1]);
+      changes.push(`title "${props.title}"`);
+      break;
+    }
+  }
+
+  const labelMatch = text.match(LABEL_PATTERN);
+  if (labelMatch) {
+    const newLabels = splitList(labelMatch[1]).map(unquote);
+    // Labels must line up with the values
+    if (newLabels.length === data.length) {
+      props.labels = newLabels;
+      changes.push(`labels ${newLabels.join(", ")}`);
+    }
+  } else {
+    const kept = parseSubset(lowerText, labels, data.length);
+    if (kept) {
+      props.data = kept.map((i) => data[i]);
+      if (labels.length === data.length) {
+        props.labels = kept.map((i) => labels[i]);
+      }
+      changes.push(`kept ${kept.map((i) => labels[i] ?? `value ${i + 1}`).join(", ")}`);
+    }
+  }
+
+  return changes.length > 0 ? { chartId: chart.id, props, changes } : null;
+}
+
+const chartTransformRule: IntentRule = {
+  id: "chart-transform",
+  description: "Change the type, title, labels or values of a chart on screen",
+  // Above layout intents: "hide last month from the chart" edits the chart, not the screen
+  priority: 125,
+  match: [
+    {
+      any: [
+        ...Object.keys(CHART_TYPES),
+        "title", "rename", "call it", "name it", "label",
+        "only", "just", "remove", "drop", "exclude", "without", "hide",
+      ],
+    },
+  ],
+  when: (ctx) => parseChartTransform(ctx) !== null,
+  outcome: (ctx) => {
+    const { chartId, props, changes } = parseChartTransform(ctx) as ChartTransform;
+    return {
+      update: [{ id: chartId, props }],
+      notes: `Updated ${chartId}: ${changes.join("; ")}`,
+      reasoning: `Transforming the existing chart instead of regenerating the view. ${chartId}: ${changes.join("; ")}.`,
+    };
+  },
+};
+
+/**
+ * Intent rules for chart transforms
+ */
+export function getChartTransformIntentRules(): IntentRule[] {
+  return [chartTransformRule];
+}
@@ -0,0 +1,156 @@
+/**
+ * Component Events
+ *
+ * Routes what a rendered component does back to the orchestrator as plain
+ * data instead of callback props:
+ *
+ *   { componentId: "salary-data-form", event: "submit", payload: { values: {...} } }
+ *
+ * Components declare their events in COMPONENT_SCHEMAS (the callback prop that
+ * fires each one and a schema for its payload). The renderer binds those props
+ * to an emitter when it renders, so provider responses and UI state never hold
+ * functions. The bus checks each event against the declaration of the
+ * component it names and hands it to the handler registered for that event.
+ */
+
+import type { UIComponent, UIState } from "./ui-state-engine";
+import { getComponentSchema, type ComponentEventSchema } from "./component-schemas";
+import { HandlerFailureError, InvalidEventError } from "./orchestration-errors";
+
+/**
+ * Something a rendered component did
+ */
+export interface ComponentEvent {
+  componentId: string;
+  /** Event name as declared in the component's schema */
+  event: string;
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * Handles one event name for every component type that declares it
+ */
+export type ComponentEventHandler = (event: ComponentEvent, component: UIComponent) => void;
+
+/**
+ * Handlers by event name
+ */
+export type HandlerRegistry = Partial<Record<string, ComponentEventHandler>>;
+
+/**
+ * Events declared by a component type
+ */
+export function getComponentEvents(type: string): Record<string, ComponentEventSchema> {
+  return getComponentSchema(type)?.events ?? {};
+}
+
+/**
+ * Callback props for a component's declared events, each emitting a ComponentEvent
+ * Callback arguments become payload values, in the order of the payload schema's keys.
+ */
+export function bindComponentEvents(
+  component: UIComponent,
+  emit: (event: ComponentEvent) => void
+): Record<string, (...args: unknown[]) => void> {
+  const props: Record<string, (...args: unknown[]) => void> = {};
+
+  for (const [event, schema] of Object.entries(getComponentEvents(component.type))) {
+    const keys = Object.keys(schema.payload.shape);
+    props[schema.prop] = (...args: unknown[]) => {
+      const payload: Record<string, unknown> = {};
+      keys.forEach((key, index) => {
+        if (args[index] !== undefined) payload[key] = args[index];
+      });
+      emit({ componentId: component.id, event, payload });
+    };
+  }
+
+  return props;
+}
+
+/**
+ * Event bus for one orchestrator
+ */
+export class ComponentEventBus {
+  private handlers: Map<string, ComponentEventHandler> = new Map();
+
+  /**
+   * @param onReject - told about each event that fails its declaration
+   */
+  constructor(private onReject?: (error: InvalidEventError) => void) {}
+
+  /**
+   * Register handlers, replacing any for the same event names
+   */
+  register(handlers: HandlerRegistry): void {
+    for (const [event, handler] of Object.entries(handlers)) {
+      if (handler) {
+        this.handlers.set(event, handler);
+      }
+    }
+  }
+
+  /**
+   * Remove a handler by event name
+   */
+  unregister(event: string): boolean {
+    return this.handlers.delete(event);
+  }
+
+  /**
+   * Remove all handlers
+   */
+  clear(): void {
+    this.handlers.clear();
+  }
+
+  /**
+   * Names of events that have a handler
+   */
+  getEvents(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+
+  /**
+   * Route an event to its handler
+   * The component must be in `state` and declare the event, and the payload
+   * must match the declared schema; other events are passed to `onReject` as
+   * an InvalidEventError. Returns whether a handler ran; a handler that throws
+   * is rethrown as a HandlerFailureError.
+   */
+  emit(event: ComponentEvent, state: UIState): boolean {
+    const reject = (problem: string) => {
+      this.onReject?.(new InvalidEventError(event.event, event.componentId, problem));
+      return false;
+    };
+
+    const component = state[event.componentId];
+    if (!component) {
+      return reject("no such component on screen");
+    }
+
+    const schema = getComponentEvents(component.type)[event.event];
+    if (!schema) {
+      return reject(`${component.type} does not declare this event`);
+    }
+
+    const payload = schema.payload.safeParse(event.payload ?? {});
+    if (!payload.success) {
+      return reject(
+        payload.error.issues
+          .map((issue) => `${issue.path.join(".") || "payload"}: ${issue.message}`)
+          .join("; ")
+      );
+    }
+
+    const handler = this.handlers.get(event.event);
+    if (!handler) return false;
+
+    try {
+      handler({ ...event, payload: payload.data }, component);
+    } catch (error) {
+      throw new HandlerFailureError(event.event, event.componentId, error);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,335 @@
+/**
+ * Component Schemas
+ *
+ * Single source of truth for every component the orchestrator can render.
+ * Each entry pairs the React implementation with the component's purpose and
+ * a zod schema for the props an AI is allowed to set (derived from the
+ * component's *Props interface).
+ *
+ * Callback props (onSubmit, onConfirm, ...) are not part of the props schemas.
+ * Components declare them as events instead; the renderer binds each one to
+ * the orchestrator's event bus (see component-events.ts).
+ *
+ * The UIRenderer registry and the Tambo registry are both derived from this
+ * table, so adding a component is one entry here.
+ */
+
+import type { ComponentType } from "react";
+import { z } from "zod";
+import { EmptyState } from "@/components/ui/EmptyState";
+import { ChartView } from "@/components/ui/ChartView";
+import { SummaryCards } from "@/components/ui/SummaryCards";
+import { DateRangePicker } from "@/components/ui/DateRangePicker";
+import { InputForm } from "@/components/ui/InputForm";
+import { ExportActions } from "@/components/ui/ExportActions";
+import { InsightSummary } from "@/components/ui/InsightSummary";
+import { PredictiveActionBar } from "@/components/ui/PredictiveActionBar";
+import { ClarificationPrompt } from "@/components/ui/ClarificationPrompt";
+import { GuardrailModal } from "@/components/ui/GuardrailModal";
+import { ErrorNotice } from "@/components/ui/ErrorNotice";
+
+/**
+ * An event a component emits through one of its callback props
+ */
+export interface ComponentEventSchema {
+  /** Callback prop the component calls */
+  prop: string;
+  /** When the event fires */
+  description: string;
+  /** Schema for the payload; the callback's arguments map, in order, to its keys */
+  payload: z.ZodObject;
+}
+
+/**
+ * Contract for a registered component
+ */
+export interface ComponentSchema {
+  /** React implementation */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- each component has its own props type
+  component: ComponentType<any>;
+  /** What the component shows and when to use it (for AI consumption) */
+  description: string;
+  /** Schema for AI-controllable props */
+  propsSchema: z.ZodObject;
+  /** Events the component emits, by name */
+  events?: Record<string, ComponentEventSchema>;
+}
+
+const trendSchema = z.enum(["up", "down", "neutral"]);
+
+/**
+ * All registered components
+ */
+export const COMPONENT_SCHEMAS = {
+  EmptyState: {
+    component: EmptyState,
+    description:
+      "Placeholder shown when there is nothing to display, with an optional call-to-action button.",
+    propsSchema: z.object({
+      title: z.string().optional().describe("Heading text"),
+      description: z.string().optional().describe("Supporting text below the heading"),
+      actionLabel: z.string().optional().describe("Label for the call-to-action button"),
+    }),
+    events: {
+      action: {
+        prop: "onAction",
+        description: "The call-to-action button was clicked",
+        payload: z.object({}),
+      },
+    },
+  },
+  ChartView: {
+    component: ChartView,
+    description:
+      "Bar, line or pie chart of numeric values. Two values labelled last/current render as a salary comparison.",
+    propsSchema: z.object({
+      title: z.string().optional().describe("Chart title"),
+      data: z.array(z.number()).optional().describe("Numeric values to plot"),
+      labels: z.array(z.string()).optional().describe("Label for each value, same length as data"),
+      type: z.enum(["bar", "line", "pie"]).optional().describe("Chart style"),
+    }),
+  },
+  SummaryCards: {
+    component: SummaryCards,
+    description: "Grid of metric cards, each with a title, value and optional trend.",
+    propsSchema: z.object({
+      cards: z
+        .array(
+          z.object({
+            title: z.string().describe("Metric name"),
+            value: z.union([z.string(), z.number()]).describe("Metric value"),
+            change: z.number().optional().describe("Percentage change"),
+            trend: trendSchema.optional().describe("Direction of change"),
+          })
+        )
+        .describe("Cards to display"),
+    }),
+  },
+  DateRangePicker: {
+    component: DateRangePicker,
+    description: "Start and end date inputs for selecting a period.",
+    propsSchema: z.object({
+      startDate: z.string().optional().describe("Start date (YYYY-MM-DD)"),
+      endDate: z.string().optional().describe("End date (YYYY-MM-DD)"),
+    }),
+    events: {
+      change: {
+        prop: "onChange",
+        description: "Either date was changed",
+        payload: z.object({ startDate: z.string(), endDate: z.string() }),
+      },
+    },
+  },
+  InputForm: {
+    component: InputForm,
+    description:
+      "Form that collects values the data store is missing. Never invent values the user has not provided.",
+    propsSchema: z.object({
+      fields: z
+        .array(
+          z.object({
+            name: z.string().describe("Field name, mapped to a data store key on submit"),
+            label: z.string().describe("Visible field label"),
+            type: z
+              .enum(["text", "email", "number", "password", "textarea"])
+              .optional()
+              .describe("Input type"),
+            placeholder: z.string().optional().describe("Placeholder text"),
+            required: z.boolean().optional().describe("Whether the field must be filled"),
+          })
+        )
+        .describe("Fields to collect"),
+      submitLabel: z.string().optional().describe("Submit button label"),
+    }),
+    events: {
+      submit: {
+        prop: "onSubmit",
+        description: "The form was submitted with the entered values, keyed by field name",
+        payload: z.object({ values: z.record(z.string(), z.string()) }),
+      },
+    },
+  },
+  ExportActions: {
+    component: ExportActions,
+    description: "Row of export buttons, one per format.",
+    propsSchema: z.object({
+      formats: z
+        .array(
+          z.object({
+            id: z.string().describe("Format identifier, e.g. pdf"),
+            label: z.string().describe("Button label"),
+            icon: z.string().optional().describe("Optional icon text"),
+          })
+        )
+        .describe("Available export formats"),
+    }),
+    events: {
+      export: {
+        prop: "onExport",
+        description: "An export format was chosen",
+        payload: z.object({ format: z.string() }),
+      },
+    },
+  },
+  InsightSummary: {
+    component: InsightSummary,
+    description: "List of short textual insights, each styled by severity.",
+    propsSchema: z.object({
+      insights: z
+        .array(
+          z.object({
+            title: z.string().describe("Insight heading"),
+            description: z.string().describe("Insight body"),
+            type: z.enum(["info", "success", "warning", "error"]).optional().describe("Severity"),
+          })
+        )
+        .describe("Insights to display"),
+    }),
+  },
+  PredictiveActionBar: {
+    component: PredictiveActionBar,
+    description: "Suggested next actions the user can click to run as new intents.",
+    propsSchema: z.object({
+      actions: z
+        .array(
+          z.object({
+            label: z.string().describe("Button label"),
+            input: z.string().describe("User input dispatched when clicked"),
+            confidence: z.number().min(0).max(1).optional().describe("Prediction confidence"),
+          })
+        )
+        .describe("Suggested actions"),
+    }),
+    events: {
+      select: {
+        prop: "onActionClick",
+        description: "A suggested action was clicked; its input runs as a new request",
+        payload: z.object({ input: z.string(), label: z.string().optional() }),
+      },
+      dismiss: {
+        prop: "onDismiss",
+        description: "The suggestions were dismissed",
+        payload: z.object({}),
+      },
+    },
+  },
+  ClarificationPrompt: {
+    component: ClarificationPrompt,
+    description:
+      "Asks the user which of several interpretations they meant when a request is ambiguous or not understood.",
+    propsSchema: z.object({
+      question: z.string().optional().describe("Question shown above the options"),
+      options: z
+        .array(
+          z.object({
+            label: z.string().describe("Description of the interpretation"),
+            input: z.string().describe("User input dispatched when chosen"),
+            intent: z.string().optional().describe("Intent the input resolves to"),
+            confidence: z.number().min(0).max(1).optional().describe("How well the request matched"),
+          })
+        )
+        .describe("Interpretations to choose from"),
+    }),
+    events: {
+      select: {
+        prop: "onSelect",
+        description: "An interpretation was chosen; its input runs as a new request",
+        payload: z.object({ input: z.string(), label: z.string() }),
+      },
+    },
+  },
+  GuardrailModal: {
+    component: GuardrailModal,
+    description:
+      "Confirmation dialog required before any destructive action such as clearing the screen or deleting data.",
+    propsSchema: z.object({
+      title: z.string().optional().describe("Dialog title"),
+      message: z.string().optional().describe("Explanation of what will happen"),
+      confirmLabel: z.string().optional().describe("Confirm button label"),
+      cancelLabel: z.string().optional().describe("Cancel button label"),
+      severity: z
+        .enum(["low", "medium", "high", "critical"])
+        .optional()
+        .describe("How destructive the action is"),
+      confirmation: z
+        .discriminatedUnion("kind", [
+          z.object({ kind: z.literal("click") }),
+          z.object({ kind: z.literal("typed"), phrase: z.string() }),
+          z.object({ kind: z.literal("delay"), seconds: z.number().positive() }),
+        ])
+        .optional()
+        .describe("What the user must do to confirm: click, type a phrase, or wait"),
+      details: z.array(z.string()).optional().describe("Summary of the affected data"),
+    }),
+    events: {
+      confirm: {
+        prop: "onConfirm",
+        description: "The user confirmed the destructive action",
+        payload: z.object({
+          phrase: z.string().optional().describe("Text the user typed, for typed confirmations"),
+        }),
+      },
+      cancel: {
+        prop: "onCancel",
+        description: "The user cancelled the destructive action",
+        payload: z.object({}),
+      },
+    },
+  },
+  ErrorNotice: {
+    component: ErrorNotice,
+    description:
+      "Explains why a request failed and what to do about it, with a retry button when running it again may help.",
+    propsSchema: z.object({
+      kind: z
+        .enum([
+          "provider-timeout",
+          "provider-unavailable",
+          "invalid-response",
+          "policy-violation",
+          "data-validation",
+          "handler-failure",
+          "unknown",
+        ])
+        .optional()
+        .describe("Kind of failure"),
+      title: z.string().optional().describe("What went wrong"),
+      message: z.string().optional().describe("What the user can do about it"),
+      details: z.array(z.string()).optional().describe("Specific problems, e.g. invalid values"),
+      retryable: z.boolean().optional().describe("Whether to offer a retry button"),
+    }),
+    events: {
+      retry: {
+        prop: "onRetry",
+        description: "The user asked to run the failed request again",
+        payload: z.object({}),
+      },
+    },
+  },
+} satisfies Record<string, ComponentSchema>;
+
+/**
+ * Name of a registered component type
+ */
+export type RegisteredComponentType = keyof typeof COMPONENT_SCHEMAS;
+
+/**
+ * All registered component type names
+ */
+export const REGISTERED_COMPONENT_TYPES = Object.keys(
+  COMPONENT_SCHEMAS
+) as RegisteredComponentType[];
+
+/**
+ * Check if a type name is a registered component
+ */
+export function isRegisteredComponentType(type: string): type is RegisteredComponentType {
+  return Object.prototype.hasOwnProperty.call(COMPONENT_SCHEMAS, type);
+}
+
+/**
+ * Get the schema for a component type
+ */
+export function getComponentSchema(type: string): ComponentSchema | undefined {
+  return isRegisteredComponentType(type) ? COMPONENT_SCHEMAS[type] : undefined;
+}
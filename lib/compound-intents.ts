@@ -0,0 +1,183 @@
+/**
+ * Compound Intents
+ *
+ * Splits inputs like "compare my salary and show my expenses" into separate
+ * intents, resolves each one against the intent rules, and merges the
+ * resulting responses into a single OrchestratorResponse.
+ *
+ * Splitting is conservative: a clause only stands on its own if it matches an
+ * intent by itself. Clauses that don't (e.g. "current month" in "last month
+ * and current month") are folded back into the preceding clause.
+ */
+
+import type { UIComponent, UIState } from "./ui-state-engine";
+import type { DataStore } from "./data-store";
+import type { IntentMemoryEngine } from "./intent-memory";
+import type { LayoutAction, OrchestratorResponse } from "./orchestrator-providers";
+import {
+  createRuleContext,
+  matchIntent,
+  FALLBACK_RULE,
+  type IntentMatch,
+} from "./intent-rules";
+
+/**
+ * A clause of the input resolved to a single intent (rule and match score)
+ */
+export interface IntentSegment extends IntentMatch {
+  /** Clause text */
+  input: string;
+}
+
+/**
+ * A resolved segment together with its response
+ */
+export interface ResolvedIntent extends IntentSegment {
+  response: OrchestratorResponse;
+}
+
+/**
+ * Clause separators - conjunctions (English, Hinglish and Hindi) and list punctuation
+ */
+const CLAUSE_SEPARATOR =
+  /\s*(?:,|;|\s&\s|\b(?:and then|and also|and|then|also|plus|aur|phir)\b|(?<![\p{L}\p{M}])(?:और|फिर)(?![\p{L}\p{M}]))\s*/giu;
+
+/**
+ * Reference annotation appended to the whole input ("[referencing: ChartView id:...]")
+ */
+const REFERENCE_ANNOTATION = /\s*\[referencing:[^\]]*\]/g;
+
+/**
+ * Split input into clause spans (start/end offsets into the input)
+ */
+function splitClauses(input: string): Array<{ start: number; end: number }> {
+  const spans: Array<{ start: number; end: number }> = [];
+  let start = 0;
+
+  for (const match of input.matchAll(CLAUSE_SEPARATOR)) {
+    const index = match.index ?? 0;
+    if (index > start) {
+      spans.push({ start, end: index });
+    }
+    start = index + match[0].length;
+  }
+  if (start < input.length) {
+    spans.push({ start, end: input.length });
+  }
+
+  return spans;
+}
+
+/**
+ * Split input into clauses and resolve each to an intent
+ * A reference annotation belongs to the whole input: clauses are matched
+ * without it, and every clause carries it on to its rule.
+ */
+export function splitIntents(
+  input: string,
+  data: DataStore,
+  state: UIState,
+  memory: IntentMemoryEngine
+): IntentSegment[] {
+  const resolve = (text: string) => matchIntent(createRuleContext(text, data, state, memory));
+  const annotation = (input.match(REFERENCE_ANNOTATION) ?? []).join("");
+  const text = input.replace(REFERENCE_ANNOTATION, "");
+  const segments: Array<{ start: number; end: number; match: IntentMatch }> = [];
+
+  for (const span of splitClauses(text)) {
+    const match = resolve(text.slice(span.start, span.end));
+    const previous = segments[segments.length - 1];
+
+    if (
+      previous &&
+      (match.rule === FALLBACK_RULE ||
+        previous.match.rule === FALLBACK_RULE ||
+        match.rule.id === previous.match.rule.id)
+    ) {
+      // Not an intent of its own - extend the previous clause and re-resolve it
+      previous.end = span.end;
+      previous.match = resolve(text.slice(previous.start, previous.end));
+    } else {
+      segments.push({ ...span, match });
+    }
+  }
+
+  if (segments.length <= 1) {
+    return [{ input, ...resolve(input) }];
+  }
+
+  return segments.map((s) => ({ input: text.slice(s.start, s.end) + annotation, ...s.match }));
+}
+
+/**
+ * Merge per-intent responses into one
+ *
+ * Intents are applied in input order:
+ * - a later render of the same id replaces the earlier one (keeping its position)
+ * - a later remove cancels an earlier render of that id
+ * - updates targeting a component rendered in the same request are folded into it
+ * - layout changes are applied in order; a later remove drops them
+ * - components are re-ordered sequentially so earlier intents appear first
+ */
+export function mergeIntentResponses(resolved: ResolvedIntent[]): OrchestratorResponse {
+  if (resolved.length === 1) {
+    return resolved[0].response;
+  }
+
+  const rendered = new Map<string, UIComponent>();
+  const removed = new Set<string>();
+  const updates = new Map<string, Record<string, unknown>>();
+  let layout: LayoutAction[] = [];
+  const decisions = new Map<string, NonNullable<OrchestratorResponse["debug"]>["componentDecisions"][number]>();
+
+  for (const { response } of resolved) {
+    for (const id of response.remove) {
+      rendered.delete(id);
+      updates.delete(id);
+      layout = layout.filter((change) => change.id !== id);
+      removed.add(id);
+    }
+
+    for (const { id, props } of response.update) {
+      const target = rendered.get(id);
+      if (target) {
+        rendered.set(id, { ...target, props: { ...target.props, ...props } });
+      } else {
+        updates.set(id, { ...updates.get(id), ...props });
+      }
+    }
+
+    // Sort each intent's components by their own order before appending
+    const components = [...response.render].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+    for (const comp of components) {
+      rendered.set(comp.id, comp);
+      removed.delete(comp.id);
+      updates.delete(comp.id);
+    }
+
+    layout.push(...(response.layout ?? []));
+
+    for (const decision of response.debug?.componentDecisions ?? []) {
+      decisions.set(decision.id, decision);
+    }
+  }
+
+  const render = Array.from(rendered.values()).map((comp, index) => ({ ...comp, order: index }));
+
+  return {
+    render,
+    remove: Array.from(removed),
+    update: Array.from(updates.entries()).map(([id, props]) => ({ id, props })),
+    ...(layout.length > 0 && { layout }),
+    notes: resolved.map((r) => r.response.notes).filter(Boolean).join("; "),
+    debug: {
+      reasoning: [
+        `Compound request split into ${resolved.length} intents.`,
+        ...resolved.map(
+          (r, i) => `${i + 1}. [${r.rule.id}] "${r.input.trim()}": ${r.response.debug?.reasoning ?? r.response.notes}`
+        ),
+      ].join("\n"),
+      componentDecisions: Array.from(decisions.values()).filter((d) => rendered.has(d.id)),
+    },
+  };
+}
@@ -178,7 +178,9 @@ const COMPONENT_DATA_ACCESS: Record<string, string[]> = {
   DateRangePicker: ["time.currentMonth", "time.lastMonth"],
   ExportActions: [],
   PredictiveActionBar: [],
+  ClarificationPrompt: [],
   GuardrailModal: [],
+  ErrorNotice: [],
 };
 
 /**
@@ -328,6 +330,24 @@ export class DataStore {
     return false;
   }
 
+  /**
+   * Restore a raw entry (including its source), or remove the key when null
+   * Used by undo/redo to put a value back exactly as it was
+   */
+  restore(key: string, entry: DataEntry | null): void {
+    if (entry === null) {
+      this.delete(key);
+      return;
+    }
+
+    this.data.set(key, entry);
+    if (entry.source === "user") {
+      this.userProvidedKeys.add(key);
+    } else {
+      this.userProvidedKeys.delete(key);
+    }
+  }
+
   /**
    * Clear all data
    */
@@ -369,6 +389,13 @@ export class DataStore {
     return Array.from(this.data.keys());
   }
 
+  /**
+   * Get the keys of fields computed from other data
+   */
+  computedKeys(): string[] {
+    return Object.keys(COMPUTABLE_FIELDS);
+  }
+
   /**
    * Get data source summary
    */
@@ -424,15 +451,47 @@ export const dataStore = new DataStore();
 /**
  * Process form data and update store
  */
-export function processFormData(formData: Record<string, unknown>): void {
+export function processFormData(
+  formData: Record<string, unknown>,
+  store: DataStore = dataStore
+): void {
   for (const [key, value] of Object.entries(formData)) {
     // Convert string numbers to actual numbers
     let finalValue = value;
     if (typeof value === "string" && !isNaN(Number(value))) {
       finalValue = Number(value);
     }
-    dataStore.set(key, finalValue);
+    store.set(key, finalValue);
+  }
+}
+
+/**
+ * Data keys that only hold amounts
+ */
+function isAmountKey(key: string): boolean {
+  return typeof MOCK_DATA[key] === "number" || key.startsWith("salary.") || key === "expenses.total";
+}
+
+/**
+ * Check submitted values against their data keys
+ * Amounts must be non-negative numbers; empty values are left for the form's
+ * own required-field checks. Returns one message per problem.
+ */
+export function validateFormData(formData: Record<string, unknown>): string[] {
+  const problems: string[] = [];
+
+  for (const [key, value] of Object.entries(formData)) {
+    if (!isAmountKey(key) || value === undefined || value === null || value === "") continue;
+
+    const amount = typeof value === "string" ? Number(value.trim()) : value;
+    if (typeof amount !== "number" || !Number.isFinite(amount)) {
+      problems.push(`${key} must be a number (got "${String(value)}")`);
+    } else if (amount < 0) {
+      problems.push(`${key} can't be negative (got ${amount})`);
+    }
   }
+
+  return problems;
 }
 
 /**
@@ -459,7 +518,7 @@ export function mapFormFieldToDataKey(fieldName: string): string {
 /**
  * Get salary comparison data for components
  */
-export function getSalaryComparisonData(): {
+export function getSalaryComparisonData(store: DataStore = dataStore): {
   lastMonth: number | null;
   currentMonth: number | null;
   change: number | null;
@@ -467,11 +526,11 @@ export function getSalaryComparisonData(): {
   trend: "up" | "down" | "neutral";
   hasData: boolean;
 } {
-  const lastMonth = dataStore.getNumber("salary.lastMonth");
-  const currentMonth = dataStore.getNumber("salary.currentMonth");
-  const change = dataStore.getNumber("salary.change");
-  const changePercent = dataStore.getNumber("salary.changePercent");
-  const trend = (dataStore.get("salary.trend") as "up" | "down" | "neutral") ?? "neutral";
+  const lastMonth = store.getNumber("salary.lastMonth");
+  const currentMonth = store.getNumber("salary.currentMonth");
+  const change = store.getNumber("salary.change");
+  const changePercent = store.getNumber("salary.changePercent");
+  const trend = (store.get("salary.trend") as "up" | "down" | "neutral") ?? "neutral";
 
   return {
     lastMonth,
@@ -486,12 +545,12 @@ export function getSalaryComparisonData(): {
 /**
  * Get formatted salary cards data
  */
-export function getSalaryCardsData(): Array<{
+export function getSalaryCardsData(store: DataStore = dataStore): Array<{
   title: string;
   value: string | number;
   trend: "up" | "down" | "neutral";
 }> {
-  const data = getSalaryComparisonData();
+  const data = getSalaryComparisonData(store);
 
   if (!data.hasData) {
     return [];
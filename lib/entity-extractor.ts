@@ -0,0 +1,192 @@
+/**
+ * Entity Extractor
+ *
+ * Pulls amounts, periods and expense categories out of natural-language input
+ * such as "my salary was 50000 last month and 55000 this month", and maps
+ * them to data store keys. Values are only taken when the user stated them
+ * explicitly - nothing is inferred or estimated. Hindi/Hinglish phrasing is
+ * normalized first ("pichle mahine 50 hazaar" reads as "last month 50 thousand").
+ */
+
+import { normalizeHindi } from "./hindi-normalizer";
+
+/**
+ * Time period mentioned in the input
+ */
+export type Period = "previousMonth" | "lastMonth" | "currentMonth";
+
+/**
+ * Value domain a clause talks about
+ */
+export type EntityDomain = "salary" | "expenses";
+
+/**
+ * An amount found in the input
+ */
+export interface ExtractedAmount {
+  /** Parsed numeric value */
+  value: number;
+  /** Text the value was parsed from */
+  raw: string;
+}
+
+/**
+ * Everything extracted from an input
+ */
+export interface ExtractedEntities {
+  amounts: ExtractedAmount[];
+  periods: Period[];
+  categories: string[];
+  /** Data store keys with the values the user supplied */
+  values: Record<string, number>;
+}
+
+/**
+ * Period phrases, most specific first
+ */
+const PERIOD_PATTERNS: Array<{ period: Period; pattern: RegExp }> = [
+  { period: "previousMonth", pattern: /\b(month before last|two months ago|previous to last month)\b/ },
+  { period: "lastMonth", pattern: /\b(last|previous|past) month\b/ },
+  { period: "currentMonth", pattern: /\b(this|current) month\b|\bnow\b|\bcurrently\b/ },
+];
+
+/**
+ * Words that put a clause in a domain
+ */
+const DOMAIN_PATTERNS: Array<{ domain: EntityDomain; pattern: RegExp }> = [
+  { domain: "salary", pattern: /\b(salary|salaries|pay|paid|earn|earned|earning|earnings)\b/ },
+  { domain: "expenses", pattern: /\b(expense|expenses|spent|spend|spending|cost|costs|bill|bills)\b/ },
+];
+
+/**
+ * Expense categories and the words that refer to them
+ */
+const CATEGORY_PATTERNS: Record<string, RegExp> = {
+  rent: /\b(rent|housing)\b/,
+  utilities: /\b(utilities|utility|electricity|water|internet)\b/,
+  groceries: /\b(groceries|grocery|food)\b/,
+  transport: /\b(transport|transportation|travel|commute|fuel|petrol)\b/,
+  entertainment: /\b(entertainment|movies|dining out)\b/,
+  savings: /\b(savings|saved|invested)\b/,
+};
+
+/**
+ * Amount with optional currency prefix and magnitude suffix
+ * Matches: 50000, 50,000, ₹55k, rs 1.5 lakh, $5,500
+ */
+const AMOUNT_PATTERN =
+  /(?:₹|rs\.?|inr|\$)?\s*(\d{1,3}(?:,\d{2,3})+|\d+(?:\.\d+)?)\s*(k|thousand|lakhs?|lacs?|l)?\b/gi;
+
+const MAGNITUDES: Record<string, number> = {
+  k: 1_000,
+  thousand: 1_000,
+  l: 100_000,
+  lakh: 100_000,
+  lakhs: 100_000,
+  lac: 100_000,
+  lacs: 100_000,
+};
+
+/**
+ * Clause separators - amounts are associated with periods/categories per clause
+ */
+const CLAUSE_SEPARATOR = /\s*(?:,(?!\d)|;|\band\b|\bbut\b|\bwhile\b)\s*/i;
+
+/**
+ * Parse all amounts in a piece of text
+ */
+export function extractAmounts(text: string): ExtractedAmount[] {
+  const amounts: ExtractedAmount[] = [];
+
+  for (const match of text.matchAll(AMOUNT_PATTERN)) {
+    const base = Number(match[1].replace(/,/g, ""));
+    const magnitude = match[2] ? MAGNITUDES[match[2].toLowerCase()] ?? 1 : 1;
+    if (!isNaN(base)) {
+      amounts.push({ value: Math.round(base * magnitude * 100) / 100, raw: match[0].trim() });
+    }
+  }
+
+  return amounts;
+}
+
+/**
+ * Find period mentions in order of appearance
+ */
+function extractPeriods(text: string): Period[] {
+  const found: Array<{ period: Period; index: number }> = [];
+  let remaining = text;
+
+  for (const { period, pattern } of PERIOD_PATTERNS) {
+    const global = new RegExp(pattern.source, "g");
+    for (const match of remaining.matchAll(global)) {
+      found.push({ period, index: match.index ?? 0 });
+    }
+    // Blank out matches so "month before last" isn't also read as "last month"
+    remaining = remaining.replace(global, (m) => " ".repeat(m.length));
+  }
+
+  return found.sort((a, b) => a.index - b.index).map((f) => f.period);
+}
+
+/**
+ * Find expense categories mentioned in the text
+ */
+function extractCategories(text: string): string[] {
+  return Object.entries(CATEGORY_PATTERNS)
+    .filter(([, pattern]) => pattern.test(text))
+    .map(([category]) => category);
+}
+
+/**
+ * Detect which domain a clause talks about
+ */
+function detectDomain(text: string): EntityDomain | null {
+  return DOMAIN_PATTERNS.find(({ pattern }) => pattern.test(text))?.domain ?? null;
+}
+
+/**
+ * Extract entities from user input and map them to data store keys
+ *
+ * Amounts are paired with the period or category in the same clause. A clause
+ * without a domain word inherits the domain of the previous clause, so
+ * "salary was 50000 last month and 55000 this month" fills both months.
+ */
+export function extractEntities(input: string): ExtractedEntities {
+  const lowerInput = normalizeHindi(input).toLowerCase();
+  const values: Record<string, number> = {};
+  const result: ExtractedEntities = {
+    amounts: extractAmounts(lowerInput),
+    periods: extractPeriods(lowerInput),
+    categories: extractCategories(lowerInput),
+    values,
+  };
+
+  let domain: EntityDomain | null = null;
+
+  for (const clause of lowerInput.split(CLAUSE_SEPARATOR)) {
+    domain = detectDomain(clause) ?? domain;
+    const amounts = extractAmounts(clause);
+    if (amounts.length === 0 || !domain) continue;
+
+    if (domain === "salary") {
+      const periods = extractPeriods(clause);
+      // Pair amounts with periods positionally when a clause names several
+      if (periods.length === amounts.length) {
+        periods.forEach((period, i) => {
+          values[`salary.${period}`] = amounts[i].value;
+        });
+      }
+    } else {
+      const categories = extractCategories(clause);
+      if (categories.length === amounts.length) {
+        categories.forEach((category, i) => {
+          values[`expenses.${category}`] = amounts[i].value;
+        });
+      } else if (categories.length === 0 && amounts.length === 1 && /\btotal\b/.test(clause)) {
+        values["expenses.total"] = amounts[0].value;
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,37 @@
+/**
+ * File Storage Adapter
+ *
+ * Stores persisted orchestrator state as JSON files, one per key, for tests,
+ * scripts and server-side use. Node only - kept apart from
+ * state-persistence.ts so client bundles never import the file system.
+ */
+
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { StorageAdapter } from "./state-persistence";
+
+/**
+ * File adapter - `<directory>/<key>.json`
+ */
+export function createFileStorage(directory: string): StorageAdapter {
+  const fileFor = (key: string) => path.join(directory, `${encodeURIComponent(key)}.json`);
+
+  return {
+    name: "file",
+    async read(key) {
+      try {
+        return await readFile(fileFor(key), "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async write(key, value) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(fileFor(key), value, "utf8");
+    },
+    async remove(key) {
+      await rm(fileFor(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,308 @@
+/**
+ * Golden Utterance Harness
+ *
+ * Headless regression checks for the orchestrator. A golden file lists
+ * utterances together with the render/remove/update ids, component types and
+ * key props they must produce. Each case runs in its own orchestrator (mock
+ * data plus the case's data values), optionally runs setup utterances, then
+ * runs its utterance through processUserInput with the simulated provider.
+ * No React is involved, so it runs in plain Node. npm test runs every case in
+ * golden/orchestrator.json; to run a suite on its own:
+ *
+ *   npm run golden [-- path/to/file.json]
+ *
+ * File format:
+ *
+ *   {
+ *     "data": { "salary.lastMonth": 5000 },          // optional, applies to every case
+ *     "cases": [{
+ *       "intent": "salary-comparison",
+ *       "utterance": "compare my salary",
+ *       "data": { "salary.currentMonth": 5500 },     // optional, stored as user values
+ *       "setup": ["show my expenses"],               // optional, not asserted
+ *       "expect": {
+ *         "render": ["salary-comparison-cards", { "id": "salary-comparison-chart", "type": "ChartView", "props": { "type": "bar" } }],
+ *         "remove": ["salary-data-form"],
+ *         "update": [{ "id": "salary-comparison-chart", "props": { "type": "line" } }],
+ *         "layout": [{ "type": "hide", "id": "expense-summary" }], // show/hide/setOrder changes
+ *         "absent": ["empty-state"],                 // ids that must not be rendered
+ *         "exact": false                             // true: no ids beyond those listed
+ *       }
+ *     }]
+ *   }
+ *
+ * Expected props match as a subset: objects may have extra keys, arrays and
+ * primitives must match exactly.
+ */
+
+import { z } from "zod";
+import { simulatedProvider } from "./orchestrator-providers";
+import { createOrchestrator, type OrchestratorAction } from "./ui-orchestrator";
+
+const expectedComponentSchema = z.union([
+  z.string(),
+  z.object({
+    id: z.string(),
+    type: z.string().optional(),
+    props: z.record(z.string(), z.unknown()).optional(),
+  }),
+]);
+
+const goldenCaseSchema = z.object({
+  intent: z.string(),
+  utterance: z.string().min(1),
+  name: z.string().optional(),
+  data: z.record(z.string(), z.unknown()).optional(),
+  setup: z.array(z.string()).optional(),
+  expect: z.object({
+    render: z.array(expectedComponentSchema).optional(),
+    remove: z.array(z.string()).optional(),
+    update: z
+      .array(z.union([z.string(), z.object({ id: z.string(), props: z.record(z.string(), z.unknown()).optional() })]))
+      .optional(),
+    layout: z
+      .array(
+        z.object({
+          type: z.enum(["show", "hide", "setOrder"]),
+          id: z.string(),
+          order: z.number().optional(),
+        })
+      )
+      .optional(),
+    absent: z.array(z.string()).optional(),
+    exact: z.boolean().optional(),
+  }),
+});
+
+/**
+ * Schema for a golden file
+ */
+export const goldenSuiteSchema = z.object({
+  data: z.record(z.string(), z.unknown()).optional(),
+  cases: z.array(goldenCaseSchema),
+});
+
+export type GoldenCase = z.infer<typeof goldenCaseSchema>;
+export type GoldenSuite = z.infer<typeof goldenSuiteSchema>;
+
+/**
+ * Outcome of a single case
+ */
+export interface GoldenResult {
+  case: GoldenCase;
+  passed: boolean;
+  failures: string[];
+  /** Ids the utterance actually produced */
+  actual: { render: string[]; remove: string[]; update: string[]; layout: string[] };
+}
+
+/**
+ * Pass/fail counts for one intent
+ */
+export interface IntentSummary {
+  intent: string;
+  passed: number;
+  failed: number;
+}
+
+/**
+ * Validate a parsed golden file
+ */
+export function parseGoldenSuite(raw: unknown): GoldenSuite {
+  return goldenSuiteSchema.parse(raw);
+}
+
+/**
+ * Check that `actual` contains everything in `expected`
+ */
+function matchesSubset(expected: unknown, actual: unknown): boolean {
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      expected.length === actual.length &&
+      expected.every((item, index) => matchesSubset(item, actual[index]))
+    );
+  }
+  if (typeof expected === "object" && expected !== null) {
+    if (typeof actual !== "object" || actual === null || Array.isArray(actual)) return false;
+    const record = actual as Record<string, unknown>;
+    return Object.entries(expected).every(([key, value]) => matchesSubset(value, record[key]));
+  }
+  return Object.is(expected, actual);
+}
+
+/**
+ * Format a layout change, e.g. setOrder "salary-comparison-chart" 0
+ */
+function describeLayout(change: { type: string; id: string; order?: number }): string {
+  return `${change.type} "${change.id}"${change.order === undefined ? "" : ` ${change.order}`}`;
+}
+
+/**
+ * Compare an action against a case's expectations
+ */
+function checkExpectations(testCase: GoldenCase, action: OrchestratorAction): string[] {
+  const { expect } = testCase;
+  const failures: string[] = [];
+  const rendered = new Map(action.render.map((comp) => [comp.id, comp]));
+  const removed = new Set(action.remove);
+  const updated = new Map(action.update.map((u) => [u.id, u.props]));
+
+  for (const entry of expect.render ?? []) {
+    const expected = typeof entry === "string" ? { id: entry } : entry;
+    const comp = rendered.get(expected.id);
+    if (!comp) {
+      failures.push(`render: missing "${expected.id}"`);
+      continue;
+    }
+    if (expected.type && comp.type !== expected.type) {
+      failures.push(`render: "${expected.id}" is ${comp.type}, expected ${expected.type}`);
+    }
+    for (const [key, value] of Object.entries(expected.props ?? {})) {
+      if (!matchesSubset(value, comp.props[key])) {
+        failures.push(
+          `render: "${expected.id}" props.${key} is ${JSON.stringify(comp.props[key])}, expected ${JSON.stringify(value)}`
+        );
+      }
+    }
+  }
+
+  for (const id of expect.remove ?? []) {
+    if (!removed.has(id)) failures.push(`remove: missing "${id}"`);
+  }
+  for (const entry of expect.update ?? []) {
+    const expected = typeof entry === "string" ? { id: entry } : entry;
+    const props = updated.get(expected.id);
+    if (!props) {
+      failures.push(`update: missing "${expected.id}"`);
+      continue;
+    }
+    for (const [key, value] of Object.entries(expected.props ?? {})) {
+      if (!matchesSubset(value, props[key])) {
+        failures.push(
+          `update: "${expected.id}" props.${key} is ${JSON.stringify(props[key])}, expected ${JSON.stringify(value)}`
+        );
+      }
+    }
+  }
+  const layout = action.layout ?? [];
+  for (const expected of expect.layout ?? []) {
+    if (!layout.some((change) => matchesSubset(expected, change))) {
+      failures.push(`layout: missing ${describeLayout(expected)}`);
+    }
+  }
+
+  for (const id of expect.absent ?? []) {
+    if (rendered.has(id)) failures.push(`render: unexpected "${id}"`);
+  }
+
+  if (expect.exact) {
+    const listed = new Set((expect.render ?? []).map((e) => (typeof e === "string" ? e : e.id)));
+    for (const id of rendered.keys()) {
+      if (!listed.has(id)) failures.push(`render: unexpected "${id}"`);
+    }
+    for (const id of removed) {
+      if (!expect.remove?.includes(id)) failures.push(`remove: unexpected "${id}"`);
+    }
+    const listedUpdates = new Set((expect.update ?? []).map((e) => (typeof e === "string" ? e : e.id)));
+    for (const id of updated.keys()) {
+      if (!listedUpdates.has(id)) failures.push(`update: unexpected "${id}"`);
+    }
+    for (const change of layout) {
+      if (!expect.layout?.some((expected) => matchesSubset(expected, change))) {
+        failures.push(`layout: unexpected ${describeLayout(change)}`);
+      }
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Run a single case in a fresh orchestrator with the simulated provider
+ */
+export async function runGoldenCase(
+  testCase: GoldenCase,
+  defaults: Record<string, unknown> = {}
+): Promise<GoldenResult> {
+  const orchestrator = createOrchestrator({ provider: simulatedProvider });
+  const values = { ...defaults, ...testCase.data };
+  if (Object.keys(values).length > 0) {
+    orchestrator.store.setMany(values);
+  }
+
+  for (const input of testCase.setup ?? []) {
+    await orchestrator.processUserInput(input);
+  }
+  const action = await orchestrator.processUserInput(testCase.utterance);
+  const failures = checkExpectations(testCase, action);
+
+  return {
+    case: testCase,
+    passed: failures.length === 0,
+    failures,
+    actual: {
+      render: action.render.map((comp) => comp.id),
+      remove: action.remove,
+      update: action.update.map((u) => u.id),
+      layout: (action.layout ?? []).map(describeLayout),
+    },
+  };
+}
+
+/**
+ * Run every case in a suite
+ * The default orchestrator is left untouched.
+ */
+export async function runGoldenSuite(suite: GoldenSuite): Promise<GoldenResult[]> {
+  const results: GoldenResult[] = [];
+  for (const testCase of suite.cases) {
+    results.push(await runGoldenCase(testCase, suite.data));
+  }
+  return results;
+}
+
+/**
+ * Group results by intent, in first-seen order
+ */
+export function summarizeByIntent(results: GoldenResult[]): IntentSummary[] {
+  const summaries = new Map<string, IntentSummary>();
+  for (const result of results) {
+    const { intent } = result.case;
+    const summary = summaries.get(intent) ?? { intent, passed: 0, failed: 0 };
+    if (result.passed) summary.passed++;
+    else summary.failed++;
+    summaries.set(intent, summary);
+  }
+  return Array.from(summaries.values());
+}
+
+/**
+ * Render a per-intent pass/fail table followed by the details of failed cases
+ */
+export function formatGoldenReport(results: GoldenResult[]): string {
+  const summaries = summarizeByIntent(results);
+  const width = Math.max("Intent".length, ...summaries.map((s) => s.intent.length));
+  const row = (intent: string, passed: string, failed: string, status: string) =>
+    `${intent.padEnd(width)}  ${passed.padStart(6)}  ${failed.padStart(6)}  ${status}`;
+
+  const lines = [
+    row("Intent", "Passed", "Failed", "Status"),
+    row("-".repeat(width), "------", "------", "------"),
+    ...summaries.map((s) =>
+      row(s.intent, String(s.passed), String(s.failed), s.failed === 0 ? "PASS" : "FAIL")
+    ),
+  ];
+
+  const failed = results.filter((r) => !r.passed);
+  for (const result of failed) {
+    const { intent, name, utterance } = result.case;
+    lines.push("", `FAIL ${intent}: ${name ?? `"${utterance}"`}`);
+    lines.push(...result.failures.map((failure) => `  - ${failure}`));
+    lines.push(`  actual render: ${result.actual.render.join(", ") || "(none)"}`);
+  }
+
+  const passedCount = results.length - failed.length;
+  lines.push("", `${passedCount}/${results.length} cases passed`);
+  return lines.join("\n");
+}
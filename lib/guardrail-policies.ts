@@ -0,0 +1,482 @@
+/**
+ * Guardrail Policies
+ *
+ * Declarative description of every protected (destructive) operation. A policy
+ * states what triggers it, how severe it is, how the user must confirm it
+ * (click, typed phrase or delay), and resolves the exact scope it affects.
+ * The GuardrailModal title, message and affected-data summary are generated
+ * from the policy, so the dialog always matches what confirming will do.
+ *
+ * Text-triggered policies become intent rules (see guardrailIntentRule).
+ * Policies without triggers are raised from code, e.g. when inline values
+ * would overwrite user-provided data.
+ */
+
+import type { UIState } from "./ui-state-engine";
+import type { DataStore } from "./data-store";
+import type { IntentMatcher, IntentRule, IntentRuleContext, RuleComponent } from "./intent-rules";
+
+/**
+ * How bad it is if the operation runs by mistake
+ */
+export type GuardrailSeverity = "low" | "medium" | "high" | "critical";
+
+/**
+ * What the user must do to confirm
+ */
+export type ConfirmationStyle =
+  | { kind: "click" }
+  | { kind: "typed"; phrase: string }
+  | { kind: "delay"; seconds: number };
+
+/**
+ * Exactly what a confirmed operation affects
+ */
+export type GuardrailScope =
+  | { kind: "ui"; componentIds: string[] }
+  | { kind: "all-data" }
+  | { kind: "category"; category: string }
+  | {
+      kind: "user-values";
+      /** New values to write */
+      values: Record<string, unknown>;
+      /** Current user-provided values they replace */
+      previous: Record<string, unknown>;
+    };
+
+/**
+ * A protected operation
+ */
+export interface GuardrailPolicy {
+  id: string;
+  /** Modal title */
+  title: string;
+  /** One sentence describing the effect, used as the start of the modal message */
+  description: string;
+  severity: GuardrailSeverity;
+  confirmation: ConfirmationStyle;
+  confirmLabel: string;
+  cancelLabel?: string;
+  /** Text triggers; omit for policies raised from code */
+  triggers?: IntentMatcher[];
+  /** Intent priority for text-triggered policies (data deletion outranks display intents) */
+  priority?: number;
+  /** Resolve the scope for this request, or null if the policy does not apply */
+  resolveScope(ctx: IntentRuleContext, values?: Record<string, unknown>): GuardrailScope | null;
+}
+
+/**
+ * What a GuardrailModal is guarding
+ * Built by the orchestrator from the policy and its own state when the modal
+ * is rendered, and kept in the pending-confirmation registry - never taken
+ * from a provider's response.
+ */
+export interface GuardrailTicket {
+  policyId: string;
+  scope: GuardrailScope;
+}
+
+/**
+ * Phrases that request deletion of all stored data
+ */
+const DATA_DELETION_PHRASES = [
+  "delete all",
+  "delete my data",
+  "delete everything",
+  "erase all",
+  "erase everything",
+  "erase my data",
+  "remove all data",
+  "remove my data",
+  "remove everything",
+  "destroy all",
+  "destroy my data",
+  "wipe all",
+  "wipe everything",
+  "wipe my data",
+  "clear all data",
+  "clear my data",
+  "reset everything",
+  "reset all data",
+  "forget everything",
+  "forget my data",
+];
+
+const DELETE_VERBS = ["delete", "remove", "erase", "wipe", "clear", "forget", "reset"];
+
+/**
+ * Data store categories (key prefixes) and the words that refer to them
+ */
+const DATA_CATEGORIES: Record<string, string[]> = {
+  salary: ["salary", "salaries"],
+  income: ["income"],
+  expenses: ["expense", "spending"],
+  budget: ["budget"],
+  accounts: ["account"],
+  debt: ["debt", "loan"],
+  goals: ["goal"],
+};
+
+/**
+ * Find the category a request talks about
+ */
+function findCategory(lowerInput: string): string | null {
+  return (
+    Object.entries(DATA_CATEGORIES).find(([, words]) => words.some((w) => lowerInput.includes(w)))?.[0] ??
+    null
+  );
+}
+
+/**
+ * Words that end the clause a delete verb applies to
+ */
+const CLAUSE_BREAK = /\b(?:and|then|but|also|plus)\b|[,;.!?]/;
+
+const DELETE_VERB_PATTERN = new RegExp(`\\b(?:${DELETE_VERBS.join("|")})\\b`, "g");
+
+/**
+ * Find the category a delete verb applies to
+ * Only the rest of the verb's own clause counts, so "remove the chart and
+ * show my salary" names no category to delete.
+ */
+function findDeletedCategory(lowerInput: string): string | null {
+  for (const match of lowerInput.matchAll(DELETE_VERB_PATTERN)) {
+    const clause = lowerInput.slice(match.index + match[0].length).split(CLAUSE_BREAK)[0];
+    const category = findCategory(clause);
+    if (category) return category;
+  }
+  return null;
+}
+
+/**
+ * Keys stored under a category
+ */
+export function getCategoryKeys(category: string, data: DataStore): string[] {
+  return data.keys().filter((key) => key.startsWith(`${category}.`));
+}
+
+// ---------------------------------------------------------------------------
+// Built-in policies
+// ---------------------------------------------------------------------------
+
+const clearUiPolicy: GuardrailPolicy = {
+  id: "clear-ui",
+  title: "Clear All Components",
+  description: "This will remove all components from the screen.",
+  severity: "medium",
+  confirmation: { kind: "click" },
+  confirmLabel: "Clear All",
+  priority: 60,
+  triggers: [{ any: ["clear", "reset", "remove all"] }],
+  resolveScope: (ctx) => ({
+    kind: "ui",
+    componentIds: Object.values(ctx.state)
+      .filter((c) => c.type !== "GuardrailModal")
+      .map((c) => c.id),
+  }),
+};
+
+const deleteAllDataPolicy: GuardrailPolicy = {
+  id: "delete-all-data",
+  title: "Delete All Data?",
+  description: "This will permanently delete your data and clear the screen.",
+  severity: "critical",
+  confirmation: { kind: "typed", phrase: "DELETE" },
+  confirmLabel: "Delete Everything",
+  cancelLabel: "Keep My Data",
+  priority: 105,
+  triggers: [{ any: DATA_DELETION_PHRASES }],
+  resolveScope: () => ({ kind: "all-data" }),
+};
+
+const deleteCategoryPolicy: GuardrailPolicy = {
+  id: "delete-category",
+  title: "Delete Category?",
+  description: "This will delete the values you entered in this category.",
+  severity: "high",
+  confirmation: { kind: "delay", seconds: 3 },
+  confirmLabel: "Delete Category",
+  cancelLabel: "Keep It",
+  priority: 110,
+  triggers: [
+    {
+      all: [
+        DELETE_VERBS,
+        Object.values(DATA_CATEGORIES).flat(),
+        ["data", "values", "entries", "numbers", "all", "my"],
+      ],
+    },
+  ],
+  resolveScope: (ctx) => {
+    const category = findDeletedCategory(ctx.lowerInput);
+    return category ? { kind: "category", category } : null;
+  },
+};
+
+const overwriteUserValuesPolicy: GuardrailPolicy = {
+  id: "overwrite-user-values",
+  title: "Replace Your Values?",
+  description: "This will replace values you entered earlier.",
+  severity: "low",
+  confirmation: { kind: "click" },
+  confirmLabel: "Replace",
+  cancelLabel: "Keep Current",
+  resolveScope: (ctx, values = {}) => {
+    const changed: Record<string, unknown> = {};
+    const previous: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(values)) {
+      const current = ctx.data.get(key);
+      if (ctx.data.isUserProvided(key) && current !== value) {
+        changed[key] = value;
+        previous[key] = current;
+      }
+    }
+
+    return Object.keys(changed).length > 0
+      ? { kind: "user-values", values: changed, previous }
+      : null;
+  },
+};
+
+const guardrailPolicies: GuardrailPolicy[] = [
+  clearUiPolicy,
+  deleteAllDataPolicy,
+  deleteCategoryPolicy,
+  overwriteUserValuesPolicy,
+];
+
+/**
+ * Get all guardrail policies
+ */
+export function getGuardrailPolicies(): GuardrailPolicy[] {
+  return [...guardrailPolicies];
+}
+
+/**
+ * Get a policy by id
+ */
+export function getGuardrailPolicy(id: string): GuardrailPolicy | undefined {
+  return guardrailPolicies.find((p) => p.id === id);
+}
+
+// ---------------------------------------------------------------------------
+// Modal generation
+// ---------------------------------------------------------------------------
+
+/**
+ * Affected-data summary lines for a scope
+ */
+export function describeScope(scope: GuardrailScope, data: DataStore, state: UIState): string[] {
+  const summary = data.getSourceSummary();
+
+  switch (scope.kind) {
+    case "ui":
+      return [
+        `${scope.componentIds.length} component(s) on screen: ${scope.componentIds.join(", ") || "none"}`,
+      ];
+    case "all-data":
+      return [
+        `${summary.user} user-provided entries will be deleted`,
+        `${summary.mock} mock entries will be reset to their defaults`,
+        `${summary.computed} computed fields will be recalculated`,
+        `${Object.keys(state).length} component(s) will be removed from the screen`,
+      ];
+    case "category": {
+      const keys = getCategoryKeys(scope.category, data);
+      const userKeys = keys.filter((key) => data.isUserProvided(key));
+      return [
+        `${keys.length} "${scope.category}" value(s) stored`,
+        `${userKeys.length} user-provided value(s) will be deleted${userKeys.length > 0 ? `: ${userKeys.join(", ")}` : ""}`,
+        `${summary.user} user-provided entries in total before deletion`,
+      ];
+    }
+    case "user-values":
+      return Object.entries(scope.values).map(
+        ([key, value]) => `${key}: ${String(scope.previous[key])} → ${String(value)}`
+      );
+  }
+}
+
+/**
+ * Instruction for the confirmation style
+ */
+function describeConfirmation(confirmation: ConfirmationStyle): string {
+  switch (confirmation.kind) {
+    case "typed":
+      return `Type "${confirmation.phrase}" to confirm.`;
+    case "delay":
+      return `Confirm becomes available after ${confirmation.seconds} seconds.`;
+    case "click":
+      return "";
+  }
+}
+
+/**
+ * Build the modal message for a policy and scope
+ */
+export function buildGuardrailMessage(
+  policy: GuardrailPolicy,
+  scope: GuardrailScope,
+  data: DataStore
+): string {
+  const parts = [policy.description];
+
+  if (scope.kind === "category") {
+    parts.push(`Category: ${scope.category}.`);
+  }
+  if (scope.kind === "all-data") {
+    const summary = data.getSourceSummary();
+    if (summary.user > 0) {
+      parts.push(`You have ${summary.user} user-provided data entries that will be lost.`);
+    }
+    if (summary.mock > 0) {
+      parts.push("Mock data will remain available for new sessions.");
+    }
+  }
+
+  const instruction = describeConfirmation(policy.confirmation);
+  if (instruction) {
+    parts.push(instruction);
+  }
+  parts.push("You can undo this afterwards with Ctrl+Z.");
+
+  return parts.join(" ");
+}
+
+/**
+ * Modal id for a policy
+ */
+export function guardrailModalId(policy: GuardrailPolicy): string {
+  return `guardrail-${policy.id}`;
+}
+
+/**
+ * Policy a modal id belongs to
+ */
+export function getGuardrailPolicyForModal(modalId: string): GuardrailPolicy | undefined {
+  return guardrailPolicies.find((p) => guardrailModalId(p) === modalId);
+}
+
+/**
+ * Create the GuardrailModal component for a policy and resolved scope
+ */
+export function createGuardrailModal(
+  policy: GuardrailPolicy,
+  scope: GuardrailScope,
+  data: DataStore,
+  state: UIState
+): RuleComponent {
+  return {
+    id: guardrailModalId(policy),
+    type: "GuardrailModal",
+    visible: true,
+    props: {
+      title: policy.title,
+      message: buildGuardrailMessage(policy, scope, data),
+      confirmLabel: policy.confirmLabel,
+      cancelLabel: policy.cancelLabel ?? "Cancel",
+      severity: policy.severity,
+      confirmation: policy.confirmation,
+      details: describeScope(scope, data, state),
+    },
+    order: 0,
+    reason: `Protected operation "${policy.id}" (${policy.severity}). Must get explicit user confirmation.`,
+    confidence: 1.0,
+  };
+}
+
+/**
+ * Intent rule that raises a text-triggered policy
+ */
+export function guardrailIntentRule(policy: GuardrailPolicy): IntentRule {
+  return {
+    id: policy.id,
+    description: `Ask for confirmation: ${policy.title}`,
+    priority: policy.priority ?? 0,
+    match: policy.triggers ?? [],
+    when: (ctx) => policy.resolveScope(ctx) !== null,
+    outcome: (ctx) => {
+      const scope = policy.resolveScope(ctx) as GuardrailScope;
+      return {
+        render: [createGuardrailModal(policy, scope, ctx.data, ctx.state)],
+        notes: `Awaiting confirmation for ${policy.id}`,
+        reasoning: `Protected operation "${policy.id}" detected (severity: ${policy.severity}, confirmation: ${policy.confirmation.kind}). Showing guardrail modal.`,
+      };
+    },
+  };
+}
+
+/**
+ * Intent rules for all text-triggered policies
+ */
+export function getGuardrailIntentRules(): IntentRule[] {
+  return guardrailPolicies.filter((p) => p.triggers).map(guardrailIntentRule);
+}
+
+// ---------------------------------------------------------------------------
+// Execution
+// ---------------------------------------------------------------------------
+
+/**
+ * What the user supplied when confirming a GuardrailModal
+ */
+export interface GuardrailConfirmationInput {
+  /** Text typed into the modal, for typed confirmations */
+  phrase?: string;
+}
+
+/**
+ * Why a confirmation doesn't satisfy the policy, or null if it does
+ * Checked by the orchestrator rather than only the modal, so a confirm event
+ * from the event bus, a replayed session or a direct call can't skip the
+ * typed phrase or the wait. `waitedMs` is how long the modal has been pending.
+ */
+export function checkGuardrailConfirmation(
+  policy: GuardrailPolicy,
+  input: GuardrailConfirmationInput,
+  waitedMs: number
+): string | null {
+  const { confirmation } = policy;
+  switch (confirmation.kind) {
+    case "typed":
+      return input.phrase?.trim() === confirmation.phrase
+        ? null
+        : `Type "${confirmation.phrase}" to confirm.`;
+    case "delay":
+      return waitedMs >= confirmation.seconds * 1000
+        ? null
+        : `Confirm is only available ${confirmation.seconds} seconds after asking.`;
+    case "click":
+      return null;
+  }
+}
+
+/**
+ * Apply the data store part of a confirmed scope
+ * Returns the keys that changed. UI changes (clearing the screen) are left
+ * to the orchestrator.
+ */
+export function applyGuardrailData(scope: GuardrailScope, data: DataStore): string[] {
+  switch (scope.kind) {
+    case "all-data": {
+      const userKeys = data.keys().filter((key) => data.isUserProvided(key));
+      data.clear();
+      return userKeys;
+    }
+    case "category": {
+      const userKeys = getCategoryKeys(scope.category, data).filter((key) => data.isUserProvided(key));
+      for (const key of userKeys) {
+        if (!data.resetToMock(key)) {
+          data.delete(key);
+        }
+      }
+      return userKeys;
+    }
+    case "user-values":
+      data.setMany(scope.values);
+      return Object.keys(scope.values);
+    case "ui":
+      return [];
+  }
+}
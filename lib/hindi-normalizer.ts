@@ -0,0 +1,142 @@
+/**
+ * Hindi Normalizer
+ *
+ * Rewrites Hindi (Devanagari) and romanized Hinglish finance phrasing into the
+ * English keywords the intent rules and entity extractor understand:
+ *
+ *   "pichle mahine ki salary compare karo" -> "last month ki salary compare karo"
+ *   "खर्चा दिखाओ"                           -> "expenses show"
+ *   "तनख्वाह ५०००० थी"                       -> "salary 50000 thi"
+ *
+ * Only known phrases are replaced; everything else (including grammar words
+ * like "ki", "karo") is left as is, which the keyword matchers ignore.
+ */
+
+/**
+ * Phrase translations, applied longest phrase first
+ */
+const PHRASES: Array<{ english: string; variants: string[] }> = [
+  // Periods
+  {
+    english: "month before last",
+    variants: ["pichle se pichle mahine", "पिछले से पिछले महीने"],
+  },
+  {
+    english: "last month",
+    variants: [
+      "pichle mahine", "pichhle mahine", "pichla mahina", "pichhla mahina", "last mahine",
+      "पिछले महीने", "पिछला महीना", "पिछले माह", "गत माह",
+    ],
+  },
+  {
+    english: "this month",
+    variants: [
+      "is mahine", "iss mahine", "is mahina", "ye mahina", "yeh mahina", "current mahine",
+      "इस महीने", "यह महीना", "इस माह",
+    ],
+  },
+
+  // Domains
+  {
+    english: "salary",
+    variants: [
+      "tankhwah", "tankhwa", "tankha", "tanakhwah", "vetan", "pagaar", "pagar",
+      "तनख्वाह", "तनख़्वाह", "वेतन", "पगार", "सैलरी", "सेलरी",
+    ],
+  },
+  {
+    english: "income",
+    variants: ["aamdani", "amdani", "kamai", "आमदनी", "कमाई", "आय"],
+  },
+  {
+    english: "expenses",
+    variants: [
+      "kharcha", "kharche", "kharch", "kharchon", "kharchey",
+      "खर्चा", "खर्चे", "खर्च", "ख़र्चा", "ख़र्च", "व्यय",
+    ],
+  },
+
+  // Actions
+  {
+    english: "compare",
+    variants: ["tulna", "muqabla", "mukabla", "तुलना", "मुकाबला", "मुक़ाबला"],
+  },
+  {
+    english: "difference",
+    variants: ["farak", "fark", "farq", "antar", "फर्क", "फ़र्क", "अंतर"],
+  },
+  {
+    english: "show",
+    variants: ["dikhao", "dikha do", "dikhaiye", "batao", "दिखाओ", "दिखा दो", "दिखाइए", "बताओ"],
+  },
+  {
+    english: "export",
+    variants: ["एक्सपोर्ट", "निर्यात"],
+  },
+  {
+    english: "report",
+    variants: ["रिपोर्ट"],
+  },
+  {
+    english: "clear",
+    variants: ["saaf karo", "saaf kar do", "saf karo", "साफ करो", "साफ़ करो", "साफ कर दो", "साफ़ कर दो"],
+  },
+  {
+    english: "delete",
+    variants: ["mitao", "mita do", "hatao", "hata do", "मिटाओ", "मिटा दो", "हटाओ", "हटा दो", "डिलीट"],
+  },
+
+  // Glue the extractors rely on
+  {
+    english: "my data",
+    variants: ["mera data", "mere data", "मेरा डेटा", "मेरा डाटा"],
+  },
+  {
+    english: "and",
+    variants: ["aur", "और", "तथा"],
+  },
+  {
+    english: "thousand",
+    variants: ["hazaar", "hazar", "हज़ार", "हजार"],
+  },
+  {
+    english: "lakh",
+    variants: ["लाख"],
+  },
+];
+
+/** Letters, vowel signs and digits - Devanagari needs \p{M}, which \b ignores */
+const WORD_CHAR = "[\\p{L}\\p{M}\\p{N}]";
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const REPLACEMENTS: Array<{ pattern: RegExp; english: string }> = PHRASES.flatMap(
+  ({ english, variants }) => variants.map((variant) => ({ variant, english }))
+)
+  .sort((a, b) => b.variant.length - a.variant.length)
+  .map(({ variant, english }) => ({
+    pattern: new RegExp(
+      `(?<!${WORD_CHAR})${escapeRegExp(variant).replace(/ /g, "\\s+")}(?!${WORD_CHAR})`,
+      "giu"
+    ),
+    english,
+  }));
+
+const DEVANAGARI_DIGIT = /[०-९]/g;
+
+/**
+ * Translate known Hindi/Hinglish phrases and Devanagari digits to English
+ */
+export function normalizeHindi(text: string): string {
+  let result = text.replace(DEVANAGARI_DIGIT, (digit) =>
+    String(digit.charCodeAt(0) - 0x0966)
+  );
+
+  for (const { pattern, english } of REPLACEMENTS) {
+    result = result.replace(pattern, english);
+  }
+
+  return result;
+}
@@ -0,0 +1,122 @@
+/**
+ * Intent Clarification
+ *
+ * Decides when the simulated orchestrator should ask instead of guessing, and
+ * builds the ClarificationPrompt it renders in that case:
+ *
+ * - nothing matched: offer the example requests of the registered intents
+ * - the best match is weak (score below CLARIFY_BELOW)
+ * - the best matches tie (within TIE_MARGIN) between different intents
+ *
+ * Each option carries its intent's example request, which matches that intent
+ * exactly; choosing it dispatches the request through processUserInput.
+ */
+
+import type { OrchestratorResponse } from "./orchestrator-providers";
+import {
+  getIntentRules,
+  outcomeToResponse,
+  rankIntents,
+  type IntentMatch,
+  type IntentRule,
+  type IntentRuleContext,
+} from "./intent-rules";
+
+/** Component id of the clarification prompt */
+export const CLARIFICATION_ID = "clarification";
+
+/** Non-exact scores below this ask the user instead of guessing */
+export const CLARIFY_BELOW = 0.8;
+
+/** Scores this close to the best match count as a tie */
+export const TIE_MARGIN = 0.05;
+
+/** Most interpretations offered at once */
+const MAX_OPTIONS = 3;
+
+/**
+ * An interpretation the user can pick
+ */
+export interface ClarificationOption {
+  label: string;
+  /** Request dispatched when chosen */
+  input: string;
+  /** Intent the request resolves to */
+  intent: string;
+  /** Match score of this interpretation (omitted for suggestions) */
+  confidence?: number;
+}
+
+function toOption(rule: IntentRule & { example: string }, score?: number): ClarificationOption {
+  return {
+    label: rule.description,
+    input: rule.example,
+    intent: rule.id,
+    confidence: score === undefined ? undefined : Math.round(score * 100) / 100,
+  };
+}
+
+function hasExample(rule: IntentRule): rule is IntentRule & { example: string } {
+  return rule.example !== undefined;
+}
+
+/**
+ * Why candidates are ambiguous, or null if the best match can be used as is
+ */
+function describeAmbiguity(ranked: IntentMatch[]): string | null {
+  const [best, second] = ranked;
+  if (best.score >= 1) return null;
+
+  if (second && second.rule.id !== best.rule.id && best.score - second.score <= TIE_MARGIN) {
+    return `"${best.rule.id}" (${best.score.toFixed(2)}) and "${second.rule.id}" (${second.score.toFixed(2)}) match about equally well`;
+  }
+  if (best.score < CLARIFY_BELOW) {
+    return `Best match "${best.rule.id}" only scored ${best.score.toFixed(2)} (${best.substitutions.join(", ")})`;
+  }
+  return null;
+}
+
+/**
+ * Build the clarification response for an input, or null if an intent is clear
+ */
+export function clarifyIntent(ctx: IntentRuleContext): OrchestratorResponse | null {
+  const ranked = rankIntents(ctx);
+
+  let options: ClarificationOption[];
+  let question: string;
+  let reasoning: string;
+
+  if (ranked.length === 0) {
+    options = getIntentRules().filter(hasExample).slice(0, MAX_OPTIONS).map((rule) => toOption(rule));
+    question = "I'm not sure what you'd like to see. Here are some things I can do:";
+    reasoning = "User input did not match any known intent. Offering example requests instead of guessing.";
+  } else {
+    const ambiguity = describeAmbiguity(ranked);
+    if (!ambiguity) return null;
+
+    options = ranked
+      .flatMap(({ rule, score }) => (hasExample(rule) ? [toOption(rule, score)] : []))
+      .slice(0, MAX_OPTIONS);
+    question = "Did you mean one of these?";
+    reasoning = `${ambiguity}. Asking the user to pick an interpretation.`;
+  }
+
+  // Nothing to offer - let the best guess (or the fallback) through
+  if (options.length === 0) return null;
+
+  return outcomeToResponse({
+    render: [
+      {
+        id: CLARIFICATION_ID,
+        type: "ClarificationPrompt",
+        visible: true,
+        props: { question, options },
+        order: 0,
+        reason: "Intent unclear. Offering the most likely interpretations.",
+        confidence: 1.0,
+      },
+    ],
+    notes: "Asked the user to clarify their request",
+    reasoning,
+  });
+}
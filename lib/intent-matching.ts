@@ -0,0 +1,244 @@
+/**
+ * Intent Matching
+ *
+ * Scores how well an input matches an IntentMatcher. Exact substrings score
+ * 1.0 (the original keyword behavior); on top of that a term also matches
+ *
+ * - a synonym from the finance lexicon ("pay" for "salary", "vs" for "compare")
+ * - a word within a small edit distance ("salery" for "salary")
+ *
+ * at a lower score. Rules use the score to pick an intent when nothing matches
+ * exactly, and it scales the confidence reported in componentDecisions.
+ */
+
+import type { IntentMatcher } from "./intent-rules";
+
+/**
+ * Score and the substitutions that produced it
+ */
+export interface MatchResult {
+  score: number;
+  /** Non-exact matches, e.g. `"salery" ≈ salary` */
+  substitutions: string[];
+}
+
+/** Score for a lexicon synonym */
+export const SYNONYM_SCORE = 0.9;
+
+/** Score lost per edit when matching a misspelling */
+const EDIT_PENALTY = 0.15;
+
+/** Highest score for a phrase whose words appear, but not as that phrase */
+const SCATTERED_PHRASE_SCORE = 0.95;
+
+/** Minimum score for a matcher to count as a match */
+export const MATCH_THRESHOLD = 0.7;
+
+const NO_MATCH: MatchResult = { score: 0, substitutions: [] };
+const EXACT: MatchResult = { score: 1, substitutions: [] };
+
+/**
+ * Finance lexicon: canonical term -> words and phrases that mean the same
+ * The canonical term is what intent rules use in their matchers.
+ */
+const lexicon: Map<string, Set<string>> = new Map();
+
+/**
+ * Add synonyms for a canonical term (words or multi-word phrases)
+ */
+export function registerSynonyms(term: string, synonyms: string[]): void {
+  const key = term.toLowerCase();
+  const entry = lexicon.get(key) ?? new Set<string>();
+  for (const synonym of synonyms) {
+    entry.add(synonym.toLowerCase());
+  }
+  lexicon.set(key, entry);
+}
+
+/**
+ * Get the synonyms registered for a term
+ */
+export function getSynonyms(term: string): string[] {
+  return Array.from(lexicon.get(term.toLowerCase()) ?? []);
+}
+
+registerSynonyms("salary", [
+  "salaries", "pay", "paycheck", "paychecks", "wage", "wages", "income", "earnings", "ctc",
+]);
+registerSynonyms("expense", [
+  "spend", "spends", "spending", "spent", "expenditure", "expenditures", "costs", "outgoings",
+]);
+registerSynonyms("compare", ["comparison", "vs", "versus", "change", "difference", "diff", "against"]);
+registerSynonyms("comparison", ["compare", "vs", "versus", "change", "difference", "diff", "against"]);
+registerSynonyms("export", ["download"]);
+registerSynonyms("report", ["statement", "summary"]);
+registerSynonyms("last month", ["previous month", "prior month", "past month"]);
+registerSynonyms("current month", ["this month"]);
+registerSynonyms("clear", ["reset"]);
+registerSynonyms("delete", ["erase", "wipe", "remove"]);
+
+/**
+ * Split text into lower-case word tokens
+ */
+export function tokenize(text: string): string[] {
+  // \p{M} keeps Devanagari vowel signs inside their word
+  return text.toLowerCase().match(/[\p{L}\p{M}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and adjacent
+ * transpositions ("exprot" -> "export" is one edit), giving up once it exceeds `max`
+ */
+export function editDistance(a: string, b: string, max: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Edits tolerated for a word - none for short words, where typos collide with real words
+ * (input tokens under 5 letters are never fuzzy-matched for the same reason)
+ */
+function allowedEdits(word: string): number {
+  if (word.length >= 8) return 2;
+  if (word.length >= 5) return 1;
+  return 0;
+}
+
+/**
+ * Score a single word of a term against the input tokens
+ */
+function scoreWord(word: string, tokens: string[]): MatchResult {
+  if (tokens.includes(word)) return EXACT;
+
+  const synonyms = getSynonyms(word);
+  const synonym = tokens.find((token) => synonyms.includes(token));
+  if (synonym) {
+    return { score: SYNONYM_SCORE, substitutions: [`"${synonym}" = ${word}`] };
+  }
+
+  const max = allowedEdits(word);
+  let best = NO_MATCH;
+  for (const token of tokens) {
+    if (token.length < 5) continue;
+    // Compare the plural-stripped form too ("expences" -> "expence")
+    const distance = Math.min(
+      editDistance(token, word, max),
+      token.endsWith("s") ? editDistance(token.slice(0, -1), word, max) : Infinity
+    );
+    const score = 1 - distance * EDIT_PENALTY;
+    if (distance <= max && score > best.score) {
+      best = { score, substitutions: [`"${token}" ≈ ${word}`] };
+    }
+  }
+  return best;
+}
+
+/**
+ * Score a matcher term (word or phrase) against the input
+ */
+export function scoreTerm(
+  term: string,
+  lowerInput: string,
+  tokens: string[] = tokenize(lowerInput)
+): MatchResult {
+  if (lowerInput.includes(term)) return EXACT;
+
+  // Phrase synonyms ("previous month" for "last month")
+  const phrase = getSynonyms(term).find(
+    (synonym) => synonym.includes(" ") && lowerInput.includes(synonym)
+  );
+  if (phrase) {
+    return { score: SYNONYM_SCORE, substitutions: [`"${phrase}" = ${term}`] };
+  }
+
+  // Terms with punctuation ("salary.") only match exactly
+  const words = term.split(/\s+/);
+  if (words.some((word) => !/^[\p{L}\p{M}\p{N}]+$/u.test(word))) return NO_MATCH;
+
+  // Every word of the term must match somewhere; the weakest word sets the score
+  let score = words.length > 1 ? SCATTERED_PHRASE_SCORE : 1;
+  const substitutions: string[] = words.length > 1 ? [`words of "${term}"`] : [];
+  for (const word of words) {
+    const result = scoreWord(word, tokens);
+    if (result.score === 0) return NO_MATCH;
+    score = Math.min(score, result.score);
+    substitutions.push(...result.substitutions);
+  }
+  return { score, substitutions };
+}
+
+/**
+ * Best-scoring term from a list
+ */
+function bestTerm(terms: string[], lowerInput: string, tokens: string[]): MatchResult {
+  let best = NO_MATCH;
+  for (const term of terms) {
+    const result = scoreTerm(term, lowerInput, tokens);
+    if (result.score > best.score) best = result;
+    if (best.score === 1) break;
+  }
+  return best;
+}
+
+/**
+ * Score a matcher against the input
+ *
+ * - all: the weakest entry sets the score
+ * - any: the strongest term sets the score
+ * - none: excluded terms are checked exactly, so a typo never blocks an intent
+ */
+export function scoreMatcher(lowerInput: string, matcher: IntentMatcher): MatchResult {
+  const tokens = tokenize(lowerInput);
+  let score = 1;
+  const substitutions: string[] = [];
+
+  const apply = (result: MatchResult) => {
+    score = Math.min(score, result.score);
+    substitutions.push(...result.substitutions);
+  };
+
+  for (const entry of matcher.all ?? []) {
+    apply(bestTerm(Array.isArray(entry) ? entry : [entry], lowerInput, tokens));
+    if (score < MATCH_THRESHOLD) return NO_MATCH;
+  }
+  if (matcher.any) {
+    apply(bestTerm(matcher.any, lowerInput, tokens));
+    if (score < MATCH_THRESHOLD) return NO_MATCH;
+  }
+  if (matcher.none?.some((term) => lowerInput.includes(term))) {
+    return NO_MATCH;
+  }
+
+  return { score, substitutions };
+}
+
+/**
+ * Best score across a list of matchers (any of them may match)
+ */
+export function scoreMatchers(lowerInput: string, matchers: IntentMatcher[]): MatchResult {
+  let best = NO_MATCH;
+  for (const matcher of matchers) {
+    const result = scoreMatcher(lowerInput, matcher);
+    if (result.score > best.score) best = result;
+    if (best.score === 1) break;
+  }
+  return best;
+}
@@ -373,7 +373,8 @@ export function resolveRef(key: string): string | null {
  * Helper function to create component references from UI state
  */
 export function indexComponents(
-  components: Array<{ id: string; type: string; order?: number }>
+  components: Array<{ id: string; type: string; order?: number }>,
+  memory: IntentMemoryEngine = intentMemory
 ): void {
   // Index by type for easy reference
   const typeGroups = new Map<string, string[]>();
@@ -386,8 +387,8 @@ export function indexComponents(
 
     // Create a reference using the component type
     const refKey = comp.type.toLowerCase();
-    if (!intentMemory.resolveReference(refKey)) {
-      intentMemory.setReference(refKey, comp.id);
+    if (!memory.resolveReference(refKey)) {
+      memory.setReference(refKey, comp.id);
     }
   }
 
@@ -395,10 +396,10 @@ export function indexComponents(
   const sortedComps = [...components].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
   for (let i = 0; i < sortedComps.length; i++) {
     if (i === 0) {
-      intentMemory.setReference("first", sortedComps[i].id);
+      memory.setReference("first", sortedComps[i].id);
     }
     if (i === sortedComps.length - 1) {
-      intentMemory.setReference("last", sortedComps[i].id);
+      memory.setReference("last", sortedComps[i].id);
     }
   }
 }
@@ -0,0 +1,557 @@
+/**
+ * Intent Rules
+ *
+ * Declarative registry of the intents the simulated orchestrator understands.
+ * Each rule declares how it is matched, which data keys it needs, what to
+ * render when that data is missing, and the components to render/remove once
+ * it is satisfied - together with the reasoning shown in the DebugPanel.
+ *
+ * Rules are evaluated in priority order (highest first); the first exact
+ * keyword match wins. When nothing matches exactly, the rule with the best
+ * synonym/typo-tolerant score wins (see intent-matching.ts).
+ * Add new intents with registerIntentRule() instead of editing the simulator.
+ * Destructive intents are generated from the policies in guardrail-policies.ts.
+ */
+
+import type { UIComponent, UIState } from "./ui-state-engine";
+import type { IntentMemoryEngine } from "./intent-memory";
+import type { LayoutAction, OrchestratorResponse } from "./orchestrator-providers";
+import {
+  type DataStore,
+  getSalaryComparisonData,
+  getSalaryCardsData,
+} from "./data-store";
+import { getGuardrailIntentRules } from "./guardrail-policies";
+import { getLayoutIntentRules } from "./layout-intents";
+import { getChartTransformIntentRules } from "./chart-transforms";
+import { MATCH_THRESHOLD, scoreMatchers, type MatchResult } from "./intent-matching";
+import { normalizeHindi } from "./hindi-normalizer";
+
+/**
+ * Keyword matcher
+ *
+ * - all: every entry must appear; an entry that is an array matches if any of its terms appears
+ * - any: at least one term must appear
+ * - none: no term may appear
+ */
+export interface IntentMatcher {
+  all?: Array<string | string[]>;
+  any?: string[];
+  none?: string[];
+}
+
+/**
+ * Everything a rule can look at when matching and building its outcome
+ */
+export interface IntentRuleContext {
+  /** Raw user input (may include a "[referencing: ...]" annotation) */
+  input: string;
+  /** Lower-cased input used for matching, with Hindi/Hinglish phrases in English */
+  lowerInput: string;
+  /** Data store to read from */
+  data: DataStore;
+  /** Current UI state */
+  state: UIState;
+  /** Intent memory used to resolve "it", "that" and similar references */
+  memory: IntentMemoryEngine;
+}
+
+/**
+ * A component to render, with its debug decision
+ */
+export interface RuleComponent extends UIComponent {
+  /** Why this component was chosen (omit to leave it out of componentDecisions) */
+  reason?: string;
+  /** Confidence reported in componentDecisions */
+  confidence?: number;
+}
+
+/**
+ * What a rule produces
+ */
+export interface RuleOutcome {
+  render?: RuleComponent[];
+  remove?: string[];
+  update?: Array<{ id: string; props: Record<string, unknown> }>;
+  layout?: LayoutAction[];
+  notes: string;
+  reasoning: string;
+}
+
+/**
+ * A declarative intent rule
+ */
+export interface IntentRule {
+  /** Unique intent id, e.g. "salary-comparison" */
+  id: string;
+  /** What the intent is for */
+  description: string;
+  /**
+   * Request that triggers this intent exactly, offered when the orchestrator
+   * asks the user to clarify (rules without one are never offered)
+   */
+  example?: string;
+  /** Evaluation priority - higher runs first */
+  priority: number;
+  /** Keyword matchers - the rule matches if any matcher matches */
+  match: IntentMatcher[];
+  /** Extra guard evaluated after keyword matching */
+  when?: (ctx: IntentRuleContext) => boolean;
+  /** Data keys that must exist before the outcome can be rendered */
+  requires?: string[];
+  /** Outcome used when required data is missing (usually an InputForm) */
+  collect?: (ctx: IntentRuleContext, missing: string[]) => RuleOutcome;
+  /** Outcome once all required data exists */
+  outcome: (ctx: IntentRuleContext) => RuleOutcome;
+}
+
+/**
+ * Summary of a registered intent
+ */
+export interface IntentDescriptor {
+  id: string;
+  description: string;
+  priority: number;
+  requires: string[];
+}
+
+/**
+ * A rule chosen for an input, with its match score
+ */
+export interface IntentMatch extends MatchResult {
+  rule: IntentRule;
+}
+
+/**
+ * Score a rule against the context (keywords and guard); 0 if it doesn't match
+ */
+export function scoreRule(rule: IntentRule, ctx: IntentRuleContext): MatchResult {
+  const result = scoreMatchers(ctx.lowerInput, rule.match);
+  if (result.score < MATCH_THRESHOLD || (rule.when && !rule.when(ctx))) {
+    return { score: 0, substitutions: [] };
+  }
+  return result;
+}
+
+/**
+ * Convert a rule outcome into an OrchestratorResponse
+ */
+export function outcomeToResponse(outcome: RuleOutcome): OrchestratorResponse {
+  const render = outcome.render ?? [];
+
+  return {
+    render: render.map((c) => ({
+      id: c.id,
+      type: c.type,
+      visible: c.visible,
+      props: c.props,
+      order: c.order,
+    })),
+    remove: outcome.remove ?? [],
+    update: outcome.update ?? [],
+    ...(outcome.layout && { layout: outcome.layout }),
+    notes: outcome.notes,
+    debug: {
+      reasoning: outcome.reasoning,
+      componentDecisions: render
+        .filter((c) => c.reason !== undefined)
+        .map((c) => ({
+          id: c.id,
+          type: c.type,
+          reason: c.reason as string,
+          confidence: c.confidence,
+        })),
+    },
+  };
+}
+
+/**
+ * Scale an outcome's confidence by a non-exact match score and explain the match
+ */
+function withMatchScore(outcome: RuleOutcome, match: MatchResult): RuleOutcome {
+  if (match.score >= 1) return outcome;
+
+  return {
+    ...outcome,
+    render: outcome.render?.map((c) => ({
+      ...c,
+      confidence: Math.round((c.confidence ?? 1) * match.score * 100) / 100,
+    })),
+    reasoning: `Matched with score ${match.score.toFixed(2)} (${match.substitutions.join(", ")}). ${outcome.reasoning}`,
+  };
+}
+
+/**
+ * Evaluate a rule against the context
+ * A match score below 1 lowers the reported confidence of every component.
+ */
+export function evaluateRule(
+  rule: IntentRule,
+  ctx: IntentRuleContext,
+  match: MatchResult = { score: 1, substitutions: [] }
+): OrchestratorResponse {
+  const missing = (rule.requires ?? []).filter((key) => !ctx.data.exists(key));
+
+  if (missing.length > 0 && rule.collect) {
+    return outcomeToResponse(withMatchScore(rule.collect(ctx, missing), match));
+  }
+
+  return outcomeToResponse(withMatchScore(rule.outcome(ctx), match));
+}
+
+/**
+ * Build a rule context for an input
+ */
+export function createRuleContext(
+  input: string,
+  data: DataStore,
+  state: UIState,
+  memory: IntentMemoryEngine
+): IntentRuleContext {
+  return { input, lowerInput: normalizeHindi(input).toLowerCase(), data, state, memory };
+}
+
+// ---------------------------------------------------------------------------
+// Built-in rules
+// ---------------------------------------------------------------------------
+
+/**
+ * Salary comparison cards + chart, shared by the comparison and form-submitted intents
+ */
+function salaryComparisonOutcome(
+  data: DataStore,
+  notes: string,
+  reasoning: string,
+  remove: string[]
+): RuleOutcome {
+  const salaryData = getSalaryComparisonData(data);
+  const cardsData = getSalaryCardsData(data);
+
+  return {
+    render: [
+      {
+        id: "salary-comparison-cards",
+        type: "SummaryCards",
+        visible: true,
+        props: {
+          cards: cardsData,
+        },
+        order: 0,
+        reason: "Display salary metrics with computed change and trend.",
+        confidence: 0.95,
+      },
+      {
+        id: "salary-comparison-chart",
+        type: "ChartView",
+        visible: true,
+        props: {
+          title: "Salary Comparison",
+          data: [salaryData.lastMonth ?? 0, salaryData.currentMonth ?? 0],
+          labels: ["Last Month", "Current Month"],
+          type: "bar",
+        },
+        order: 1,
+        reason: "Visual comparison of the two salary values.",
+        confidence: 0.9,
+      },
+    ],
+    remove,
+    notes,
+    reasoning,
+  };
+}
+
+const salaryComparisonRule: IntentRule = {
+  id: "salary-comparison",
+  description: "Compare last month's salary with the current month",
+  example: "Compare my salary with last month",
+  priority: 100,
+  match: [
+    { all: ["salary", ["comparison", "compare"]] },
+    { all: ["salary", "last month", ["current month", "this month"]] },
+  ],
+  requires: ["salary.lastMonth", "salary.currentMonth"],
+  collect: (ctx) => ({
+    render: [
+      {
+        id: "salary-data-form",
+        type: "InputForm",
+        visible: true,
+        props: {
+          fields: [
+            {
+              name: "lastMonthSalary",
+              label: "Last Month Salary",
+              type: "number",
+              placeholder: "Enter your last month salary",
+              required: !ctx.data.exists("salary.lastMonth"),
+            },
+            {
+              name: "currentMonthSalary",
+              label: "Current Month Salary",
+              type: "number",
+              placeholder: "Enter your current month salary",
+              required: !ctx.data.exists("salary.currentMonth"),
+            },
+          ],
+          submitLabel: "Compare Salary",
+        },
+        order: 0,
+        reason: "Salary data not found in store. User must provide last month and current month values.",
+        confidence: 1.0,
+      },
+    ],
+    notes: "Collecting missing salary data for comparison",
+    reasoning:
+      "User requested salary comparison but salary data is missing. Rendering InputForm to collect required values.",
+  }),
+  outcome: (ctx) => {
+    const salaryData = getSalaryComparisonData(ctx.data);
+    const change = salaryData.change ?? 0;
+    return salaryComparisonOutcome(
+      ctx.data,
+      "Displayed salary comparison with available data",
+      `Salary data available. Rendering comparison: Last Month ($${salaryData.lastMonth ?? 0}) vs Current Month ($${salaryData.currentMonth ?? 0}). Change: ${change > 0 ? "+" : ""}${change} (${salaryData.changePercent ?? 0}%).`,
+      ["empty-state", "salary-data-form"]
+    );
+  },
+};
+
+const salaryFormSubmittedRule: IntentRule = {
+  id: "salary-form-submitted",
+  description: "Render the salary comparison after the salary form is submitted",
+  priority: 90,
+  match: [{ all: ["form submitted", "salary."] }],
+  when: (ctx) => ctx.data.hasSalaryData(),
+  outcome: (ctx) =>
+    salaryComparisonOutcome(
+      ctx.data,
+      "Processed salary data and displayed comparison",
+      "Form submitted with salary data. Computing comparison and rendering visualization.",
+      ["salary-data-form"]
+    ),
+};
+
+const exportReportRule: IntentRule = {
+  id: "export-report",
+  description: "Offer export formats for the salary report",
+  example: "Export my salary report",
+  priority: 80,
+  match: [{ all: ["export", ["report", "pdf", "salary"]] }],
+  outcome: () => ({
+    render: [
+      {
+        id: "export-success",
+        type: "InsightSummary",
+        visible: true,
+        props: {
+          insights: [
+            {
+              title: "Report Ready",
+              description: "Salary comparison report has been prepared for export.",
+              type: "success",
+            },
+          ],
+        },
+        order: 0,
+      },
+      {
+        id: "export-actions",
+        type: "ExportActions",
+        visible: true,
+        props: {
+          formats: [
+            { id: "pdf", label: "PDF" },
+            { id: "csv", label: "CSV" },
+          ],
+        },
+        order: 1,
+      },
+    ],
+    notes: "Export options displayed for salary comparison",
+    reasoning: "User requested export. Showing format options.",
+  }),
+};
+
+const expenseBreakdownRule: IntentRule = {
+  id: "expense-breakdown",
+  description: "Show total expenses and the top spending category",
+  example: "Show my expenses",
+  priority: 70,
+  match: [{ any: ["expense"] }],
+  requires: ["expenses.total"],
+  collect: () => ({
+    render: [
+      {
+        id: "expense-data-form",
+        type: "InputForm",
+        visible: true,
+        props: {
+          title: "Expense Information",
+          description: "Enter your expense details to see a breakdown",
+          fields: [
+            { name: "totalExpenses", label: "Total Monthly Expenses", type: "number", placeholder: "e.g., 35000", required: true },
+            { name: "category", label: "Highest Category", type: "text", placeholder: "e.g., Rent, Food, Transport", required: true },
+          ],
+          submitLabel: "Analyze Expenses",
+        },
+        order: 0,
+      },
+    ],
+    notes: "Collecting expense data for breakdown",
+    reasoning: "No expense data found. Requesting user input.",
+  }),
+  outcome: (ctx) => {
+    const totalExpenses = ctx.data.get("expenses.total") ?? 0;
+    const category = ctx.data.get("expenses.category") ?? "Other";
+
+    return {
+      render: [
+        {
+          id: "expense-summary",
+          type: "SummaryCards",
+          visible: true,
+          props: {
+            cards: [
+              { title: "Total Expenses", value: `₹${totalExpenses}`, trend: "neutral" },
+              { title: "Top Category", value: `${category}`, trend: "neutral" },
+            ],
+          },
+          order: 0,
+        },
+        {
+          id: "expense-breakdown",
+          type: "InsightSummary",
+          visible: true,
+          props: {
+            insights: [
+              {
+                title: "Expense Breakdown",
+                description: `Your highest spending category is ${category} at ₹${totalExpenses}. Consider tracking individual categories for better insights.`,
+                type: "info",
+              },
+            ],
+          },
+          order: 1,
+        },
+      ],
+      remove: ["expense-data-form"],
+      notes: "Displayed expense breakdown",
+      reasoning: `Showing expense analysis. Total: ₹${totalExpenses}`,
+    };
+  },
+};
+
+/**
+ * Rule used when nothing else matches
+ * The simulator offers a ClarificationPrompt first and only falls back to this
+ * outcome when no intent has an example to offer.
+ */
+export const FALLBACK_RULE: IntentRule = {
+  id: "fallback",
+  description: "Onboarding empty state when no intent is recognized",
+  priority: -Infinity,
+  match: [{}],
+  outcome: () => ({
+    render: [
+      {
+        id: "empty-state",
+        type: "EmptyState",
+        visible: true,
+        props: {
+          title: "What would you like to see?",
+          description: "Try asking for a salary comparison, chart, or summary.",
+          actionLabel: "Get Started",
+        },
+        order: 0,
+        reason: "No specific intent recognized. Providing onboarding options.",
+        confidence: 0.4,
+      },
+    ],
+    notes: "Displayed empty state for new user",
+    reasoning:
+      "User input did not match any known patterns. Showing empty state with helpful suggestions.",
+  }),
+};
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+const intentRules: IntentRule[] = [
+  salaryComparisonRule,
+  salaryFormSubmittedRule,
+  exportReportRule,
+  expenseBreakdownRule,
+  ...getGuardrailIntentRules(),
+  ...getLayoutIntentRules(),
+  ...getChartTransformIntentRules(),
+];
+
+/**
+ * Register an intent rule (replaces an existing rule with the same id)
+ */
+export function registerIntentRule(rule: IntentRule): void {
+  const index = intentRules.findIndex((r) => r.id === rule.id);
+  if (index >= 0) {
+    intentRules[index] = rule;
+  } else {
+    intentRules.push(rule);
+  }
+}
+
+/**
+ * Remove an intent rule by id
+ */
+export function unregisterIntentRule(id: string): boolean {
+  const index = intentRules.findIndex((r) => r.id === id);
+  if (index < 0) return false;
+  intentRules.splice(index, 1);
+  return true;
+}
+
+/**
+ * Get all registered rules in evaluation order
+ */
+export function getIntentRules(): IntentRule[] {
+  // Stable sort keeps registration order for equal priorities
+  return [...intentRules].sort((a, b) => b.priority - a.priority);
+}
+
+/**
+ * List all known intents
+ */
+export function listIntents(): IntentDescriptor[] {
+  return getIntentRules().map((rule) => ({
+    id: rule.id,
+    description: rule.description,
+    priority: rule.priority,
+    requires: rule.requires ?? [],
+  }));
+}
+
+/**
+ * All rules that match an input, best first
+ * Exact matches come first in priority order, then non-exact matches by score
+ * (ties keep priority order).
+ */
+export function rankIntents(ctx: IntentRuleContext): IntentMatch[] {
+  const matches: IntentMatch[] = [];
+  for (const rule of getIntentRules()) {
+    const { score, substitutions } = scoreRule(rule, ctx);
+    if (score > 0) {
+      matches.push({ rule, score, substitutions });
+    }
+  }
+  // Stable sort keeps priority order for equal scores
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Pick the rule for an input
+ * The highest-priority exact match wins; otherwise the best non-exact score
+ * (ties go to the higher priority), falling back to FALLBACK_RULE.
+ */
+export function matchIntent(ctx: IntentRuleContext): IntentMatch {
+  return rankIntents(ctx)[0] ?? { rule: FALLBACK_RULE, score: 1, substitutions: [] };
+}
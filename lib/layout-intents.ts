@@ -0,0 +1,333 @@
+/**
+ * Layout Intents
+ *
+ * Turns layout commands into show/hide/setOrder actions on components that
+ * are already on screen:
+ *
+ *   "move the chart above the cards"   -> setOrder (relative placement)
+ *   "put the summary to the top"       -> setOrder (top / bottom)
+ *   "hide the summary"                 -> hide
+ *   "show the chart again"             -> show (hidden components only)
+ *   "restore hidden components"        -> show every hidden component
+ *
+ * Component phrases ("the chart", "the salary cards", "it", "that") are
+ * resolved against the current UI state, using intent memory for pronouns,
+ * positions and ties. A command only matches when every phrase resolves, so
+ * "show my expenses" still reaches the expense intent when nothing is hidden.
+ */
+
+import type { UIComponent, UIState } from "./ui-state-engine";
+import type { LayoutAction } from "./orchestrator-providers";
+import type { IntentRule, IntentRuleContext } from "./intent-rules";
+import type { IntentMemoryEngine } from "./intent-memory";
+import { tokenize } from "./intent-matching";
+
+/**
+ * Where moved components end up
+ */
+export type LayoutPlacement =
+  | { kind: "above"; targetId: string }
+  | { kind: "below"; targetId: string }
+  | { kind: "top" }
+  | { kind: "bottom" };
+
+/**
+ * A parsed layout command with resolved component ids
+ */
+export type LayoutCommand =
+  | { kind: "move"; ids: string[]; placement: LayoutPlacement }
+  | { kind: "hide"; ids: string[] }
+  | { kind: "show"; ids: string[] };
+
+const MOVE_VERB = "(?:move|put|place|shift|drag|bring)";
+
+/** "move X above Y" */
+const MOVE_RELATIVE = new RegExp(
+  `\\b${MOVE_VERB}\\s+(.+?)\\s+(above|over|before|on top of|below|under|underneath|beneath|after)\\s+(.+)$`
+);
+
+/** "move X to the top" */
+const MOVE_TO_EDGE = new RegExp(
+  `\\b${MOVE_VERB}\\s+(.+?)\\s+(?:to\\s+)?(?:the\\s+)?(top|bottom|start|end)(?:\\s+of\\s+the\\s+(?:page|screen|list))?$`
+);
+
+const HIDE = /\b(?:hide|collapse|minimi[sz]e)\s+(.+)$/;
+
+/** "show X again", "unhide X", "bring X back" */
+const SHOW = /\b(?:unhide|restore|reveal|show|display|bring back)\s+(.+?)(?:\s+(?:again|back))?$/;
+const BRING_BACK = /\bbring\s+(.+?)\s+back$/;
+
+/** Phrases meaning every hidden component */
+const ALL_HIDDEN = /\b(?:hidden|all|everything)\b/;
+
+const ABOVE = new Set(["above", "over", "before", "on top of"]);
+
+/** Words that never name a component */
+const FILLER = new Set(["the", "my", "a", "an", "your", "component", "components", "section", "panel", "please"]);
+
+/** Words resolved through intent memory instead of by name */
+const MEMORY_REFERENCES: Record<string, string> = {
+  it: "this",
+  this: "this",
+  that: "that",
+  first: "first",
+  last: "last",
+};
+
+/**
+ * Singular form used to compare phrase words with id/type words
+ */
+function singular(word: string): string {
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Words a component can be called by: its id segments and its type name
+ */
+function componentWords(comp: UIComponent): { id: Set<string>; type: Set<string> } {
+  return {
+    id: new Set(comp.id.toLowerCase().split(/[^a-z0-9]+/).map(singular)),
+    type: new Set(comp.type.split(/(?=[A-Z])/).map((word) => singular(word.toLowerCase()))),
+  };
+}
+
+/**
+ * Components sorted the way they are displayed
+ */
+function displayOrder(state: UIState): UIComponent[] {
+  return Object.values(state).sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+}
+
+/**
+ * Resolve a single phrase ("the salary chart", "it") to one of the candidates
+ *
+ * Words matching an id segment count double, words matching the type name
+ * once; the last word must match. Ties go to the component intent memory
+ * associates with that word, then to the one displayed first.
+ */
+function resolveComponent(
+  phrase: string,
+  candidates: UIComponent[],
+  memory: IntentMemoryEngine
+): string | null {
+  const words = tokenize(phrase).filter((word) => !FILLER.has(word));
+  if (words.length === 0) return null;
+
+  const isCandidate = (id: string | null): id is string =>
+    id !== null && candidates.some((c) => c.id === id);
+
+  if (words.length === 1 && MEMORY_REFERENCES[words[0]]) {
+    const id = memory.resolveReference(MEMORY_REFERENCES[words[0]]);
+    return isCandidate(id) ? id : null;
+  }
+
+  const head = singular(words[words.length - 1]);
+  let best: string[] = [];
+  let bestScore = 0;
+
+  for (const comp of candidates) {
+    const names = componentWords(comp);
+    if (!names.id.has(head) && !names.type.has(head)) continue;
+
+    const score = words
+      .map(singular)
+      .reduce((sum, word) => sum + (names.id.has(word) ? 2 : names.type.has(word) ? 1 : 0), 0);
+    if (score > bestScore) {
+      best = [comp.id];
+      bestScore = score;
+    } else if (score === bestScore) {
+      best.push(comp.id);
+    }
+  }
+
+  if (best.length > 1) {
+    const remembered = memory.resolveReference(head);
+    if (remembered && best.includes(remembered)) return remembered;
+  }
+  return best[0] ?? null;
+}
+
+/**
+ * Resolve a list phrase ("the chart and the cards"); null if any part is unknown
+ */
+function resolveComponents(
+  phrase: string,
+  candidates: UIComponent[],
+  memory: IntentMemoryEngine
+): string[] | null {
+  const ids: string[] = [];
+  for (const part of phrase.split(/\s*(?:,|&|\band\b)\s*/)) {
+    if (!part.trim()) continue;
+    const id = resolveComponent(part, candidates, memory);
+    if (!id) return null;
+    if (!ids.includes(id)) ids.push(id);
+  }
+  return ids.length > 0 ? ids : null;
+}
+
+/**
+ * Parse a layout command against the current UI state
+ */
+export function parseLayoutCommand(
+  lowerInput: string,
+  state: UIState,
+  memory: IntentMemoryEngine
+): LayoutCommand | null {
+  // Drop the reference annotation added by the orchestrator and trailing punctuation
+  const text = lowerInput.replace(/\s*\[referencing:[^\]]*\]/g, "").replace(/[.!?]+\s*$/, "").trim();
+  const components = displayOrder(state);
+  const hidden = components.filter((c) => !c.visible);
+
+  const relative = text.match(MOVE_RELATIVE);
+  if (relative) {
+    const ids = resolveComponents(relative[1], components, memory);
+    const targetId = resolveComponent(relative[3], components, memory);
+    if (!ids || !targetId || ids.includes(targetId)) return null;
+    return {
+      kind: "move",
+      ids,
+      placement: ABOVE.has(relative[2]) ? { kind: "above", targetId } : { kind: "below", targetId },
+    };
+  }
+
+  const edge = text.match(MOVE_TO_EDGE);
+  if (edge) {
+    const ids = resolveComponents(edge[1], components, memory);
+    if (!ids) return null;
+    const toTop = edge[2] === "top" || edge[2] === "start";
+    return { kind: "move", ids, placement: toTop ? { kind: "top" } : { kind: "bottom" } };
+  }
+
+  const hide = text.match(HIDE);
+  if (hide) {
+    const ids = resolveComponents(hide[1], components.filter((c) => c.visible), memory);
+    return ids ? { kind: "hide", ids } : null;
+  }
+
+  const show = text.match(BRING_BACK) ?? text.match(SHOW);
+  if (show && hidden.length > 0) {
+    const ids = ALL_HIDDEN.test(show[1])
+      ? hidden.map((c) => c.id)
+      : resolveComponents(show[1], hidden, memory);
+    return ids ? { kind: "show", ids } : null;
+  }
+
+  return null;
+}
+
+/**
+ * setOrder actions that place `ids` according to `placement`
+ * Every component is renumbered in display order; only changed orders are emitted.
+ */
+export function planMove(state: UIState, ids: string[], placement: LayoutPlacement): LayoutAction[] {
+  const sequence = displayOrder(state);
+  const moving = sequence.filter((c) => ids.includes(c.id));
+  const rest = sequence.filter((c) => !ids.includes(c.id));
+
+  let index: number;
+  switch (placement.kind) {
+    case "top":
+      index = 0;
+      break;
+    case "bottom":
+      index = rest.length;
+      break;
+    case "above":
+      index = rest.findIndex((c) => c.id === placement.targetId);
+      break;
+    case "below":
+      index = rest.findIndex((c) => c.id === placement.targetId) + 1;
+      break;
+  }
+
+  const changes: LayoutAction[] = [...rest.slice(0, index), ...moving, ...rest.slice(index)]
+    .map((comp, order) => ({ comp, order }))
+    .filter(({ comp, order }) => comp.order !== order)
+    .map(({ comp, order }) => ({ type: "setOrder", id: comp.id, order }));
+
+  // Moved components first, so intent memory's "this" points at them
+  return changes.sort((a, b) => Number(!ids.includes(a.id)) - Number(!ids.includes(b.id)));
+}
+
+/**
+ * Actions carrying out a command
+ */
+export function planLayout(command: LayoutCommand, state: UIState): LayoutAction[] {
+  switch (command.kind) {
+    case "move":
+      return planMove(state, command.ids, command.placement);
+    case "hide":
+      return command.ids.map((id) => ({ type: "hide", id }));
+    case "show":
+      return command.ids.map((id) => ({ type: "show", id }));
+  }
+}
+
+function describeCommand(command: LayoutCommand): string {
+  const ids = command.ids.join(", ");
+  switch (command.kind) {
+    case "move": {
+      const { placement } = command;
+      const where =
+        placement.kind === "above" || placement.kind === "below"
+          ? `${placement.kind} ${placement.targetId}`
+          : `to the ${placement.kind}`;
+      return `Moved ${ids} ${where}`;
+    }
+    case "hide":
+      return `Hid ${ids}`;
+    case "show":
+      return `Restored ${ids}`;
+  }
+}
+
+function layoutRule(
+  id: string,
+  kind: LayoutCommand["kind"],
+  description: string,
+  verbs: string[]
+): IntentRule {
+  const parse = (ctx: IntentRuleContext) => {
+    const command = parseLayoutCommand(ctx.lowerInput, ctx.state, ctx.memory);
+    return command?.kind === kind ? command : null;
+  };
+
+  return {
+    id,
+    description,
+    // Above display intents: "show the expenses again" restores rather than re-renders
+    priority: 120,
+    match: [{ any: verbs }],
+    when: (ctx) => parse(ctx) !== null,
+    outcome: (ctx) => {
+      const command = parse(ctx) as LayoutCommand;
+      const summary = describeCommand(command);
+      return {
+        layout: planLayout(command, ctx.state),
+        notes: summary,
+        reasoning: `Layout command resolved against the current UI. ${summary}.`,
+      };
+    },
+  };
+}
+
+const layoutRules: IntentRule[] = [
+  layoutRule("layout-move", "move", "Reorder components on screen", [
+    "move", "put", "place", "shift", "drag", "bring",
+  ]),
+  layoutRule("layout-hide", "hide", "Hide components without removing them", [
+    "hide", "collapse", "minimize", "minimise",
+  ]),
+  layoutRule("layout-show", "show", "Show hidden components again", [
+    "unhide", "restore", "reveal", "show", "display", "bring",
+  ]),
+];
+
+/**
+ * Intent rules for layout commands
+ */
+export function getLayoutIntentRules(): IntentRule[] {
+  return layoutRules;
+}
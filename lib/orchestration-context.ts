@@ -0,0 +1,196 @@
+/**
+ * Orchestration Context
+ *
+ * Builds the structured context handed to decision providers: what is on
+ * screen, which data is available and where it came from, what the user did
+ * recently, and which confirmations are still open. Pure - works on the client
+ * singletons or on a restored snapshot.
+ *
+ * The object is JSON-serializable so it can be sent to a model or an HTTP
+ * provider as-is, and shown verbatim in the DebugPanel.
+ */
+
+import type { UIState } from "./ui-state-engine";
+import type { DataSource, DataStore } from "./data-store";
+import type { IntentMemoryEngine } from "./intent-memory";
+import type { PendingConfirmationRegistry } from "./pending-confirmations";
+
+/**
+ * Primitive summary of a prop value
+ */
+export type PropSummary = string | number | boolean | null;
+
+/**
+ * A component on screen
+ */
+export interface ContextComponent {
+  id: string;
+  type: string;
+  order?: number;
+  /** Prop values, with lists and objects summarized and handlers omitted */
+  props: Record<string, PropSummary>;
+}
+
+/**
+ * A data key the orchestrator can use
+ */
+export interface ContextDataEntry {
+  key: string;
+  value: unknown;
+  source: DataSource;
+}
+
+/**
+ * A recent intent from intent memory
+ */
+export interface ContextIntent {
+  type: string;
+  input: string;
+  componentIds: string[];
+  timestamp: number;
+}
+
+/**
+ * An operation waiting for the user to confirm its GuardrailModal
+ */
+export interface PendingConfirmation {
+  /** Modal id */
+  id: string;
+  /** Guardrail policy the operation belongs to */
+  policy: string;
+  expiresAt: number;
+  /** Modal title and message, when the modal is on screen */
+  title?: string;
+  message?: string;
+}
+
+/**
+ * Intent memory part of the context, as returned by intentMemory.getContext()
+ */
+export interface MemoryContext {
+  recentIntents: ContextIntent[];
+  activeReferences: Record<string, string>;
+}
+
+/**
+ * Everything a provider knows about the current session
+ */
+export interface OrchestrationContext extends MemoryContext {
+  userInput: string;
+  /** Visible components, in render order */
+  components: ContextComponent[];
+  /** Stored and computed data, sorted by key */
+  data: ContextDataEntry[];
+  pendingConfirmations: PendingConfirmation[];
+}
+
+const MAX_STRING_LENGTH = 80;
+
+/**
+ * Summarize a prop value into a short primitive
+ */
+function summarizeProp(value: unknown): PropSummary | undefined {
+  if (typeof value === "function") return undefined;
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number" || typeof value === "boolean") return value;
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}…` : value;
+  }
+  if (Array.isArray(value)) return `[${value.length} items]`;
+  if (typeof value === "object") return `{${Object.keys(value).join(", ")}}`;
+  return String(value);
+}
+
+/**
+ * Summarize a component's props, skipping handlers
+ */
+function summarizeProps(props: Record<string, unknown>): Record<string, PropSummary> {
+  const summary: Record<string, PropSummary> = {};
+  for (const [key, value] of Object.entries(props)) {
+    const summarized = summarizeProp(value);
+    if (summarized !== undefined) {
+      summary[key] = summarized;
+    }
+  }
+  return summary;
+}
+
+/**
+ * Reduce intent memory to the serializable part used in the context
+ */
+export function getMemoryContext(memory: IntentMemoryEngine): MemoryContext {
+  const { recentIntents, activeReferences } = memory.getContext();
+  return {
+    recentIntents: recentIntents.map(({ type, input, componentIds, timestamp }) => ({
+      type,
+      input,
+      componentIds,
+      timestamp,
+    })),
+    activeReferences,
+  };
+}
+
+/**
+ * Operations in the registry that can still be confirmed
+ * Taken from the registry rather than from the modals on screen: a modal
+ * whose operation expired or was never registered confirms nothing.
+ */
+export function getPendingContext(
+  pending: PendingConfirmationRegistry,
+  state: UIState,
+  now: number = Date.now()
+): PendingConfirmation[] {
+  return pending
+    .list()
+    .filter((operation) => operation.expiresAt >= now)
+    .map((operation) => {
+      const props = state[operation.modalId]?.props ?? {};
+      return {
+        id: operation.modalId,
+        policy: operation.payload.policyId,
+        expiresAt: operation.expiresAt,
+        title: typeof props.title === "string" ? props.title : undefined,
+        message: typeof props.message === "string" ? props.message : undefined,
+      };
+    });
+}
+
+/**
+ * Context builder - provides current UI state, data availability, intent
+ * memory and open confirmations to the provider
+ */
+export function buildContext(
+  userInput: string,
+  state: UIState,
+  data: DataStore,
+  memory: MemoryContext = { recentIntents: [], activeReferences: {} },
+  pendingConfirmations: PendingConfirmation[] = []
+): OrchestrationContext {
+  const visibleComponents = Object.values(state)
+    .filter((c) => c.visible)
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+
+  const dataEntries: ContextDataEntry[] = [];
+  for (const key of new Set([...data.keys(), ...data.computedKeys()])) {
+    const entry = data.withSource(key);
+    if (entry && entry.value !== null) {
+      dataEntries.push({ key, value: entry.value, source: entry.source });
+    }
+  }
+  dataEntries.sort((a, b) => a.key.localeCompare(b.key));
+
+  return {
+    userInput,
+    components: visibleComponents.map((comp) => ({
+      id: comp.id,
+      type: comp.type,
+      order: comp.order,
+      props: summarizeProps(comp.props),
+    })),
+    data: dataEntries,
+    recentIntents: memory.recentIntents,
+    activeReferences: memory.activeReferences,
+    pendingConfirmations,
+  };
+}
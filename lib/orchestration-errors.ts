@@ -0,0 +1,367 @@
+/**
+ * Orchestration Errors
+ *
+ * Typed failures of an orchestration request, and the retry policy applied to
+ * the transient ones:
+ *
+ *   provider-timeout      the provider did not answer in time         (retried)
+ *   provider-unavailable  network failure, HTTP 5xx or 429            (retried)
+ *   invalid-response      the provider's answer is not a response
+ *   policy-violation      a middleware refused the request
+ *   data-validation       submitted values do not fit their data keys
+ *   handler-failure       a component event handler threw
+ *   invalid-event         a component event did not match its declaration
+ *   unknown               anything else
+ *
+ * Retried errors are attempted again with exponential backoff before the
+ * request fails. describeOrchestrationError() turns any failure into the
+ * text shown by the ErrorNotice component.
+ */
+
+/**
+ * Kind of orchestration failure
+ */
+export type OrchestrationErrorKind =
+  | "provider-timeout"
+  | "provider-unavailable"
+  | "invalid-response"
+  | "policy-violation"
+  | "data-validation"
+  | "handler-failure"
+  | "invalid-event"
+  | "unknown";
+
+/**
+ * Base class for orchestration failures
+ */
+export class OrchestrationError extends Error {
+  constructor(
+    message: string,
+    public kind: OrchestrationErrorKind,
+    /** Transient - retried automatically with backoff */
+    public retryable: boolean = false,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "OrchestrationError";
+  }
+}
+
+/**
+ * The provider did not answer within its time limit
+ */
+export class ProviderTimeoutError extends OrchestrationError {
+  constructor(
+    public provider: string,
+    public timeoutMs: number
+  ) {
+    super(`Provider "${provider}" did not respond within ${timeoutMs}ms`, "provider-timeout", true);
+    this.name = "ProviderTimeoutError";
+  }
+}
+
+/**
+ * The provider could not be reached or answered with a server error
+ * Client errors (4xx other than 429) are not worth retrying.
+ */
+export class ProviderUnavailableError extends OrchestrationError {
+  constructor(
+    public provider: string,
+    public status?: number,
+    options?: { cause?: unknown }
+  ) {
+    super(
+      status === undefined
+        ? `Provider "${provider}" could not be reached`
+        : `Provider "${provider}" responded with HTTP ${status}`,
+      "provider-unavailable",
+      status === undefined || status >= 500 || status === 429,
+      options
+    );
+    this.name = "ProviderUnavailableError";
+  }
+}
+
+/**
+ * The provider's answer could not be read as an OrchestratorResponse
+ */
+export class InvalidResponseError extends OrchestrationError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, "invalid-response", false, options);
+    this.name = "InvalidResponseError";
+  }
+}
+
+/**
+ * A request refused by policy, e.g. thrown from a middleware's beforeRequest
+ */
+export class PolicyViolationError extends OrchestrationError {
+  constructor(
+    public policy: string,
+    reason: string
+  ) {
+    super(reason, "policy-violation");
+    this.name = "PolicyViolationError";
+  }
+}
+
+/**
+ * Submitted values that do not fit their data keys
+ */
+export class DataValidationError extends OrchestrationError {
+  constructor(public problems: string[]) {
+    super(`Invalid data: ${problems.join("; ")}`, "data-validation");
+    this.name = "DataValidationError";
+  }
+}
+
+/**
+ * A component event handler threw
+ */
+export class HandlerFailureError extends OrchestrationError {
+  constructor(
+    public event: string,
+    public componentId: string,
+    cause: unknown
+  ) {
+    super(
+      `Handler for "${event}" from "${componentId}" failed: ${cause instanceof Error ? cause.message : String(cause)}`,
+      "handler-failure",
+      false,
+      { cause }
+    );
+    this.name = "HandlerFailureError";
+  }
+}
+
+/**
+ * A component event that names an unknown component, an event the component
+ * does not declare, or a payload that does not fit the declared schema
+ */
+export class InvalidEventError extends OrchestrationError {
+  constructor(
+    public event: string,
+    public componentId: string,
+    public problem: string
+  ) {
+    super(`Event "${event}" from "${componentId}" rejected: ${problem}`, "invalid-event");
+    this.name = "InvalidEventError";
+  }
+}
+
+/**
+ * Wrap any thrown value as an OrchestrationError
+ */
+export function toOrchestrationError(error: unknown): OrchestrationError {
+  if (error instanceof OrchestrationError) return error;
+  return new OrchestrationError(
+    error instanceof Error ? error.message : String(error),
+    "unknown",
+    false,
+    { cause: error }
+  );
+}
+
+/**
+ * User-facing description of a failure
+ */
+export interface ErrorDescription {
+  kind: OrchestrationErrorKind;
+  title: string;
+  message: string;
+  details?: string[];
+  /** Whether running the request again may help */
+  canRetry: boolean;
+}
+
+/**
+ * Specific, actionable text for a failure
+ */
+export function describeOrchestrationError(error: unknown): ErrorDescription {
+  const err = toOrchestrationError(error);
+
+  if (err instanceof ProviderTimeoutError) {
+    return {
+      kind: err.kind,
+      title: "The assistant took too long to answer",
+      message: `No response after ${Math.max(1, Math.round(err.timeoutMs / 1000))} seconds. It may be busy - try again in a moment.`,
+      canRetry: true,
+    };
+  }
+  if (err instanceof ProviderUnavailableError) {
+    return {
+      kind: err.kind,
+      title: "Couldn't reach the assistant",
+      message:
+        err.status === undefined
+          ? "Check your connection and try again."
+          : err.retryable
+            ? `The ${err.provider} provider answered with HTTP ${err.status}. Try again in a moment.`
+            : `The ${err.provider} provider answered with HTTP ${err.status}. Check its URL and credentials.`,
+      canRetry: err.retryable,
+    };
+  }
+  if (err instanceof InvalidResponseError) {
+    return {
+      kind: err.kind,
+      title: "The assistant's answer couldn't be used",
+      message: "It didn't return UI instructions. Try again or rephrase your request.",
+      details: [err.message],
+      canRetry: true,
+    };
+  }
+  if (err instanceof PolicyViolationError) {
+    return {
+      kind: err.kind,
+      title: "This request isn't allowed",
+      message: err.message,
+      details: [`Policy: ${err.policy}`],
+      canRetry: false,
+    };
+  }
+  if (err instanceof DataValidationError) {
+    return {
+      kind: err.kind,
+      title: "Some values need fixing",
+      message: "Correct the values below and submit again.",
+      details: err.problems,
+      canRetry: false,
+    };
+  }
+  if (err instanceof HandlerFailureError) {
+    return {
+      kind: err.kind,
+      title: "That action didn't complete",
+      message: "Something failed while handling it. Try again.",
+      details: [err.message],
+      canRetry: true,
+    };
+  }
+  if (err instanceof InvalidEventError) {
+    return {
+      kind: err.kind,
+      title: "That action isn't supported",
+      message: "The component sent something the app doesn't understand.",
+      details: [err.message],
+      canRetry: false,
+    };
+  }
+  return {
+    kind: err.kind,
+    title: "Something went wrong",
+    message: "Please try again.",
+    details: [err.message],
+    canRetry: true,
+  };
+}
+
+/**
+ * Retry and timeout settings for provider calls
+ */
+export interface RetryPolicy {
+  /** Additional attempts after the first one */
+  retries: number;
+  /** Delay before the first retry; doubled for each further one */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Time limit per attempt */
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 4000,
+  timeoutMs: 20000,
+};
+
+/**
+ * Delay before retry number `attempt` (starting at 1)
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  return Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+}
+
+/**
+ * Wait for `ms`, rejecting early if the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Run one attempt with a time limit
+ * The attempt's signal is aborted on timeout or when `signal` is; a task that
+ * ignores its signal is abandoned when the time limit passes.
+ */
+async function runWithTimeout<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  onTimeout: () => OrchestrationError,
+  signal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = onTimeout();
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([task(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Run a provider call, retrying retryable OrchestrationErrors with backoff
+ * Aborting `signal` stops at once; other errors are thrown unchanged.
+ */
+export async function withRetry<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  options: {
+    policy: RetryPolicy;
+    provider: string;
+    signal?: AbortSignal;
+    onRetry?: (error: OrchestrationError, attempt: number) => void;
+  }
+): Promise<T> {
+  const { policy, provider, signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await runWithTimeout(
+        task,
+        policy.timeoutMs,
+        () => new ProviderTimeoutError(provider, policy.timeoutMs),
+        signal
+      );
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      if (!(error instanceof OrchestrationError) || !error.retryable || attempt >= policy.retries) {
+        throw error;
+      }
+      options.onRetry?.(error, attempt + 1);
+      await sleep(backoffDelay(attempt + 1, policy), signal);
+    }
+  }
+}
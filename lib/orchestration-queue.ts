@@ -0,0 +1,224 @@
+/**
+ * Orchestration Queue
+ *
+ * Serializes orchestrator requests so only one runs at a time, and makes each
+ * one cancellable through an AbortSignal. A new request can either wait its
+ * turn ("queue") or cancel whatever is running or waiting ("supersede").
+ *
+ * Cancelled requests reject with an AbortError and never apply their actions.
+ */
+
+/**
+ * How a new request interacts with earlier ones
+ */
+export type QueueMode = "queue" | "supersede";
+
+/**
+ * A unit of work - receives the signal to forward to the orchestrator
+ */
+export type QueueTask<T> = (signal: AbortSignal) => Promise<T>;
+
+/**
+ * Public view of a queued request
+ */
+export interface QueuedRequest {
+  id: string;
+  /** Short description, e.g. the user input */
+  label: string;
+  status: "pending" | "running";
+}
+
+/**
+ * Snapshot of the queue for UI consumption
+ */
+export interface QueueSnapshot {
+  running: QueuedRequest | null;
+  pending: QueuedRequest[];
+}
+
+/**
+ * Handle returned by enqueue()
+ */
+export interface QueueHandle<T> {
+  id: string;
+  /** Resolves with the task result; rejects with AbortError when cancelled */
+  result: Promise<T>;
+  /** Cancel this request */
+  cancel: () => void;
+}
+
+interface QueueEntry {
+  request: QueuedRequest;
+  controller: AbortController;
+  run: () => Promise<void>;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * Create the error used for cancelled requests
+ */
+function abortError(message: string): DOMException {
+  return new DOMException(message, "AbortError");
+}
+
+/**
+ * Check if an error came from a cancelled request
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    (error instanceof DOMException || error instanceof Error) && error.name === "AbortError"
+  );
+}
+
+/**
+ * Serialized, cancellable request queue
+ */
+export class OrchestrationQueue {
+  private pending: QueueEntry[] = [];
+  private running: QueueEntry | null = null;
+  private listeners: Set<(snapshot: QueueSnapshot) => void> = new Set();
+  private nextId: number = 0;
+
+  /**
+   * Add a request to the queue
+   */
+  enqueue<T>(label: string, task: QueueTask<T>, mode: QueueMode = "queue"): QueueHandle<T> {
+    if (mode === "supersede") {
+      this.cancelAll("Superseded by a newer request");
+    }
+
+    const controller = new AbortController();
+    const request: QueuedRequest = {
+      id: `request_${++this.nextId}`,
+      label,
+      status: "pending",
+    };
+
+    let resolveResult!: (value: T) => void;
+    let rejectResult!: (reason: unknown) => void;
+    const result = new Promise<T>((resolve, reject) => {
+      resolveResult = resolve;
+      rejectResult = reject;
+    });
+
+    const entry: QueueEntry = {
+      request,
+      controller,
+      reject: rejectResult,
+      run: async () => {
+        try {
+          const value = await task(controller.signal);
+          // A task that ignored the signal must still not report success
+          if (controller.signal.aborted) {
+            throw abortError("Request was cancelled");
+          }
+          resolveResult(value);
+        } catch (error) {
+          rejectResult(controller.signal.aborted ? abortError("Request was cancelled") : error);
+        }
+      },
+    };
+
+    this.pending.push(entry);
+    this.notify();
+    void this.drain();
+
+    return {
+      id: request.id,
+      result,
+      cancel: () => this.cancel(request.id),
+    };
+  }
+
+  /**
+   * Cancel a request by id (pending or running)
+   */
+  cancel(id: string, reason: string = "Request was cancelled"): boolean {
+    if (this.running?.request.id === id) {
+      this.running.controller.abort(abortError(reason));
+      return true;
+    }
+
+    const index = this.pending.findIndex((e) => e.request.id === id);
+    if (index < 0) return false;
+
+    const [entry] = this.pending.splice(index, 1);
+    entry.controller.abort(abortError(reason));
+    entry.reject(abortError(reason));
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Cancel the running request and everything waiting behind it
+   */
+  cancelAll(reason: string = "Request was cancelled"): void {
+    for (const entry of this.pending) {
+      entry.controller.abort(abortError(reason));
+      entry.reject(abortError(reason));
+    }
+    this.pending = [];
+    this.running?.controller.abort(abortError(reason));
+    this.notify();
+  }
+
+  /**
+   * Get the current queue state
+   */
+  getSnapshot(): QueueSnapshot {
+    return {
+      running: this.running ? { ...this.running.request } : null,
+      pending: this.pending.map((e) => ({ ...e.request })),
+    };
+  }
+
+  /**
+   * Check if a request is running or waiting
+   */
+  isBusy(): boolean {
+    return this.running !== null || this.pending.length > 0;
+  }
+
+  /**
+   * Subscribe to queue changes
+   * Returns an unsubscribe function
+   */
+  subscribe(listener: (snapshot: QueueSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Run pending requests one at a time
+   */
+  private async drain(): Promise<void> {
+    if (this.running) return;
+
+    const next = this.pending.shift();
+    if (!next) return;
+
+    this.running = next;
+    next.request.status = "running";
+    this.notify();
+
+    await next.run();
+
+    this.running = null;
+    this.notify();
+    void this.drain();
+  }
+
+  /**
+   * Notify all listeners of a change
+   */
+  private notify(): void {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.error("Error in OrchestrationQueue listener:", error);
+      }
+    });
+  }
+}
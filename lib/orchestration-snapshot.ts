@@ -0,0 +1,166 @@
+/**
+ * Orchestration Snapshot
+ *
+ * Serializable copy of the UI state and data store, sent along with a request
+ * so the orchestrator can run somewhere else (e.g. the /api/orchestrate route)
+ * and see exactly what the client sees. Function-valued props are stripped;
+ * orchestrated components carry none (the renderer binds their events, see
+ * component-events.ts), but components rendered directly may. Intent memory
+ * and open confirmations are included in their context form so references
+ * and pending operations survive the round trip.
+ */
+
+import { z } from "zod";
+import { uiEngine, type UIComponent, type UIState, type UIStateEngine } from "./ui-state-engine";
+import { dataStore, DataStore, type DataEntry } from "./data-store";
+import { intentMemory, IntentMemoryEngine } from "./intent-memory";
+import { pendingConfirmations, type PendingConfirmationRegistry } from "./pending-confirmations";
+import {
+  getMemoryContext,
+  getPendingContext,
+  type MemoryContext,
+  type PendingConfirmation,
+} from "./orchestration-context";
+
+/**
+ * UI and data state at the time of a request
+ */
+export interface OrchestrationSnapshot {
+  ui: UIState;
+  data: Record<string, DataEntry>;
+  memory?: MemoryContext;
+  pendingConfirmations?: PendingConfirmation[];
+}
+
+/**
+ * Schema used to validate snapshots received over the network
+ */
+export const snapshotSchema = z.object({
+  ui: z.record(
+    z.string(),
+    z.object({
+      id: z.string(),
+      type: z.string(),
+      props: z.record(z.string(), z.unknown()),
+      visible: z.boolean(),
+      order: z.number().optional(),
+    })
+  ),
+  data: z.record(
+    z.string(),
+    z.object({
+      value: z.unknown(),
+      source: z.enum(["mock", "user", "computed"]),
+      timestamp: z.number(),
+    })
+  ),
+  memory: z
+    .object({
+      recentIntents: z.array(
+        z.object({
+          type: z.string(),
+          input: z.string(),
+          componentIds: z.array(z.string()),
+          timestamp: z.number(),
+        })
+      ),
+      activeReferences: z.record(z.string(), z.string()),
+    })
+    .optional(),
+  pendingConfirmations: z
+    .array(
+      z.object({
+        id: z.string(),
+        policy: z.string(),
+        expiresAt: z.number(),
+        title: z.string().optional(),
+        message: z.string().optional(),
+      })
+    )
+    .optional(),
+});
+
+/**
+ * Copy a component without its function-valued (handler) props
+ */
+export function stripComponentHandlers(comp: UIComponent): UIComponent {
+  const props = Object.fromEntries(
+    Object.entries(comp.props).filter(([, value]) => typeof value !== "function")
+  );
+  return { ...comp, props };
+}
+
+/**
+ * Copy a UI state without handler props, so it can be serialized
+ */
+export function stripHandlers(state: UIState): UIState {
+  const ui: UIState = {};
+  for (const [id, comp] of Object.entries(state)) {
+    ui[id] = stripComponentHandlers(comp);
+  }
+  return ui;
+}
+
+/**
+ * Capture the current UI, data and intent memory state
+ */
+export function createSnapshot(
+  engine: UIStateEngine = uiEngine,
+  store: DataStore = dataStore,
+  memory: IntentMemoryEngine = intentMemory,
+  pending: PendingConfirmationRegistry = pendingConfirmations
+): OrchestrationSnapshot {
+  const ui = stripHandlers(engine.getState());
+  return {
+    ui,
+    data: store.export(),
+    memory: getMemoryContext(memory),
+    pendingConfirmations: getPendingContext(pending, ui),
+  };
+}
+
+/**
+ * Rebuild intent memory from its context form
+ * Only recent intents travel with a snapshot; references keep their targets.
+ */
+function restoreMemory(context: MemoryContext | undefined): IntentMemoryEngine {
+  const memory = new IntentMemoryEngine();
+  if (!context) return memory;
+
+  const now = Date.now();
+  memory.import({
+    intents: context.recentIntents.map((intent, index) => ({
+      id: `snapshot_${index}`,
+      ...intent,
+    })),
+    references: new Map(
+      Object.entries(context.activeReferences).map(([key, componentId]) => [
+        key,
+        { key, componentId, timestamp: now },
+      ])
+    ),
+    currentIntentId: context.recentIntents.length > 0 ? `snapshot_${context.recentIntents.length - 1}` : null,
+  });
+  return memory;
+}
+
+/**
+ * Rebuild UI state, a standalone data store and intent memory from a snapshot
+ * The store starts from the same mock defaults, then matches the snapshot exactly.
+ */
+export function restoreSnapshot(snapshot: OrchestrationSnapshot): {
+  state: UIState;
+  data: DataStore;
+  memory: IntentMemoryEngine;
+} {
+  const data = new DataStore();
+
+  for (const key of data.keys()) {
+    if (!(key in snapshot.data)) {
+      data.delete(key);
+    }
+  }
+  data.import(snapshot.data);
+
+  return { state: { ...snapshot.ui }, data, memory: restoreMemory(snapshot.memory) };
+}
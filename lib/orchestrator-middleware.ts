@@ -0,0 +1,195 @@
+/**
+ * Orchestrator Middleware
+ *
+ * Extension points around a single processUserInput call:
+ *
+ *   beforeRequest  - rewrite the input before references are resolved
+ *   afterResponse  - inspect, modify (e.g. inject components) or veto the
+ *                    provider response before it is validated and applied
+ *   afterCommit    - observe the action once it has been applied to the UI
+ *
+ * Middleware runs in ascending `order` (default 0); ties run in registration
+ * order. Each hook sees the result of the previous one. Errors in
+ * beforeRequest/afterResponse fail the request; errors in afterCommit are
+ * logged, since the UI has already changed. Throw a PolicyViolationError to
+ * refuse a request: the user sees its reason and no retry button.
+ */
+
+import type { OrchestratorResponse } from "./orchestrator-providers";
+import type { OrchestrationContext } from "./orchestration-context";
+import type { OrchestratorAction } from "./ui-orchestrator";
+
+/**
+ * Information available to every hook
+ */
+export interface MiddlewareRequest {
+  /** Input as typed by the user, before any rewriting */
+  originalInput: string;
+  /** Input after beforeRequest hooks so far */
+  input: string;
+  /** Aborted when the request is cancelled */
+  signal?: AbortSignal;
+}
+
+/**
+ * Information available after the provider has answered
+ */
+export interface MiddlewareResponseRequest extends MiddlewareRequest {
+  /** Context the provider decided on */
+  context: OrchestrationContext;
+}
+
+/**
+ * Returned from afterResponse to stop the response from being applied
+ */
+export interface MiddlewareVeto {
+  veto: true;
+  reason: string;
+  /** Optional response to apply instead, e.g. an explanation */
+  replacement?: OrchestratorResponse;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * A middleware plugin
+ */
+export interface OrchestratorMiddleware {
+  /** Unique name, used for removal and in veto messages */
+  name: string;
+  /** Lower runs first (default 0) */
+  order?: number;
+  /** Return a string to replace the input */
+  beforeRequest?(request: MiddlewareRequest): MaybePromise<string | void>;
+  /** Return a response to replace it, or a veto to drop it */
+  afterResponse?(
+    response: OrchestratorResponse,
+    request: MiddlewareResponseRequest
+  ): MaybePromise<OrchestratorResponse | MiddlewareVeto | void>;
+  /** Observe the applied action */
+  afterCommit?(action: OrchestratorAction, request: MiddlewareRequest): MaybePromise<void>;
+}
+
+/**
+ * Outcome of the afterResponse hooks
+ */
+export interface AfterResponseResult {
+  response: OrchestratorResponse;
+  /** Set when a middleware vetoed the response */
+  veto?: MiddlewareVeto & { middleware: string };
+}
+
+/**
+ * Create a veto result
+ */
+export function veto(reason: string, replacement?: OrchestratorResponse): MiddlewareVeto {
+  return { veto: true, reason, replacement };
+}
+
+function isVeto(value: unknown): value is MiddlewareVeto {
+  return typeof value === "object" && value !== null && (value as MiddlewareVeto).veto === true;
+}
+
+/**
+ * Ordered middleware chain for one orchestrator
+ */
+export class MiddlewarePipeline {
+  private entries: Array<{ middleware: OrchestratorMiddleware; seq: number }> = [];
+  private nextSeq: number = 0;
+
+  /**
+   * Add a middleware; a middleware with the same name is replaced
+   * Returns a function that removes it again
+   */
+  use(middleware: OrchestratorMiddleware): () => void {
+    this.remove(middleware.name);
+    this.entries.push({ middleware, seq: this.nextSeq++ });
+    this.entries.sort(
+      (a, b) => (a.middleware.order ?? 0) - (b.middleware.order ?? 0) || a.seq - b.seq
+    );
+    return () => {
+      if (this.entries.some((e) => e.middleware === middleware)) {
+        this.remove(middleware.name);
+      }
+    };
+  }
+
+  /**
+   * Remove a middleware by name
+   */
+  remove(name: string): boolean {
+    const before = this.entries.length;
+    this.entries = this.entries.filter((e) => e.middleware.name !== name);
+    return this.entries.length < before;
+  }
+
+  /**
+   * Remove all middleware
+   */
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Get middleware in execution order
+   */
+  list(): OrchestratorMiddleware[] {
+    return this.entries.map((e) => e.middleware);
+  }
+
+  /**
+   * Run beforeRequest hooks, returning the final input
+   */
+  async runBeforeRequest(originalInput: string, signal?: AbortSignal): Promise<string> {
+    let input = originalInput;
+
+    for (const { middleware } of this.entries) {
+      if (!middleware.beforeRequest) continue;
+      const rewritten = await middleware.beforeRequest({ originalInput, input, signal });
+      if (typeof rewritten === "string") {
+        input = rewritten;
+      }
+      signal?.throwIfAborted();
+    }
+
+    return input;
+  }
+
+  /**
+   * Run afterResponse hooks until one vetoes
+   */
+  async runAfterResponse(
+    response: OrchestratorResponse,
+    request: MiddlewareResponseRequest
+  ): Promise<AfterResponseResult> {
+    let current = response;
+
+    for (const { middleware } of this.entries) {
+      if (!middleware.afterResponse) continue;
+      const result = await middleware.afterResponse(current, request);
+      if (isVeto(result)) {
+        return { response: current, veto: { ...result, middleware: middleware.name } };
+      }
+      if (result) {
+        current = result;
+      }
+      request.signal?.throwIfAborted();
+    }
+
+    return { response: current };
+  }
+
+  /**
+   * Run afterCommit hooks; failures are logged, not thrown
+   */
+  async runAfterCommit(action: OrchestratorAction, request: MiddlewareRequest): Promise<void> {
+    for (const { middleware } of this.entries) {
+      if (!middleware.afterCommit) continue;
+      try {
+        await middleware.afterCommit(action, request);
+      } catch (error) {
+        console.error(`Error in orchestrator middleware "${middleware.name}":`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,351 @@
+/**
+ * Orchestrator Providers
+ *
+ * Pluggable decision layer for the UI Orchestrator. A provider receives the
+ * user input plus the context built from the current UI and data state, and
+ * returns an OrchestratorResponse describing which components to render,
+ * update, or remove.
+ *
+ * Built-in providers:
+ * - server: the app's own /api/orchestrate route (keeps provider keys
+ *   server-side; default in the browser)
+ * - simulated: local pattern matching (default outside the browser, no network)
+ * - tambo: sends the context to a Tambo thread and parses the JSON reply
+ * - http: POSTs the request to any endpoint that speaks the same contract
+ */
+
+import type { UIAction, UIComponent } from "./ui-state-engine";
+import { simulateAIResponse } from "./orchestrator-simulator";
+import type { OrchestrationSnapshot } from "./orchestration-snapshot";
+import type { OrchestrationContext } from "./orchestration-context";
+import {
+  InvalidResponseError,
+  ProviderTimeoutError,
+  ProviderUnavailableError,
+} from "./orchestration-errors";
+
+/**
+ * Ordering or visibility change for an existing component
+ */
+export type LayoutAction = Extract<UIAction, { type: "show" | "hide" | "setOrder" }>;
+
+/**
+ * AI Orchestrator Response
+ */
+export interface OrchestratorResponse {
+  render: UIComponent[];
+  remove: string[];
+  update: Array<{ id: string; props: Record<string, unknown> }>;
+  /** Show/hide/reorder existing components, applied after render */
+  layout?: LayoutAction[];
+  notes: string;
+  debug?: {
+    reasoning: string;
+    componentDecisions: Array<{
+      id: string;
+      type: string;
+      reason: string;
+      confidence?: number;
+    }>;
+  };
+}
+
+/**
+ * Input handed to a provider for a single orchestration call
+ */
+export interface OrchestratorRequest {
+  /** User input, with resolved references annotated */
+  userInput: string;
+  /** Structured context produced by buildContext() */
+  context: OrchestrationContext;
+  /** Serialized UI/data state, for providers that run outside the client */
+  snapshot?: OrchestrationSnapshot;
+  /** Aborted when the request is cancelled or superseded */
+  signal?: AbortSignal;
+}
+
+/**
+ * Contract every decision provider implements
+ */
+export interface OrchestratorProvider {
+  /** Provider name, shown in debug output */
+  name: string;
+  /** Produce UI decisions for the given request */
+  generate(request: OrchestratorRequest): Promise<OrchestratorResponse>;
+}
+
+/**
+ * Provider selection as a plain config object
+ * Every kind but "tambo" is serializable (e.g. built from environment
+ * variables or passed from a server component); "tambo" carries the thread's
+ * send function and can only be created on the client.
+ */
+export type OrchestratorProviderConfig =
+  | { kind: "simulated" }
+  | { kind: "tambo"; sendThreadMessage: TamboSendMessage }
+  | { kind: "http"; url: string; headers?: Record<string, string>; timeoutMs?: number }
+  | { kind: "server"; url?: string; timeoutMs?: number };
+
+/**
+ * Normalize an untrusted payload into an OrchestratorResponse
+ * Missing lists default to empty; unparsable JSON or a non-object payload
+ * throws InvalidResponseError.
+ */
+export function parseOrchestratorResponse(raw: unknown): OrchestratorResponse {
+  let payload: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      payload = JSON.parse(extractJson(raw));
+    } catch (error) {
+      throw new InvalidResponseError("Orchestrator response is not valid JSON", { cause: error });
+    }
+  }
+
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    throw new InvalidResponseError("Orchestrator response must be a JSON object");
+  }
+
+  const response = payload as Partial<OrchestratorResponse>;
+
+  return {
+    render: Array.isArray(response.render) ? response.render : [],
+    remove: Array.isArray(response.remove) ? response.remove : [],
+    update: Array.isArray(response.update) ? response.update : [],
+    layout: Array.isArray(response.layout) ? response.layout : undefined,
+    notes: typeof response.notes === "string" ? response.notes : "",
+    debug: response.debug,
+  };
+}
+
+/**
+ * Pull the JSON object out of a model reply that may be wrapped in prose or code fences
+ */
+function extractJson(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) return fenced[1];
+
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start !== -1 && end > start) {
+    return text.slice(start, end + 1);
+  }
+
+  return text;
+}
+
+/**
+ * Simulated provider - pattern matching, runs entirely in-process
+ */
+export const simulatedProvider: OrchestratorProvider = {
+  name: "simulated",
+  async generate({ userInput, context, snapshot, signal }) {
+    signal?.throwIfAborted();
+    return simulateAIResponse(userInput, context, snapshot);
+  },
+};
+
+/**
+ * Subset of useTamboThread().sendThreadMessage used by the Tambo provider
+ */
+export type TamboSendMessage = (
+  message: string,
+  options?: { streamResponse?: boolean; additionalContext?: Record<string, unknown> }
+) => Promise<{ content: Array<{ type: string; text?: string | null }> }>;
+
+/**
+ * Tambo provider - sends the context to the current Tambo thread
+ *
+ * The thread is instructed to answer with OrchestratorResponse JSON only.
+ * Pass `sendThreadMessage` from the useTamboThread() hook.
+ */
+export function createTamboProvider(sendThreadMessage: TamboSendMessage): OrchestratorProvider {
+  return {
+    name: "tambo",
+    async generate({ userInput, context, signal }) {
+      signal?.throwIfAborted();
+      const reply = await sendThreadMessage(userInput, {
+        streamResponse: false,
+        additionalContext: {
+          uiOrchestrator: {
+            instructions:
+              "Respond ONLY with JSON matching { render, remove, update, layout, notes, debug }. " +
+              "`layout` lists { type: show | hide | setOrder, id, order } changes to existing components. " +
+              "`context` describes the visible components, available data (with sources), " +
+              "recent intents, active references and pending confirmations.",
+            context,
+          },
+        },
+      });
+
+      const text = reply.content
+        .filter((part) => part.type === "text" && part.text)
+        .map((part) => part.text)
+        .join("");
+
+      return parseOrchestratorResponse(text);
+    },
+  };
+}
+
+/**
+ * HTTP provider - POSTs the request as JSON and expects an OrchestratorResponse back
+ *
+ * Useful against a local stand-in server when a real model is not available.
+ * Timeouts throw ProviderTimeoutError; network failures and error statuses
+ * throw ProviderUnavailableError.
+ */
+export function createHttpProvider(options: {
+  url: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+  /** Provider name, shown in debug output and error messages */
+  name?: string;
+}): OrchestratorProvider {
+  const { url, headers = {}, timeoutMs = 15000 } = options;
+  const doFetch = options.fetch ?? fetch;
+
+  const name = options.name ?? "http";
+
+  return {
+    name,
+    async generate({ signal, ...request }) {
+      const controller = new AbortController();
+      const timer = setTimeout(
+        () => controller.abort(new ProviderTimeoutError(name, timeoutMs)),
+        timeoutMs
+      );
+      const onAbort = () => controller.abort(signal?.reason);
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      try {
+        signal?.throwIfAborted();
+        let res: Response;
+        try {
+          res = await doFetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...headers },
+            body: JSON.stringify(request),
+            signal: controller.signal,
+          });
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          if (controller.signal.reason instanceof ProviderTimeoutError) {
+            throw controller.signal.reason;
+          }
+          throw new ProviderUnavailableError(name, undefined, { cause: error });
+        }
+
+        if (!res.ok) {
+          throw new ProviderUnavailableError(name, res.status);
+        }
+
+        let body: unknown;
+        try {
+          body = await res.json();
+        } catch (error) {
+          if (controller.signal.reason instanceof ProviderTimeoutError) {
+            throw controller.signal.reason;
+          }
+          throw new InvalidResponseError("Orchestrator response is not valid JSON", { cause: error });
+        }
+        return parseOrchestratorResponse(body);
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      }
+    },
+  };
+}
+
+/**
+ * Default path of the server-side orchestration route
+ */
+export const SERVER_ORCHESTRATE_PATH = "/api/orchestrate";
+
+/**
+ * Server provider - runs the orchestrator in the /api/orchestrate route
+ *
+ * Same contract as the HTTP provider; the request carries a snapshot so the
+ * server sees the client's UI and data state.
+ */
+export function createServerProvider(
+  options: { url?: string; timeoutMs?: number; fetch?: typeof fetch } = {}
+): OrchestratorProvider {
+  return createHttpProvider({
+    ...options,
+    url: options.url ?? SERVER_ORCHESTRATE_PATH,
+    name: "server",
+  });
+}
+
+/**
+ * Create a provider from a config object
+ */
+export function createProvider(config: OrchestratorProviderConfig): OrchestratorProvider {
+  switch (config.kind) {
+    case "tambo":
+      return createTamboProvider(config.sendThreadMessage);
+    case "http":
+      return createHttpProvider(config);
+    case "server":
+      return createServerProvider(config);
+    case "simulated":
+    default:
+      return simulatedProvider;
+  }
+}
+
+/**
+ * Server provider that falls back to the simulated one when the app has no
+ * /api/orchestrate route (e.g. a static export)
+ * A missing route is remembered; other failures are reported as usual.
+ */
+function createServerProviderWithFallback(url?: string): OrchestratorProvider {
+  const server = createServerProvider({ url });
+  let routeMissing = false;
+
+  return {
+    name: server.name,
+    async generate(request) {
+      if (routeMissing) {
+        return simulatedProvider.generate(request);
+      }
+      try {
+        return await server.generate(request);
+      } catch (error) {
+        if (!(error instanceof ProviderUnavailableError) || error.status !== 404) {
+          throw error;
+        }
+        routeMissing = true;
+        return simulatedProvider.generate(request);
+      }
+    },
+  };
+}
+
+/**
+ * Default provider, selected via NEXT_PUBLIC_ORCHESTRATOR_PROVIDER
+ * ("simulated" | "http" | "server"). Without a setting, the browser uses the
+ * /api/orchestrate route and everything else (the server itself, scripts,
+ * tests) the simulated provider. The Tambo provider needs a live thread, so
+ * it is configured from React instead of the environment.
+ */
+export function getDefaultProvider(): OrchestratorProvider {
+  const kind = process.env.NEXT_PUBLIC_ORCHESTRATOR_PROVIDER;
+  const url = process.env.NEXT_PUBLIC_ORCHESTRATOR_URL;
+
+  if (kind === "server") {
+    return createServerProvider({ url });
+  }
+
+  if (kind === "http" && url) {
+    return createHttpProvider({ url });
+  }
+
+  if (!kind && typeof window !== "undefined") {
+    return createServerProviderWithFallback(url);
+  }
+
+  return simulatedProvider;
+}
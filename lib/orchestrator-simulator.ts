@@ -0,0 +1,99 @@
+/**
+ * Simulated AI Orchestrator
+ *
+ * Pattern-matching stand-in for a real model. Produces the same
+ * OrchestratorResponse JSON a provider would, using the data store and
+ * current UI state to decide which components to render.
+ */
+
+import { uiEngine } from "./ui-state-engine";
+import { dataStore } from "./data-store";
+import { intentMemory } from "./intent-memory";
+import type { OrchestratorResponse } from "./orchestrator-providers";
+import { restoreSnapshot, type OrchestrationSnapshot } from "./orchestration-snapshot";
+import type { OrchestrationContext } from "./orchestration-context";
+import { createRuleContext, evaluateRule } from "./intent-rules";
+import { splitIntents, mergeIntentResponses } from "./compound-intents";
+import { clarifyIntent, CLARIFICATION_ID } from "./intent-clarification";
+
+/**
+ * Helper to create debug data for a response
+ */
+export function createDebugData(
+  reasoning: string,
+  componentDecisions: Array<{
+    id: string;
+    type: string;
+    reason: string;
+    confidence?: number;
+  }>
+): OrchestratorResponse["debug"] {
+  return {
+    reasoning,
+    componentDecisions,
+  };
+}
+
+/**
+ * Simulated AI Response Function
+ *
+ * DEMONSTRATION: This function simulates AI-driven UI orchestration decisions
+ * using pattern matching. In production, the Tambo SDK would handle this.
+ *
+ * The simulation demonstrates Generative UI principles:
+ * - Intent-driven component rendering
+ * - Incremental UI mutations (not full resets)
+ * - Context-aware decisions based on current state
+ *
+ * Intents are declared in intent-rules.ts and evaluated in priority order.
+ * Compound inputs ("compare my salary and show my expenses") are split into
+ * one intent per clause and merged into a single response. A clause whose
+ * intent is unclear (no match, a weak match or a tie) renders a
+ * ClarificationPrompt instead of a guess; it is removed again once a later
+ * request is understood.
+ *
+ * GuardrailModals left on screen without a pending operation in the context
+ * (expired, or restored without one) are removed.
+ *
+ * When a snapshot is given (e.g. on the server, or by an orchestrator
+ * instance) it is used instead of the local UI engine, data store and intent
+ * memory.
+ */
+export function simulateAIResponse(
+  userInput: string,
+  context: OrchestrationContext,
+  snapshot?: OrchestrationSnapshot
+): OrchestratorResponse {
+  const { state, data, memory } = snapshot
+    ? restoreSnapshot(snapshot)
+    : { state: uiEngine.getState(), data: dataStore, memory: intentMemory };
+  const segments = splitIntents(userInput, data, state, memory);
+
+  const response = mergeIntentResponses(
+    segments.map((segment) => {
+      const ctx = createRuleContext(segment.input, data, state, memory);
+      return {
+        ...segment,
+        response: clarifyIntent(ctx) ?? evaluateRule(segment.rule, ctx, segment),
+      };
+    })
+  );
+
+  const rendered = new Set(response.render.map((c) => c.id));
+  const stale: string[] = [];
+
+  // The question is answered once a request is understood
+  if (state[CLARIFICATION_ID] && !rendered.has(CLARIFICATION_ID)) {
+    stale.push(CLARIFICATION_ID);
+  }
+
+  // A GuardrailModal whose operation is no longer pending confirms nothing
+  const pending = new Set(context.pendingConfirmations.map((confirmation) => confirmation.id));
+  for (const component of Object.values(state)) {
+    if (component.type === "GuardrailModal" && !pending.has(component.id) && !rendered.has(component.id)) {
+      stale.push(component.id);
+    }
+  }
+
+  return stale.length > 0 ? { ...response, remove: [...response.remove, ...stale] } : response;
+}
@@ -0,0 +1,152 @@
+/**
+ * Pending Confirmations
+ *
+ * Registry of operations waiting for the user to confirm a GuardrailModal.
+ * Each entry is keyed by the modal id and holds a typed payload and an expiry,
+ * so confirming runs exactly the operation the modal was shown for - never a
+ * different one that happens to share an id prefix - and a stale dialog can't
+ * trigger anything.
+ *
+ * Operation kinds are declared in PendingOperationTypes. New destructive flows
+ * add their kind via declaration merging:
+ *
+ *   declare module "./pending-confirmations" {
+ *     interface PendingOperationTypes { "archive-report": { reportId: string } }
+ *   }
+ */
+
+import type { GuardrailTicket } from "./guardrail-policies";
+
+/**
+ * Payload type for each kind of pending operation
+ */
+export interface PendingOperationTypes {
+  guardrail: GuardrailTicket;
+}
+
+export type PendingOperationKind = keyof PendingOperationTypes;
+
+/**
+ * An operation waiting for confirmation
+ */
+export interface PendingOperation<K extends PendingOperationKind = PendingOperationKind> {
+  /** Id of the GuardrailModal that asks for confirmation */
+  modalId: string;
+  kind: K;
+  payload: PendingOperationTypes[K];
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Result of taking an operation for confirmation
+ */
+export type TakeResult =
+  | { status: "ok"; operation: PendingOperation }
+  | { status: "expired"; operation: PendingOperation }
+  | { status: "missing" };
+
+/**
+ * Default time a confirmation stays valid (5 minutes)
+ */
+export const DEFAULT_CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Pending confirmation registry
+ */
+export class PendingConfirmationRegistry {
+  private operations: Map<string, PendingOperation> = new Map();
+
+  constructor(private ttlMs: number = DEFAULT_CONFIRMATION_TTL_MS) {}
+
+  /**
+   * Store the operation a modal confirms; replaces any earlier one for that modal
+   */
+  register<K extends PendingOperationKind>(
+    modalId: string,
+    kind: K,
+    payload: PendingOperationTypes[K],
+    options: { ttlMs?: number; now?: number } = {}
+  ): PendingOperation<K> {
+    const now = options.now ?? Date.now();
+    const operation: PendingOperation<K> = {
+      modalId,
+      kind,
+      payload,
+      createdAt: now,
+      expiresAt: now + (options.ttlMs ?? this.ttlMs),
+    };
+    this.operations.set(modalId, operation);
+    return operation;
+  }
+
+  /**
+   * Get the operation for a modal without removing it
+   */
+  get(modalId: string): PendingOperation | undefined {
+    return this.operations.get(modalId);
+  }
+
+  /**
+   * Remove and return the operation for a modal, checking its expiry
+   */
+  take(modalId: string, now: number = Date.now()): TakeResult {
+    const operation = this.operations.get(modalId);
+    if (!operation) return { status: "missing" };
+
+    this.operations.delete(modalId);
+    return operation.expiresAt < now
+      ? { status: "expired", operation }
+      : { status: "ok", operation };
+  }
+
+  /**
+   * Drop the operation for a modal (cancelled or modal removed)
+   */
+  discard(modalId: string): boolean {
+    return this.operations.delete(modalId);
+  }
+
+  /**
+   * Drop expired operations, returning their modal ids
+   */
+  purgeExpired(now: number = Date.now()): string[] {
+    const expired: string[] = [];
+    for (const [modalId, operation] of this.operations) {
+      if (operation.expiresAt < now) {
+        this.operations.delete(modalId);
+        expired.push(modalId);
+      }
+    }
+    return expired;
+  }
+
+  /**
+   * List pending operations
+   */
+  list(): PendingOperation[] {
+    return Array.from(this.operations.values());
+  }
+
+  /**
+   * Drop all pending operations
+   */
+  clear(): void {
+    this.operations.clear();
+  }
+}
+
+/**
+ * Narrow an operation to a specific kind
+ */
+export function isPendingOperation<K extends PendingOperationKind>(
+  operation: PendingOperation,
+  kind: K
+): operation is PendingOperation<K> {
+  return operation.kind === kind;
+}
+
+/**
+ * Singleton instance
+ */
+export const pendingConfirmations = new PendingConfirmationRegistry();
@@ -0,0 +1,332 @@
+/**
+ * Orchestrator Response Validator
+ *
+ * Checks an OrchestratorResponse against the component schemas before it
+ * reaches the UI state engine. Invalid entries are repaired when the fix is
+ * unambiguous (numeric strings, bad optional props, malformed list items) and
+ * dropped otherwise. Every change is reported so the DebugPanel can show
+ * what was thrown away and why.
+ */
+
+import type { z } from "zod";
+import type { UIComponent, UIState } from "./ui-state-engine";
+import type { LayoutAction, OrchestratorResponse } from "./orchestrator-providers";
+import { getComponentSchema } from "./component-schemas";
+
+/**
+ * A render/update/remove/layout entry that was dropped or repaired
+ */
+export interface ValidationRejection {
+  /** Which list the entry came from */
+  action: "render" | "update" | "remove" | "layout";
+  /** Component id, or "(missing)" when the entry had none */
+  id: string;
+  /** Component type, when known */
+  type: string;
+  /** Whether the entry was discarded or fixed up */
+  outcome: "dropped" | "repaired";
+  /** Human-readable explanation */
+  reason: string;
+}
+
+/**
+ * Result of validating a response
+ */
+export interface ValidationResult {
+  /** Response containing only valid (or repaired) entries */
+  response: OrchestratorResponse;
+  /** Entries that were dropped or repaired */
+  rejections: ValidationRejection[];
+}
+
+/**
+ * Maximum repair passes (one fix per pass) before giving up on a props object
+ */
+const MAX_REPAIR_PASSES = 10;
+
+type PropsCheck =
+  | { ok: true; props: Record<string, unknown>; repairs: string[] }
+  | { ok: false; reason: string };
+
+/**
+ * Format a zod issue path, e.g. data[0] or cards[1].title
+ */
+function formatPath(path: PropertyKey[]): string {
+  return path
+    .map((key, i) => (typeof key === "number" ? `[${key}]` : i === 0 ? String(key) : `.${String(key)}`))
+    .join("");
+}
+
+/**
+ * Read a nested value by path
+ */
+function getAtPath(target: unknown, path: PropertyKey[]): unknown {
+  let current = target as Record<PropertyKey, unknown> | undefined;
+  for (const key of path) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = current[key] as Record<PropertyKey, unknown> | undefined;
+  }
+  return current;
+}
+
+/**
+ * Write a nested value by path (parent containers must already exist)
+ */
+function setAtPath(target: unknown, path: PropertyKey[], value: unknown): void {
+  const parent = getAtPath(target, path.slice(0, -1)) as Record<PropertyKey, unknown>;
+  parent[path[path.length - 1]] = value;
+}
+
+/**
+ * Try to fix a single schema issue in place
+ * Returns a description of the repair, or null if it could not be repaired.
+ */
+function repairIssue(
+  props: Record<string, unknown>,
+  issue: z.core.$ZodIssue,
+  schema: z.ZodObject
+): string | null {
+  const path = issue.path;
+  const value = getAtPath(props, path);
+  const location = formatPath(path);
+
+  // Coerce primitive type mismatches
+  if (issue.code === "invalid_type" && path.length > 0) {
+    if (issue.expected === "number" && typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))) {
+      setAtPath(props, path, Number(value));
+      return `${location}: coerced "${value}" to number`;
+    }
+    if (issue.expected === "string" && (typeof value === "number" || typeof value === "boolean")) {
+      setAtPath(props, path, String(value));
+      return `${location}: coerced ${value} to string`;
+    }
+  }
+
+  // Drop a malformed item from a list prop
+  const indexPos = path.findIndex((key) => typeof key === "number");
+  if (indexPos > 0) {
+    const list = getAtPath(props, path.slice(0, indexPos));
+    if (Array.isArray(list)) {
+      list.splice(path[indexPos] as number, 1);
+      return `${formatPath(path.slice(0, indexPos + 1))}: removed invalid item (${issue.message})`;
+    }
+  }
+
+  // Remove an invalid optional prop so the component default applies
+  const topKey = path[0];
+  if (typeof topKey === "string" && topKey in props) {
+    const field = schema.shape[topKey] as z.ZodType | undefined;
+    if (field && field.safeParse(undefined).success) {
+      delete props[topKey];
+      return `${topKey}: removed invalid value (${issue.message})`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate props against a schema, repairing where possible
+ */
+function checkProps(rawProps: unknown, schema: z.ZodObject): PropsCheck {
+  if (rawProps !== undefined && (rawProps === null || typeof rawProps !== "object" || Array.isArray(rawProps))) {
+    return { ok: false, reason: "props must be an object" };
+  }
+
+  // Work on a deep copy so the provider's payload is never mutated
+  const props = structuredClone((rawProps ?? {}) as Record<string, unknown>);
+  const repairs: string[] = [];
+
+  for (let pass = 0; pass < MAX_REPAIR_PASSES; pass++) {
+    const result = schema.safeParse(props);
+    if (result.success) {
+      return { ok: true, props, repairs };
+    }
+
+    // Repair issues from the deepest path first so list indices stay valid
+    const issues = [...result.error.issues].sort((a, b) => b.path.length - a.path.length);
+    let repairedAny = false;
+    for (const issue of issues) {
+      const repair = repairIssue(props, issue, schema);
+      if (repair) {
+        repairs.push(repair);
+        repairedAny = true;
+        break;
+      }
+    }
+
+    if (!repairedAny) {
+      const issue = issues[0];
+      return { ok: false, reason: `${formatPath(issue.path) || "props"}: ${issue.message}` };
+    }
+  }
+
+  const final = schema.safeParse(props);
+  if (final.success) {
+    return { ok: true, props, repairs };
+  }
+  const issue = final.error.issues[0];
+  return { ok: false, reason: `${formatPath(issue.path) || "props"}: ${issue.message}` };
+}
+
+/**
+ * Derive an id for a component that arrived without one
+ */
+function deriveId(type: string, taken: Set<string>): string {
+  const base = type.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase();
+  let id = base;
+  let n = 2;
+  while (taken.has(id)) {
+    id = `${base}-${n++}`;
+  }
+  return id;
+}
+
+/**
+ * Validate a response against the component schemas and current UI state
+ */
+export function validateOrchestratorResponse(
+  response: OrchestratorResponse,
+  state: UIState
+): ValidationResult {
+  const rejections: ValidationRejection[] = [];
+  const render: UIComponent[] = [];
+  const update: OrchestratorResponse["update"] = [];
+  const remove: string[] = [];
+
+  const takenIds = new Set<string>([
+    ...Object.keys(state),
+    ...(response.render || [])
+      .map((c) => c?.id)
+      .filter((id): id is string => typeof id === "string" && id.length > 0),
+  ]);
+
+  // Render entries
+  for (const entry of response.render || []) {
+    const comp = (entry ?? {}) as Partial<UIComponent>;
+    const type = typeof comp.type === "string" ? comp.type : "";
+    let id = typeof comp.id === "string" ? comp.id.trim() : "";
+    const label = id || "(missing)";
+
+    const schema = getComponentSchema(type);
+    if (!schema) {
+      rejections.push({
+        action: "render",
+        id: label,
+        type: type || "(missing)",
+        outcome: "dropped",
+        reason: type ? `Unknown component type "${type}"` : "Component has no type",
+      });
+      continue;
+    }
+
+    const check = checkProps(comp.props, schema.propsSchema);
+    if (!check.ok) {
+      rejections.push({ action: "render", id: label, type, outcome: "dropped", reason: check.reason });
+      continue;
+    }
+
+    const repairs = [...check.repairs];
+    if (!id) {
+      id = deriveId(type, takenIds);
+      takenIds.add(id);
+      repairs.push(`missing id: assigned "${id}"`);
+    }
+
+    const order = typeof comp.order === "number" && isFinite(comp.order) ? comp.order : undefined;
+    if (comp.order !== undefined && order === undefined) {
+      repairs.push(`order: removed invalid value ${JSON.stringify(comp.order)}`);
+    }
+
+    if (repairs.length > 0) {
+      rejections.push({ action: "render", id, type, outcome: "repaired", reason: repairs.join("; ") });
+    }
+
+    render.push({
+      id,
+      type,
+      props: check.props,
+      visible: comp.visible !== false,
+      order,
+    });
+  }
+
+  // Update entries - target must exist now or be rendered by this response
+  const renderedTypes = new Map(render.map((c) => [c.id, c.type]));
+  for (const entry of response.update || []) {
+    const id = typeof entry?.id === "string" ? entry.id : "";
+    const type = state[id]?.type ?? renderedTypes.get(id);
+
+    if (!id || !type) {
+      rejections.push({
+        action: "update",
+        id: id || "(missing)",
+        type: type ?? "(unknown)",
+        outcome: "dropped",
+        reason: id ? `No component with id "${id}" to update` : "Update has no id",
+      });
+      continue;
+    }
+
+    const schema = getComponentSchema(type);
+    if (!schema) {
+      rejections.push({ action: "update", id, type, outcome: "dropped", reason: `Unknown component type "${type}"` });
+      continue;
+    }
+
+    const check = checkProps(entry.props, schema.propsSchema.partial());
+    if (!check.ok) {
+      rejections.push({ action: "update", id, type, outcome: "dropped", reason: check.reason });
+      continue;
+    }
+    if (check.repairs.length > 0) {
+      rejections.push({ action: "update", id, type, outcome: "repaired", reason: check.repairs.join("; ") });
+    }
+
+    update.push({ id, props: check.props });
+  }
+
+  // Remove entries - ids only; removing an absent id is a harmless no-op
+  for (const id of response.remove || []) {
+    if (typeof id === "string" && id.length > 0) {
+      remove.push(id);
+    } else {
+      rejections.push({
+        action: "remove",
+        id: "(missing)",
+        type: "(unknown)",
+        outcome: "dropped",
+        reason: `Invalid component id ${JSON.stringify(id)}`,
+      });
+    }
+  }
+
+  // Layout entries - target must exist now or be rendered by this response
+  const layout: LayoutAction[] = [];
+  for (const entry of response.layout ?? []) {
+    const change = (entry ?? {}) as Partial<LayoutAction>;
+    const id = typeof change.id === "string" ? change.id : "";
+    const type = state[id]?.type ?? renderedTypes.get(id) ?? "(unknown)";
+    const drop = (reason: string) =>
+      rejections.push({ action: "layout", id: id || "(missing)", type, outcome: "dropped", reason });
+
+    if (!id || type === "(unknown)") {
+      drop(id ? `No component with id "${id}" to lay out` : "Layout change has no id");
+    } else if (change.type === "show" || change.type === "hide") {
+      layout.push({ type: change.type, id });
+    } else if (change.type === "setOrder") {
+      if (typeof change.order === "number" && isFinite(change.order)) {
+        layout.push({ type: "setOrder", id, order: change.order });
+      } else {
+        drop(`Invalid order ${JSON.stringify(change.order)}`);
+      }
+    } else {
+      drop(`Unknown layout change ${JSON.stringify(change.type)}`);
+    }
+  }
+
+  return {
+    response: { ...response, render, update, remove, layout: layout.length > 0 ? layout : undefined },
+    rejections,
+  };
+}
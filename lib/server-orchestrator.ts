@@ -0,0 +1,101 @@
+/**
+ * Server Orchestrator
+ *
+ * Runs an orchestration request on the server for the /api/orchestrate route.
+ * The client sends its input plus a snapshot of its UI and data state; the
+ * server rebuilds the context from the snapshot, asks the server-side
+ * provider, and returns the OrchestratorResponse. The client still validates
+ * and executes the response, so handlers and UI state stay in the browser.
+ *
+ * Server provider selection (never exposed to the browser):
+ * - ORCHESTRATOR_PROVIDER: "simulated" (default) | "http"
+ * - ORCHESTRATOR_URL: endpoint for the http provider
+ * - ORCHESTRATOR_API_KEY: sent as a bearer token to that endpoint
+ */
+
+import { z } from "zod";
+import {
+  createHttpProvider,
+  simulatedProvider,
+  type OrchestratorProvider,
+  type OrchestratorResponse,
+} from "./orchestrator-providers";
+import { ProviderTimeoutError } from "./orchestration-errors";
+import { buildContext } from "./orchestration-context";
+import { restoreSnapshot, snapshotSchema, type OrchestrationSnapshot } from "./orchestration-snapshot";
+
+/**
+ * Body accepted by /api/orchestrate
+ */
+export const orchestrateRequestSchema = z.object({
+  userInput: z.string().trim().min(1),
+  snapshot: snapshotSchema,
+});
+
+export type OrchestrateRequestBody = z.infer<typeof orchestrateRequestSchema>;
+
+/**
+ * Error with the HTTP status the route should answer with
+ */
+export class OrchestrateError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "OrchestrateError";
+  }
+}
+
+/**
+ * Provider used on the server, configured from server-only environment variables
+ */
+export function getServerProvider(): OrchestratorProvider {
+  const kind = process.env.ORCHESTRATOR_PROVIDER;
+  const url = process.env.ORCHESTRATOR_URL;
+  const apiKey = process.env.ORCHESTRATOR_API_KEY;
+
+  if (kind === "http" && url) {
+    return createHttpProvider({
+      url,
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+    });
+  }
+
+  return simulatedProvider;
+}
+
+/**
+ * Validate a request body and run the orchestrator against its snapshot
+ * Throws OrchestrateError with 400 for bad input, 504 when the provider timed
+ * out and 502 for other provider failures.
+ */
+export async function orchestrateOnServer(
+  body: unknown,
+  options: { provider?: OrchestratorProvider; signal?: AbortSignal } = {}
+): Promise<OrchestratorResponse> {
+  const parsed = orchestrateRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new OrchestrateError(
+      `Invalid request: ${issue ? `${issue.path.join(".") || "body"} ${issue.message}` : "malformed body"}`,
+      400
+    );
+  }
+
+  const { userInput } = parsed.data;
+  const snapshot = parsed.data.snapshot as OrchestrationSnapshot;
+  const { state, data } = restoreSnapshot(snapshot);
+  const context = buildContext(userInput, state, data, snapshot.memory, snapshot.pendingConfirmations);
+  const provider = options.provider ?? getServerProvider();
+
+  try {
+    return await provider.generate({ userInput, context, snapshot, signal: options.signal });
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    throw new OrchestrateError(
+      `Provider "${provider.name}" failed: ${error instanceof Error ? error.message : String(error)}`,
+      error instanceof ProviderTimeoutError ? 504 : 502
+    );
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * Session Recorder
+ *
+ * Records every call into the orchestrator's entry points (processUserInput,
+ * handleFormSubmission, confirmDestructiveAction, cancelDestructiveAction) so a
+ * session can be inspected or replayed later (see session-replay.ts).
+ *
+ * Each step stores the event, its timing, the data store before and after,
+ * the provider responses it received, the resulting action and the UI state it
+ * left behind. Calls made from inside another entry point (a form submission
+ * re-entering processUserInput) belong to the outer step.
+ */
+
+import { uiEngine, type UIState, type UIStateEngine } from "./ui-state-engine";
+import { dataStore, type DataEntry, type DataStore } from "./data-store";
+import {
+  intentMemory,
+  type ComponentReference,
+  type Intent,
+  type IntentMemoryEngine,
+} from "./intent-memory";
+import {
+  pendingConfirmations,
+  type PendingConfirmationRegistry,
+  type PendingOperation,
+} from "./pending-confirmations";
+import { stripComponentHandlers, stripHandlers } from "./orchestration-snapshot";
+import { isAbortError } from "./orchestration-queue";
+import type { OrchestratorResponse } from "./orchestrator-providers";
+import type { OrchestratorAction } from "./ui-orchestrator";
+
+/**
+ * A call into one of the orchestrator entry points
+ */
+export type SessionEvent =
+  | { kind: "input"; input: string }
+  | { kind: "form"; formData: Record<string, unknown> }
+  /** `waitedMs` is how long the modal had been pending when it was confirmed */
+  | { kind: "confirm"; modalId: string; phrase?: string; waitedMs?: number }
+  | { kind: "cancel"; modalId: string };
+
+/**
+ * Intent memory in a JSON-friendly form
+ */
+export interface RecordedMemory {
+  intents: Intent[];
+  references: Array<[string, ComponentReference]>;
+  currentIntentId: string | null;
+}
+
+/**
+ * Orchestrator state a recording starts from
+ */
+export interface RecordedState {
+  ui: UIState;
+  data: Record<string, DataEntry>;
+  memory: RecordedMemory;
+  pending: PendingOperation[];
+}
+
+/**
+ * One recorded entry point call
+ */
+export interface RecordedStep {
+  seq: number;
+  event: SessionEvent;
+  startedAt: number;
+  durationMs: number;
+  dataBefore: Record<string, DataEntry>;
+  dataAfter: Record<string, DataEntry>;
+  /** Provider responses in call order */
+  responses: OrchestratorResponse[];
+  /** Resulting action (handler props stripped); null when the call failed */
+  action: OrchestratorAction | null;
+  /** UI state after the call */
+  ui: UIState;
+  /** Set when the call was cancelled before its actions were applied */
+  aborted?: boolean;
+  error?: string;
+}
+
+/**
+ * A complete recording
+ */
+export interface SessionRecording {
+  version: 1;
+  startedAt: number;
+  endedAt: number | null;
+  initial: RecordedState;
+  steps: RecordedStep[];
+  /** UI state when recording stopped */
+  final: UIState | null;
+}
+
+/**
+ * Recorder state exposed to the UI
+ */
+export interface RecorderSnapshot {
+  recording: boolean;
+  steps: number;
+}
+
+type OpenStep = Omit<RecordedStep, "durationMs" | "dataAfter" | "action" | "ui">;
+
+/**
+ * Serialize intent memory (its references are a Map)
+ */
+export function exportMemory(memory: IntentMemoryEngine): RecordedMemory {
+  const { intents, references, currentIntentId } = memory.export();
+  return { intents, references: Array.from(references.entries()), currentIntentId };
+}
+
+/**
+ * Capture UI, data, intent memory and pending confirmations in a serializable form
+ */
+export function captureState(
+  engine: UIStateEngine,
+  store: DataStore,
+  memory: IntentMemoryEngine,
+  pending: PendingConfirmationRegistry
+): RecordedState {
+  return {
+    ui: stripHandlers(engine.getState()),
+    data: store.export(),
+    memory: exportMemory(memory),
+    pending: pending.list(),
+  };
+}
+
+/**
+ * Copy an action without handler props
+ */
+function stripAction(action: OrchestratorAction): OrchestratorAction {
+  return {
+    ...action,
+    render: action.render.map(stripComponentHandlers),
+  };
+}
+
+/**
+ * Session recorder class
+ */
+export class SessionRecorder {
+  private current: SessionRecording | null = null;
+  private openStep: OpenStep | null = null;
+  private depth: number = 0;
+  private listeners: Set<(snapshot: RecorderSnapshot) => void> = new Set();
+
+  constructor(
+    private engine: UIStateEngine,
+    private store: DataStore,
+    private memory: IntentMemoryEngine,
+    private pending: PendingConfirmationRegistry
+  ) {}
+
+  /**
+   * Start a new recording from the current state
+   */
+  start(): void {
+    this.current = {
+      version: 1,
+      startedAt: Date.now(),
+      endedAt: null,
+      initial: captureState(this.engine, this.store, this.memory, this.pending),
+      steps: [],
+      final: null,
+    };
+    this.openStep = null;
+    this.depth = 0;
+    this.notify();
+  }
+
+  /**
+   * Stop recording and return the finished recording
+   */
+  stop(): SessionRecording | null {
+    const recording = this.current;
+    if (recording) {
+      recording.endedAt = Date.now();
+      recording.final = stripHandlers(this.engine.getState());
+    }
+    this.current = null;
+    this.openStep = null;
+    this.depth = 0;
+    this.notify();
+    return recording;
+  }
+
+  isRecording(): boolean {
+    return this.current !== null;
+  }
+
+  /**
+   * Get the recording in progress
+   */
+  getRecording(): SessionRecording | null {
+    return this.current;
+  }
+
+  /**
+   * Run an entry point, recording it as a step while a recording is active
+   * Works for both sync and async entry points.
+   */
+  record<T extends OrchestratorAction | Promise<OrchestratorAction>>(
+    event: SessionEvent,
+    run: () => T
+  ): T {
+    this.begin(event);
+
+    let result: T;
+    try {
+      result = run();
+    } catch (error) {
+      this.end(null, error);
+      throw error;
+    }
+
+    if (result instanceof Promise) {
+      return result.then(
+        (action) => {
+          this.end(action);
+          return action;
+        },
+        (error) => {
+          this.end(null, error);
+          throw error;
+        }
+      ) as T;
+    }
+
+    this.end(result as OrchestratorAction);
+    return result;
+  }
+
+  /**
+   * Note a provider response for the current step
+   */
+  noteResponse(response: OrchestratorResponse): void {
+    this.openStep?.responses.push(response);
+  }
+
+  /**
+   * Get recorder state
+   */
+  getSnapshot(): RecorderSnapshot {
+    return { recording: this.current !== null, steps: this.current?.steps.length ?? 0 };
+  }
+
+  /**
+   * Subscribe to recorder changes
+   */
+  subscribe(listener: (snapshot: RecorderSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private begin(event: SessionEvent): void {
+    this.depth++;
+    if (this.depth > 1 || !this.current) return;
+
+    this.openStep = {
+      seq: this.current.steps.length,
+      event,
+      startedAt: Date.now(),
+      dataBefore: this.store.export(),
+      responses: [],
+    };
+  }
+
+  private end(action: OrchestratorAction | null, error?: unknown): void {
+    this.depth = Math.max(0, this.depth - 1);
+    if (this.depth > 0 || !this.current || !this.openStep) return;
+
+    const step: RecordedStep = {
+      ...this.openStep,
+      durationMs: Date.now() - this.openStep.startedAt,
+      dataAfter: this.store.export(),
+      action: action ? stripAction(action) : null,
+      ui: stripHandlers(this.engine.getState()),
+    };
+    if (isAbortError(error)) {
+      step.aborted = true;
+    } else if (error !== undefined) {
+      step.error = error instanceof Error ? error.message : String(error);
+    }
+
+    this.current.steps.push(step);
+    this.openStep = null;
+    this.notify();
+  }
+
+  private notify(): void {
+    const snapshot = this.getSnapshot();
+    for (const listener of this.listeners) {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        console.error("Error in session recorder listener:", error);
+      }
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const sessionRecorder = new SessionRecorder(
+  uiEngine,
+  dataStore,
+  intentMemory,
+  pendingConfirmations
+);
@@ -0,0 +1,300 @@
+/**
+ * Session Replay
+ *
+ * Re-runs a SessionRecording (see session-recorder.ts) through the orchestrator
+ * and reports where the resulting UI state and data differ from the recording.
+ *
+ * Replay runs on a fresh orchestrator by default, loaded with the recording's
+ * initial state, so the live UI and data are never touched. An orchestrator
+ * passed in is reset to that state instead, replacing whatever it shows. Each step
+ * is answered with the provider responses captured while recording, which
+ * makes replay deterministic even for LLM-backed sessions; pass a provider to
+ * ask it again instead and see how its decisions have changed.
+ */
+
+import type { UIComponent, UIState } from "./ui-state-engine";
+import type { DataEntry } from "./data-store";
+import { stripHandlers } from "./orchestration-snapshot";
+import { isAbortError } from "./orchestration-queue";
+import type {
+  RecordedStep,
+  SessionEvent,
+  SessionRecording,
+} from "./session-recorder";
+import type { OrchestratorProvider, OrchestratorResponse } from "./orchestrator-providers";
+import {
+  createOrchestrator,
+  type OrchestratorAction,
+  type UIOrchestrator,
+} from "./ui-orchestrator";
+
+/**
+ * A difference between the recorded and replayed UI state
+ */
+export type UIDivergence =
+  | { id: string; kind: "missing"; expected: UIComponent }
+  | { id: string; kind: "unexpected"; actual: UIComponent }
+  | { id: string; kind: "changed"; fields: string[]; expected: UIComponent; actual: UIComponent };
+
+/**
+ * A data store key whose value or source differs after replay
+ */
+export interface DataDivergence {
+  key: string;
+  expected: Pick<DataEntry, "value" | "source"> | null;
+  actual: Pick<DataEntry, "value" | "source"> | null;
+}
+
+/**
+ * Outcome of replaying one step
+ */
+export interface StepReport {
+  seq: number;
+  event: SessionEvent;
+  ui: UIDivergence[];
+  data: DataDivergence[];
+  /** Set when the replayed call failed but the recorded one did not, or vice versa */
+  error?: string;
+}
+
+/**
+ * Outcome of a replay
+ */
+export interface ReplayReport {
+  matched: boolean;
+  steps: StepReport[];
+  /** Differences between the UI state when recording stopped and after replay */
+  final: UIDivergence[];
+}
+
+export interface ReplayOptions {
+  /** Ask this provider instead of using the recorded responses */
+  provider?: OrchestratorProvider;
+  /** Called after each step */
+  onStep?: (report: StepReport) => void;
+  /** Orchestrator to replay into (defaults to a new one); its state is replaced */
+  orchestrator?: UIOrchestrator;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Compare two UI states (handler props are ignored)
+ */
+export function diffUIState(expected: UIState, actual: UIState): UIDivergence[] {
+  const divergences: UIDivergence[] = [];
+  const expectedUI = stripHandlers(expected);
+  const actualUI = stripHandlers(actual);
+
+  for (const [id, exp] of Object.entries(expectedUI)) {
+    const act = actualUI[id];
+    if (!act) {
+      divergences.push({ id, kind: "missing", expected: exp });
+      continue;
+    }
+
+    const fields: string[] = [];
+    if (exp.type !== act.type) fields.push("type");
+    if (exp.visible !== act.visible) fields.push("visible");
+    if (exp.order !== act.order) fields.push("order");
+    const propKeys = new Set([...Object.keys(exp.props), ...Object.keys(act.props)]);
+    for (const key of propKeys) {
+      if (!sameValue(exp.props[key], act.props[key])) fields.push(`props.${key}`);
+    }
+
+    if (fields.length > 0) {
+      divergences.push({ id, kind: "changed", fields, expected: exp, actual: act });
+    }
+  }
+
+  for (const [id, act] of Object.entries(actualUI)) {
+    if (!expectedUI[id]) {
+      divergences.push({ id, kind: "unexpected", actual: act });
+    }
+  }
+
+  return divergences;
+}
+
+/**
+ * Compare two data store exports by value and source (timestamps are ignored)
+ */
+export function diffData(
+  expected: Record<string, DataEntry>,
+  actual: Record<string, DataEntry>
+): DataDivergence[] {
+  const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+  const divergences: DataDivergence[] = [];
+
+  for (const key of keys) {
+    const exp = expected[key];
+    const act = actual[key];
+    if (exp && act && exp.source === act.source && sameValue(exp.value, act.value)) continue;
+
+    divergences.push({
+      key,
+      expected: exp ? { value: exp.value, source: exp.source } : null,
+      actual: act ? { value: act.value, source: act.source } : null,
+    });
+  }
+
+  return divergences.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Make a pending confirmation as old as it was when the recording confirmed it
+ * Replay runs steps back to back, so a policy that makes the user wait would
+ * otherwise refuse a confirmation the recording accepted.
+ */
+function backdateConfirmation(orchestrator: UIOrchestrator, modalId: string, waitedMs?: number): void {
+  const operation = orchestrator.pending.get(modalId);
+  if (!operation || waitedMs === undefined) return;
+
+  orchestrator.pending.register(modalId, operation.kind, operation.payload, {
+    ttlMs: operation.expiresAt - operation.createdAt,
+    now: Date.now() - waitedMs,
+  });
+}
+
+/**
+ * Run a recorded event through the matching entry point
+ */
+function runEvent(
+  orchestrator: UIOrchestrator,
+  event: SessionEvent,
+  signal: AbortSignal
+): Promise<OrchestratorAction> {
+  switch (event.kind) {
+    case "input":
+      return orchestrator.processUserInput(event.input, { signal });
+    case "form":
+      return orchestrator.handleFormSubmission(event.formData, { signal });
+    case "confirm":
+      backdateConfirmation(orchestrator, event.modalId, event.waitedMs);
+      return Promise.resolve(orchestrator.confirmDestructiveAction(event.modalId, { phrase: event.phrase }));
+    case "cancel":
+      return Promise.resolve(orchestrator.cancelDestructiveAction(event.modalId));
+  }
+}
+
+/**
+ * Provider that answers with the responses recorded for the current step
+ * For a step that was cancelled, the request is aborted once the recorded
+ * responses run out - the same point it was cancelled originally.
+ */
+function createRecordedProvider() {
+  let responses: OrchestratorResponse[] = [];
+  let step: RecordedStep | null = null;
+  let controller = new AbortController();
+
+  const provider: OrchestratorProvider = {
+    name: "recorded",
+    async generate() {
+      const response = responses.shift();
+      if (step?.aborted && responses.length === 0) {
+        controller.abort();
+      }
+      if (response) return response;
+
+      controller.signal.throwIfAborted();
+      throw new Error(`No recorded provider response for step ${step?.seq ?? "?"}`);
+    },
+  };
+
+  return {
+    provider,
+    load(next: RecordedStep): AbortSignal {
+      step = next;
+      responses = [...next.responses];
+      controller = new AbortController();
+      return controller.signal;
+    },
+  };
+}
+
+/**
+ * Replay a recording and report divergences
+ * Throws if a recording is in progress, since replay would be recorded into it.
+ */
+export async function replaySession(
+  recording: SessionRecording,
+  options: ReplayOptions = {}
+): Promise<ReplayReport> {
+  const orchestrator = options.orchestrator ?? createOrchestrator();
+  if (orchestrator.recorder.isRecording()) {
+    throw new Error("Stop the current recording before replaying a session");
+  }
+
+  const recorded = createRecordedProvider();
+  const previousProvider = orchestrator.getProvider();
+  orchestrator.setProvider(options.provider ?? recorded.provider);
+
+  const steps: StepReport[] = [];
+  try {
+    orchestrator.loadState(recording.initial);
+
+    for (const step of recording.steps) {
+      let signal = recorded.load(step);
+      if (options.provider && step.aborted) {
+        // A live provider can't stop at the recorded point; skip the call entirely
+        signal = AbortSignal.abort();
+      }
+
+      let error: string | undefined;
+      try {
+        await runEvent(orchestrator, step.event, signal);
+      } catch (err) {
+        if (!isAbortError(err)) {
+          error = err instanceof Error ? err.message : String(err);
+        } else if (!step.aborted) {
+          error = "Replayed call was aborted";
+        }
+      }
+
+      const report: StepReport = {
+        seq: step.seq,
+        event: step.event,
+        ui: diffUIState(step.ui, orchestrator.engine.getState()),
+        data: diffData(step.dataAfter, orchestrator.store.export()),
+      };
+      if (error !== step.error) {
+        report.error = error ?? `Recorded call failed: ${step.error}`;
+      }
+
+      steps.push(report);
+      options.onStep?.(report);
+    }
+  } finally {
+    orchestrator.setProvider(previousProvider);
+  }
+
+  const expectedFinal =
+    recording.final ?? recording.steps[recording.steps.length - 1]?.ui ?? recording.initial.ui;
+  const final = diffUIState(expectedFinal, orchestrator.engine.getState());
+  const matched =
+    final.length === 0 &&
+    steps.every((s) => s.ui.length === 0 && s.data.length === 0 && s.error === undefined);
+
+  return { matched, steps, final };
+}
+
+/**
+ * One-line summary of a replay report
+ */
+export function describeReplay(report: ReplayReport): string {
+  if (report.matched) {
+    return `Replay matched the recording (${report.steps.length} steps).`;
+  }
+
+  const diverged = report.steps.filter(
+    (s) => s.ui.length > 0 || s.data.length > 0 || s.error !== undefined
+  );
+  const first = diverged[0];
+  return (
+    `Replay diverged in ${diverged.length} of ${report.steps.length} steps` +
+    (first ? `, first at step ${first.seq} (${first.event.kind})` : "") +
+    `. Final UI: ${report.final.length === 0 ? "matches" : report.final.map((d) => `${d.id} ${d.kind}`).join(", ")}.`
+  );
+}
@@ -0,0 +1,398 @@
+/**
+ * State Persistence
+ *
+ * Keeps an orchestrator's generated UI across page reloads. After each
+ * dispatch to its UIStateEngine the orchestrator state (components, data,
+ * intent memory and pending confirmations - everything loadState() accepts) is
+ * written to a storage adapter; on startup hydrate() reads it back.
+ *
+ * Adapters only store strings, so any key/value backend fits:
+ * - memory: in-process, for tests and server use
+ * - local: window.localStorage
+ * - indexeddb: an IndexedDB object store, for larger dashboards
+ * - file: JSON files on disk (file-storage.ts, Node only)
+ *
+ * Components are stored without handlers. Nothing needs re-binding after a
+ * reload: the renderer binds each component's declared events to the
+ * orchestrator's event bus by type, and loadState() re-registers the pending
+ * confirmations behind any restored GuardrailModal.
+ *
+ * Nothing is saved while the engine is rewound through its history (time
+ * travel only moves the UI, so saving it would pair an old screen with
+ * current data); the next dispatch continues from there and is saved as usual.
+ */
+
+import { z } from "zod";
+import { snapshotSchema } from "./orchestration-snapshot";
+import { isRegisteredComponentType } from "./component-schemas";
+import type { RecordedState } from "./session-recorder";
+import type { UIState } from "./ui-state-engine";
+import type { UIOrchestrator } from "./ui-orchestrator";
+
+/**
+ * String key/value storage used for persisted state
+ */
+export interface StorageAdapter {
+  /** Adapter name, shown in warnings */
+  name: string;
+  /** Stored value, or null if there is none */
+  read(key: string): Promise<string | null>;
+  write(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Serializable adapter selection, e.g. from a server component's props
+ */
+export type StorageAdapterConfig =
+  | { kind: "memory" }
+  | { kind: "local" }
+  | { kind: "indexeddb"; dbName?: string; storeName?: string };
+
+/**
+ * Format version of persisted state; other versions are ignored
+ */
+export const PERSISTED_STATE_VERSION = 1;
+
+/**
+ * Key used when none is given
+ */
+export const DEFAULT_PERSISTENCE_KEY = "ui-orchestrator:state";
+
+/**
+ * What is written to storage
+ */
+export interface PersistedState {
+  version: typeof PERSISTED_STATE_VERSION;
+  savedAt: number;
+  state: RecordedState;
+}
+
+/**
+ * Schema used to validate stored state before it is loaded
+ */
+export const persistedStateSchema = z.object({
+  version: z.literal(PERSISTED_STATE_VERSION),
+  savedAt: z.number(),
+  state: z.object({
+    ui: snapshotSchema.shape.ui,
+    data: snapshotSchema.shape.data,
+    memory: z.object({
+      intents: z.array(
+        z.object({
+          id: z.string(),
+          timestamp: z.number(),
+          input: z.string(),
+          type: z.string(),
+          componentIds: z.array(z.string()),
+          data: z.record(z.string(), z.unknown()).optional(),
+        })
+      ),
+      references: z.array(
+        z.tuple([
+          z.string(),
+          z.object({
+            key: z.string(),
+            componentId: z.string(),
+            timestamp: z.number(),
+            description: z.string().optional(),
+          }),
+        ])
+      ),
+      currentIntentId: z.string().nullable(),
+    }),
+    pending: z.array(
+      z.object({
+        modalId: z.string(),
+        kind: z.literal("guardrail"),
+        payload: z.unknown(),
+        createdAt: z.number(),
+        expiresAt: z.number(),
+      })
+    ),
+  }),
+});
+
+/**
+ * Memory adapter - values live in a Map, serialized like every other adapter
+ */
+export function createMemoryStorage(): StorageAdapter {
+  const values = new Map<string, string>();
+  return {
+    name: "memory",
+    async read(key) {
+      return values.get(key) ?? null;
+    },
+    async write(key, value) {
+      values.set(key, value);
+    },
+    async remove(key) {
+      values.delete(key);
+    },
+  };
+}
+
+/**
+ * localStorage adapter
+ * Pass a Storage to use sessionStorage or a stand-in outside the browser.
+ */
+export function createLocalStorage(storage?: Storage): StorageAdapter {
+  const resolve = (): Storage => {
+    const target = storage ?? globalThis.localStorage;
+    if (!target) {
+      throw new Error("localStorage is not available");
+    }
+    return target;
+  };
+
+  return {
+    name: "local",
+    async read(key) {
+      return resolve().getItem(key);
+    },
+    async write(key, value) {
+      resolve().setItem(key, value);
+    },
+    async remove(key) {
+      resolve().removeItem(key);
+    },
+  };
+}
+
+/**
+ * IndexedDB adapter - one object store, values keyed by persistence key
+ */
+export function createIndexedDBStorage(
+  options: { dbName?: string; storeName?: string; indexedDB?: IDBFactory } = {}
+): StorageAdapter {
+  const { dbName = "ui-orchestrator", storeName = "state" } = options;
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const factory = options.indexedDB ?? globalThis.indexedDB;
+      if (!factory) {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = factory.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      // Let the next call try again
+      database = null;
+      throw error;
+    });
+    return database;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await open();
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    name: "indexeddb",
+    async read(key) {
+      const value = await run("readonly", (store) => store.get(key));
+      return typeof value === "string" ? value : null;
+    },
+    async write(key, value) {
+      await run("readwrite", (store) => store.put(value, key));
+    },
+    async remove(key) {
+      await run("readwrite", (store) => store.delete(key));
+    },
+  };
+}
+
+/**
+ * Create an adapter from a config object
+ */
+export function createStorageAdapter(config: StorageAdapterConfig): StorageAdapter {
+  switch (config.kind) {
+    case "local":
+      return createLocalStorage();
+    case "indexeddb":
+      return createIndexedDBStorage(config);
+    case "memory":
+    default:
+      return createMemoryStorage();
+  }
+}
+
+/**
+ * Components worth restoring
+ * Types that are no longer registered can't be rendered, and an ErrorNotice
+ * refers to a request that did not survive the reload.
+ */
+function restorableComponents(ui: UIState): UIState {
+  return Object.fromEntries(
+    Object.entries(ui).filter(
+      ([, component]) => isRegisteredComponentType(component.type) && component.type !== "ErrorNotice"
+    )
+  );
+}
+
+/**
+ * Persists one orchestrator's state to a storage adapter
+ */
+export class StatePersistence {
+  private readonly key: string;
+  private unsubscribe: (() => void) | null = null;
+  /** A change is waiting to be written */
+  private dirty = false;
+  /** Writes run one at a time, in order */
+  private writing: Promise<void> = Promise.resolve();
+  private hydrating = false;
+
+  constructor(
+    private orchestrator: UIOrchestrator,
+    private adapter: StorageAdapter,
+    options: { key?: string } = {}
+  ) {
+    this.key = options.key ?? DEFAULT_PERSISTENCE_KEY;
+  }
+
+  /**
+   * Save after every dispatch until stopped
+   * Returns a function that stops saving
+   */
+  start(): () => void {
+    if (!this.unsubscribe) {
+      const { engine } = this.orchestrator;
+      this.unsubscribe = engine.subscribe(() => {
+        if (!this.hydrating && !engine.isRewound()) this.schedule();
+      });
+    }
+    return () => this.stop();
+  }
+
+  /**
+   * Stop saving; writes already scheduled still complete
+   */
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Queue a write of the current state
+   * Dispatches made while a write is queued are covered by that write, so a
+   * request that dispatches several actions is saved once.
+   */
+  private schedule(): void {
+    if (this.dirty) return;
+    this.dirty = true;
+
+    this.writing = this.writing
+      .then(() => {
+        this.dirty = false;
+        return this.save();
+      })
+      .catch((error) => {
+        console.error(`Error saving UI state to ${this.adapter.name} storage:`, error);
+      });
+  }
+
+  /**
+   * Write the current state now
+   */
+  async save(): Promise<void> {
+    const persisted: PersistedState = {
+      version: PERSISTED_STATE_VERSION,
+      savedAt: Date.now(),
+      state: this.orchestrator.captureState(),
+    };
+    await this.adapter.write(this.key, JSON.stringify(persisted));
+  }
+
+  /**
+   * Wait for scheduled writes to finish
+   */
+  flush(): Promise<void> {
+    return this.writing;
+  }
+
+  /**
+   * Load the stored state into the orchestrator
+   * Returns false, leaving the orchestrator untouched, when nothing is stored
+   * or the stored state is unreadable or from another format version.
+   * Confirmations that expired while the page was closed are dropped.
+   */
+  async hydrate(): Promise<boolean> {
+    let raw: string | null;
+    try {
+      raw = await this.adapter.read(this.key);
+    } catch (error) {
+      console.error(`Error reading UI state from ${this.adapter.name} storage:`, error);
+      return false;
+    }
+    if (raw === null) return false;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(raw);
+    } catch {
+      console.warn(`Ignoring unreadable UI state in ${this.adapter.name} storage`);
+      return false;
+    }
+
+    const parsed = persistedStateSchema.safeParse(json);
+    if (!parsed.success) {
+      console.warn(`Ignoring invalid UI state in ${this.adapter.name} storage:`, parsed.error.issues);
+      return false;
+    }
+
+    const state = parsed.data.state as RecordedState;
+    const now = Date.now();
+
+    this.hydrating = true;
+    try {
+      this.orchestrator.loadState({
+        ...state,
+        ui: restorableComponents(state.ui),
+        pending: state.pending.filter((operation) => operation.expiresAt > now),
+      });
+    } finally {
+      this.hydrating = false;
+    }
+    return true;
+  }
+
+  /**
+   * Delete the stored state
+   */
+  async clear(): Promise<void> {
+    await this.flush();
+    await this.adapter.remove(this.key);
+  }
+}
+
+/**
+ * Restore an orchestrator's saved state, then keep saving it
+ * Resolves to whether state was restored, and a function that stops saving.
+ */
+export async function persistOrchestrator(
+  orchestrator: UIOrchestrator,
+  adapter: StorageAdapter | StorageAdapterConfig,
+  options: { key?: string } = {}
+): Promise<{ persistence: StatePersistence; restored: boolean; stop: () => void }> {
+  const persistence = new StatePersistence(
+    orchestrator,
+    "read" in adapter ? adapter : createStorageAdapter(adapter),
+    options
+  );
+  const restored = await persistence.hydrate();
+  return { persistence, restored, stop: persistence.start() };
+}
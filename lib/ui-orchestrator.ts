@@ -3,17 +3,22 @@
  *
  * Connects user text input to AI for intelligent UI component management.
  * The AI analyzes user intent and decides which components to render, update, or remove.
+ *
+ * Each UIOrchestrator owns its UI engine, data store, intent memory, pending
+ * confirmations, undo history, session recorder, event handlers, provider and
+ * middleware. createOrchestrator() builds an isolated instance (one per
+ * widget, test or server request); the module-level functions below run on
+ * the default instance, which is built on the shared singletons.
  */
 
-import { uiEngine, type UIComponent } from "./ui-state-engine";
-import { recordIntent, indexComponents, intentMemory } from "./intent-memory";
+import { uiEngine, UIStateEngine, type UIComponent, type UIStateResult } from "./ui-state-engine";
+import { indexComponents, intentMemory, IntentMemoryEngine } from "./intent-memory";
 import {
   dataStore,
+  DataStore,
   processFormData,
   mapFormFieldToDataKey,
-  getSalaryComparisonData,
-  getSalaryCardsData,
-  needsSalaryData,
+  validateFormData,
 } from "./data-store";
 import {
   getPredictiveActions,
@@ -21,15 +26,88 @@ import {
   shouldShowPredictions,
   type PredictiveAction,
 } from "./predictive-actions";
+import {
+  createProvider,
+  getDefaultProvider,
+  type OrchestratorProvider,
+  type OrchestratorProviderConfig,
+  type OrchestratorResponse,
+  type LayoutAction,
+} from "./orchestrator-providers";
+import { createDebugData } from "./orchestrator-simulator";
+import { extractEntities } from "./entity-extractor";
+import {
+  buildContext,
+  getMemoryContext,
+  getPendingContext,
+  type OrchestrationContext,
+} from "./orchestration-context";
+import { createSnapshot, restoreSnapshot } from "./orchestration-snapshot";
+import {
+  validateOrchestratorResponse,
+  type ValidationRejection,
+} from "./response-validator";
+import {
+  applyGuardrailData,
+  checkGuardrailConfirmation,
+  createGuardrailModal,
+  getGuardrailPolicy,
+  getGuardrailPolicyForModal,
+  type GuardrailConfirmationInput,
+  type GuardrailTicket,
+} from "./guardrail-policies";
+import {
+  pendingConfirmations,
+  PendingConfirmationRegistry,
+  isPendingOperation,
+  type PendingOperation,
+} from "./pending-confirmations";
+import {
+  captureState,
+  sessionRecorder,
+  SessionRecorder,
+  type RecordedState,
+} from "./session-recorder";
+import { createRuleContext } from "./intent-rules";
+import {
+  ComponentEventBus,
+  type ComponentEvent,
+  type HandlerRegistry,
+} from "./component-events";
+import {
+  MiddlewarePipeline,
+  type MiddlewareRequest,
+  type OrchestratorMiddleware,
+} from "./orchestrator-middleware";
+import {
+  actionHistory,
+  ActionHistory,
+  parseHistoryCommand,
+  type HistoryCommand,
+  type HistoryEntry,
+} from "./action-history";
+import {
+  DEFAULT_RETRY_POLICY,
+  DataValidationError,
+  HandlerFailureError,
+  PolicyViolationError,
+  describeOrchestrationError,
+  toOrchestrationError,
+  withRetry,
+  type InvalidEventError,
+  type OrchestrationError,
+  type RetryPolicy,
+} from "./orchestration-errors";
 
 /**
- * AI Orchestrator Response
+ * Orchestrator Action - combines component definitions with lifecycle actions
  */
-export interface OrchestratorResponse {
+export interface OrchestratorAction {
   render: UIComponent[];
   remove: string[];
   update: Array<{ id: string; props: Record<string, unknown> }>;
-  notes: string;
+  /** Show/hide/reorder changes to existing components */
+  layout?: LayoutAction[];
   debug?: {
     reasoning: string;
     componentDecisions: Array<{
@@ -38,871 +116,1217 @@ export interface OrchestratorResponse {
       reason: string;
       confidence?: number;
     }>;
+    /** Entries dropped or repaired by response validation */
+    rejections?: ValidationRejection[];
+    /** Context the provider decided on */
+    context?: OrchestrationContext;
   };
 }
 
 /**
- * Orchestrator Action - combines component definitions with lifecycle actions
+ * Options for a single orchestration request
  */
-export interface OrchestratorAction {
-  render: UIComponent[];
-  remove: string[];
-  update: Array<{ id: string; props: Record<string, unknown> }>;
-  debug?: {
-    reasoning: string;
-    componentDecisions: Array<{
-      id: string;
-      type: string;
-      reason: string;
-      confidence?: number;
-    }>;
-  };
+export interface ProcessOptions {
+  /** Abort the request; an aborted request never applies its actions */
+  signal?: AbortSignal;
 }
 
 /**
- * Handler registry for component callbacks
+ * Parts of an orchestrator instance; anything omitted is created fresh
  */
-type HandlerRegistry = {
-  onFormSubmit?: (formData: Record<string, string>) => void;
-  onModalConfirm?: (modalId: string) => void;
-  onModalCancel?: (modalId: string) => void;
-  onEmptyStateAction?: () => void;
-  onPredictAction?: (input: string, label?: string) => void;
-  onDismissPredictions?: () => void;
-  onToast?: (message: string, type: "success" | "info") => void;
-};
-
-let handlerRegistry: HandlerRegistry = {};
+export interface OrchestratorOptions {
+  engine?: UIStateEngine;
+  store?: DataStore;
+  memory?: IntentMemoryEngine;
+  pending?: PendingConfirmationRegistry;
+  /** Undo history, bound to `engine` and `store` */
+  history?: ActionHistory;
+  /** Session recorder, bound to `engine`, `store`, `memory` and `pending` */
+  recorder?: SessionRecorder;
+  /** Decision provider (defaults to the environment setting) */
+  provider?: OrchestratorProvider | OrchestratorProviderConfig;
+  handlers?: HandlerRegistry;
+  /** Retries and time limit for provider calls (defaults to DEFAULT_RETRY_POLICY) */
+  retry?: Partial<RetryPolicy>;
+  /** Told about every failure, including those shown as an ErrorNotice */
+  onError?: (report: OrchestratorErrorReport) => void;
+}
 
 /**
- * Register handlers for component callbacks
+ * A failure reported to `onError`: a request that failed and is shown as an
+ * ErrorNotice, a provider attempt that is about to be retried, or a component
+ * event the event bus rejected
  */
-export function registerHandlers(handlers: HandlerRegistry): void {
-  handlerRegistry = { ...handlerRegistry, ...handlers };
-}
+export type OrchestratorErrorReport =
+  /** `request` is the input or event that failed, when there is one */
+  | { kind: "request"; error: OrchestrationError; request?: FailedRequest }
+  /** `attempt` is the number of the retry about to run, starting at 1 */
+  | { kind: "retry"; error: OrchestrationError; provider: string; attempt: number }
+  | { kind: "event"; error: InvalidEventError };
 
 /**
- * Clear all handlers
+ * A failed request that retryLastFailure() can run again
  */
-export function clearHandlers(): void {
-  handlerRegistry = {};
+export type FailedRequest =
+  | { kind: "input"; input: string }
+  | { kind: "event"; event: ComponentEvent };
+
+/**
+ * Id of the ErrorNotice shown for a failed request
+ */
+export const ERROR_NOTICE_ID = "error-state";
+
+/**
+ * Prefix the debug reasoning with the values extracted from the input
+ */
+function withExtractionNote(
+  response: OrchestratorResponse,
+  extracted: Record<string, unknown>
+): OrchestratorResponse {
+  const entries = Object.entries(extracted);
+  if (entries.length === 0) return response;
+
+  const note = `Extracted from input: ${entries.map(([k, v]) => `${k}=${v}`).join(", ")}.`;
+  return {
+    ...response,
+    debug: {
+      reasoning: response.debug?.reasoning ? `${note} ${response.debug.reasoning}` : note,
+      componentDecisions: response.debug?.componentDecisions ?? [],
+    },
+  };
 }
 
 /**
- * Resolve natural language references like "this", "that", "the chart"
- * Returns the input with resolved component context for the AI
+ * Add a GuardrailModal (and its decision) to a response
  */
-function resolveReferences(userInput: string): string {
-  const state = uiEngine.getState();
-  const componentMap: Record<string, string> = {};
-
-  // Build component type -> id map
-  for (const [id, comp] of Object.entries(state)) {
-    if (!componentMap[comp.type]) {
-      componentMap[comp.type] = id;
-    }
-  }
+function withGuardrailModal(
+  response: OrchestratorResponse,
+  modal?: UIComponent & { reason: string }
+): OrchestratorResponse {
+  if (!modal) return response;
 
-  // Use intent memory to resolve references
-  const resolvedIds = intentMemory.resolveReferencesInText(userInput, componentMap);
+  const { reason, ...component } = modal;
+  return {
+    ...response,
+    render: [...response.render, component],
+    debug: {
+      reasoning: response.debug?.reasoning ?? "",
+      componentDecisions: [
+        ...(response.debug?.componentDecisions ?? []),
+        { id: component.id, type: component.type, reason, confidence: 1.0 },
+      ],
+    },
+  };
+}
 
-  // If we found a "this" or "that" reference, provide context to AI
-  if (resolvedIds.length > 0) {
-    const referencedComp = state[resolvedIds[0]];
-    if (referencedComp) {
-      // Annotate input with resolved component info
-      return `${userInput} [referencing: ${referencedComp.type} id:${referencedComp.id}]`;
-    }
-  }
+/**
+ * ErrorNotice describing a failed request
+ */
+function errorNotice(error: unknown, retryable: boolean): UIComponent {
+  const { kind, title, message, details } = describeOrchestrationError(error);
+  return {
+    id: ERROR_NOTICE_ID,
+    type: "ErrorNotice",
+    visible: true,
+    props: { kind, title, message, ...(details && { details }), retryable },
+    order: 0,
+  };
+}
 
-  return userInput;
+function resolveProvider(
+  provider: OrchestratorProvider | OrchestratorProviderConfig
+): OrchestratorProvider {
+  return "generate" in provider ? provider : createProvider(provider);
 }
 
 /**
- * Context builder - provides current UI state and data availability to the AI
+ * UI Orchestrator class
+ *
+ * Runs requests against its own engines; two instances never see each
+ * other's components, data, references, handlers or history.
  */
-function buildContext(userInput: string): string {
-  const state = uiEngine.getState();
-  const visibleComponents = Object.values(state).filter((c) => c.visible);
+export class UIOrchestrator {
+  readonly engine: UIStateEngine;
+  readonly store: DataStore;
+  readonly memory: IntentMemoryEngine;
+  readonly pending: PendingConfirmationRegistry;
+  readonly history: ActionHistory;
+  readonly recorder: SessionRecorder;
+  /** Routes component events to the registered handlers */
+  readonly events: ComponentEventBus;
+  private provider: OrchestratorProvider;
+  private retryPolicy: RetryPolicy;
+  private onError?: (report: OrchestratorErrorReport) => void;
+  /** Middleware applied around every processUserInput call */
+  private middleware = new MiddlewarePipeline();
+  /** Request behind the ErrorNotice on screen, if it can be retried */
+  private lastFailure: FailedRequest | null = null;
+
+  constructor(options: OrchestratorOptions = {}) {
+    this.engine = options.engine ?? new UIStateEngine();
+    this.store = options.store ?? new DataStore();
+    this.memory = options.memory ?? new IntentMemoryEngine();
+    this.pending = options.pending ?? new PendingConfirmationRegistry();
+    this.history = options.history ?? new ActionHistory(this.engine, this.store);
+    this.recorder =
+      options.recorder ?? new SessionRecorder(this.engine, this.store, this.memory, this.pending);
+    this.onError = options.onError;
+    this.events = new ComponentEventBus((error) => this.onError?.({ kind: "event", error }));
+    this.events.register(options.handlers ?? {});
+    this.provider = resolveProvider(options.provider ?? getDefaultProvider());
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  }
 
-  let context = `CURRENT UI STATE:\n`;
-  context += `Visible components (${visibleComponents.length}):\n`;
+  /**
+   * Register handlers for component events, by event name
+   */
+  registerHandlers(handlers: HandlerRegistry): void {
+    this.events.register(handlers);
+  }
 
-  for (const comp of visibleComponents.sort((a, b) => (a.order ?? 0) - (b.order ?? 0))) {
-    context += `  - ${comp.id} (${comp.type})\n`;
+  /**
+   * Clear this orchestrator's handlers
+   */
+  clearHandlers(): void {
+    this.events.clear();
   }
 
-  context += `\nAVAILABLE DATA:\n`;
-  const lastMonthEntry = dataStore.withSource("salary.lastMonth");
-  const currentMonthEntry = dataStore.withSource("salary.currentMonth");
-  context += `  salary.lastMonth: ${lastMonthEntry ? `${lastMonthEntry.value} (${lastMonthEntry.source})` : "NOT SET"}\n`;
-  context += `  salary.currentMonth: ${currentMonthEntry ? `${currentMonthEntry.value} (${currentMonthEntry.source})` : "NOT SET"}\n`;
+  /**
+   * Route an event emitted by one of this orchestrator's components
+   * Returns whether a handler ran. A handler that throws is reported with an
+   * ErrorNotice whose retry runs the event again.
+   */
+  dispatchEvent(event: ComponentEvent): boolean {
+    try {
+      return this.events.emit(event, this.engine.getState());
+    } catch (error) {
+      if (!(error instanceof HandlerFailureError)) throw error;
+      this.fail(error, { kind: "event", event });
+      return true;
+    }
+  }
 
-  // Show computed values
-  context += `  salary.change: ${dataStore.get("salary.change") ?? "NOT SET"}\n`;
-  context += `  salary.changePercent: ${dataStore.get("salary.changePercent") ?? "NOT SET"}\n`;
-  context += `  salary.trend: ${dataStore.get("salary.trend") ?? "NOT SET"}\n`;
+  /**
+   * Show an ErrorNotice for a failed request
+   * Dispatched straight into the engine, replacing any earlier notice, and
+   * reported to `onError`. The request is kept for retryLastFailure() when
+   * running it again may help.
+   */
+  private fail(error: unknown, request?: FailedRequest): OrchestratorAction {
+    this.onError?.({ kind: "request", error: toOrchestrationError(error), request });
 
-  context += `\nUSER INPUT: "${userInput}"`;
+    const { canRetry } = describeOrchestrationError(error);
+    this.lastFailure = canRetry && request ? request : null;
+    const notice = errorNotice(error, this.lastFailure !== null);
+    this.engine.dispatch({ type: "render", component: notice });
 
-  return context;
-}
+    return {
+      render: [notice],
+      remove: [],
+      update: [],
+      debug: createDebugData(
+        `Error processing request: ${error instanceof Error ? error.message : String(error)}`,
+        [
+          {
+            id: notice.id,
+            type: notice.type,
+            reason: `${String(notice.props.kind)} error. Showing what went wrong` +
+              (this.lastFailure ? " with a retry option." : "."),
+            confidence: 1.0,
+          },
+        ]
+      ),
+    };
+  }
 
-/**
- * Attach handlers to a component's props
- */
-function attachHandlers(
-  component: UIComponent,
-  handlers: HandlerRegistry
-): UIComponent {
-  const props = { ...component.props };
+  /**
+   * Remove the ErrorNotice once a later request succeeds
+   */
+  private clearFailure(): void {
+    this.lastFailure = null;
+    if (this.engine.getComponent(ERROR_NOTICE_ID)) {
+      this.engine.dispatch({ type: "remove", id: ERROR_NOTICE_ID });
+    }
+  }
 
-  if (component.type === "InputForm" && handlers.onFormSubmit) {
-    props.onSubmit = handlers.onFormSubmit;
+  /**
+   * Request behind the ErrorNotice on screen, if it can be retried
+   */
+  getLastFailure(): FailedRequest | null {
+    return this.lastFailure;
   }
 
-  if (component.type === "GuardrailModal") {
-    if (handlers.onModalConfirm) {
-      props.onConfirm = () => handlers.onModalConfirm?.(component.id);
+  /**
+   * Run the failed request behind the ErrorNotice again
+   */
+  async retryLastFailure(options: ProcessOptions = {}): Promise<OrchestratorAction> {
+    const failure = this.lastFailure;
+    if (!failure) {
+      return {
+        render: [],
+        remove: [],
+        update: [],
+        debug: createDebugData("Nothing to retry.", []),
+      };
     }
-    if (handlers.onModalCancel) {
-      props.onCancel = () => handlers.onModalCancel?.(component.id);
+
+    this.clearFailure();
+    if (failure.kind === "input") {
+      return this.processUserInput(failure.input, options);
     }
+
+    this.dispatchEvent(failure.event);
+    return {
+      render: [],
+      remove: [ERROR_NOTICE_ID],
+      update: [],
+      debug: createDebugData(
+        `Retried "${failure.event.event}" from ${failure.event.componentId}.`,
+        []
+      ),
+    };
+  }
+
+  /**
+   * Add a middleware to this orchestrator
+   * Returns a function that removes it again
+   */
+  registerMiddleware(plugin: OrchestratorMiddleware): () => void {
+    return this.middleware.use(plugin);
+  }
+
+  /**
+   * Remove a middleware by name
+   */
+  unregisterMiddleware(name: string): boolean {
+    return this.middleware.remove(name);
   }
 
-  if (component.type === "EmptyState" && handlers.onEmptyStateAction) {
-    props.onAction = handlers.onEmptyStateAction;
+  /**
+   * Get registered middleware in execution order
+   */
+  getMiddleware(): OrchestratorMiddleware[] {
+    return this.middleware.list();
   }
 
-  if (component.type === "PredictiveActionBar") {
-    // Wire the onActionClick handler to dispatch intents through the orchestrator
-    if (handlers.onPredictAction) {
-      props.onActionClick = handlers.onPredictAction;
+  /**
+   * Select the decision provider used by processUserInput
+   */
+  setProvider(provider: OrchestratorProvider | OrchestratorProviderConfig): void {
+    this.provider = resolveProvider(provider);
+  }
+
+  /**
+   * Get the active decision provider
+   */
+  getProvider(): OrchestratorProvider {
+    return this.provider;
+  }
+
+  /**
+   * Resolve natural language references like "this", "that", "the chart"
+   * Returns the input with resolved component context for the AI
+   */
+  private resolveReferences(userInput: string): string {
+    const state = this.engine.getState();
+    const componentMap: Record<string, string> = {};
+
+    // Build component type -> id map
+    for (const [id, comp] of Object.entries(state)) {
+      if (!componentMap[comp.type]) {
+        componentMap[comp.type] = id;
+      }
     }
-    if (handlers.onDismissPredictions) {
-      props.onDismiss = handlers.onDismissPredictions;
+
+    // Use intent memory to resolve references
+    const resolvedIds = this.memory.resolveReferencesInText(userInput, componentMap);
+
+    // If we found a "this" or "that" reference, provide context to AI
+    if (resolvedIds.length > 0) {
+      const referencedComp = state[resolvedIds[0]];
+      if (referencedComp) {
+        // Annotate input with resolved component info
+        return `${userInput} [referencing: ${referencedComp.type} id:${referencedComp.id}]`;
+      }
     }
-  }
 
-  if (component.type === "ExportActions" && handlers.onToast) {
-    // Wire export actions to show toast notification
-    props.onExport = (format: string) => {
-      handlers.onToast?.(`Report exported as ${format.toUpperCase()}`, "success");
-    };
+    return userInput;
   }
 
-  return { ...component, props };
-}
+  /**
+   * Register the operation behind a GuardrailModal
+   * Anything a provider puts on the modal's props is ignored: the policy is
+   * looked up by modal id, its scope resolved against this orchestrator's own
+   * state, and the modal rebuilt to match, so confirming can only ever run what
+   * the policy itself would. Modals the orchestrator raised pass their tickets
+   * in `ownTickets`. A modal without an applicable policy confirms nothing.
+   */
+  private registerGuardrailModal(
+    component: UIComponent,
+    userInput: string,
+    ownTickets: GuardrailTicket[]
+  ): UIComponent {
+    if (component.type !== "GuardrailModal") return component;
+
+    const policy = getGuardrailPolicyForModal(component.id);
+    const state = this.engine.getState();
+    const scope =
+      ownTickets.find((ticket) => ticket.policyId === policy?.id)?.scope ??
+      policy?.resolveScope(createRuleContext(userInput, this.store, state, this.memory));
+
+    if (!policy || !scope) {
+      this.pending.discard(component.id);
+      return component;
+    }
 
-/**
- * Parse AI response and execute UI actions
- */
-function executeOrchestratorActions(response: OrchestratorResponse): OrchestratorAction {
-  const actions: OrchestratorAction = {
-    render: (response.render || []).map((comp) =>
-      attachHandlers(comp, handlerRegistry)
-    ),
-    remove: response.remove || [],
-    update: response.update || [],
-    debug: response.debug,
-  };
+    this.pending.register(component.id, "guardrail", { policyId: policy.id, scope });
+    const { id, type, visible, props, order } = createGuardrailModal(policy, scope, this.store, state);
+    return { id, type, visible, props, order };
+  }
 
-  // Execute remove actions
-  for (const id of actions.remove) {
-    uiEngine.dispatch({ type: "remove", id });
-  }
-
-  // Execute update actions
-  for (const update of actions.update) {
-    uiEngine.dispatch({ type: "update", id: update.id, props: update.props });
-  }
-
-  // Execute render actions
-  for (const comp of actions.render) {
-    uiEngine.dispatch({ type: "render", component: comp });
-  }
-
-  // Generate predictive actions based on new state
-  const newState = uiEngine.getState();
-  const visibleComponents = Object.values(newState).filter((c) => c.visible);
-  const predictionContext = buildPredictionContext(visibleComponents, response.notes);
-  const predictions = getPredictiveActions(predictionContext);
-
-  // Add predictive action bar if confidence is high enough
-  if (shouldShowPredictions(predictions)) {
-    const predictiveAction: UIComponent = {
-      id: "predictive-actions",
-      type: "PredictiveActionBar",
-      visible: true,
-      props: {
-        actions: predictions.map((p) => ({
-          label: p.label,
-          input: p.input,
-          confidence: p.confidence,
-        })),
-      },
-      order: 999, // Always show at the bottom
+  /**
+   * Parse AI response and execute UI actions
+   */
+  private executeOrchestratorActions(
+    rawResponse: OrchestratorResponse,
+    context?: OrchestrationContext,
+    ownTickets: GuardrailTicket[] = []
+  ): OrchestratorAction {
+    // Drop or repair entries that don't match the component schemas
+    const { response, rejections } = validateOrchestratorResponse(
+      rawResponse,
+      this.engine.getState()
+    );
+
+    const actions: OrchestratorAction = {
+      render: response.render.map((comp) =>
+        this.registerGuardrailModal(comp, context?.userInput ?? "", ownTickets)
+      ),
+      remove: response.remove,
+      update: response.update,
+      ...(response.layout && { layout: response.layout }),
+      debug:
+        response.debug || rejections.length > 0 || context
+          ? {
+              reasoning: response.debug?.reasoning ?? "",
+              componentDecisions: response.debug?.componentDecisions ?? [],
+              rejections,
+              context,
+            }
+          : undefined,
     };
-    actions.render.push(predictiveAction);
-    uiEngine.dispatch({ type: "render", component: predictiveAction });
-  }
 
-  // Record intent
-  const affectedIds = [
-    ...actions.remove,
-    ...actions.update.map((u) => u.id),
-    ...actions.render.map((c) => c.id),
-  ];
+    // A request went through, so an earlier failure no longer applies
+    this.clearFailure();
 
-  recordIntent(
-    response.notes || "User request processed",
-    "ui_orchestration",
-    affectedIds,
-    { response }
-  );
+    // Execute remove actions; a removed modal can no longer be confirmed
+    for (const id of actions.remove) {
+      this.pending.discard(id);
+      this.engine.dispatch({ type: "remove", id });
+    }
 
-  // Re-index components for intent reference resolution
-  indexComponents(Object.values(uiEngine.getState()));
+    // Execute update actions
+    for (const update of actions.update) {
+      this.engine.dispatch({ type: "update", id: update.id, props: update.props });
+    }
 
-  return actions;
-}
+    // Execute render actions
+    for (const comp of actions.render) {
+      this.engine.dispatch({ type: "render", component: comp });
+    }
 
-/**
- * AI Orchestrator Call
- *
- * DEMONSTRATION MODE: Uses simulated pattern matching for hackathon demo.
- *
- * PRODUCTION: Replace simulateAIResponse() with actual Tambo AI call:
- *   const tambo = useTambo();
- *   const result = await tambo.generate({ input: context });
- *   return JSON.parse(result);
- */
-async function callAIOrchestrator(userInput: string): Promise<OrchestratorResponse> {
-  const context = buildContext(userInput);
+    // Execute layout actions (show/hide/setOrder)
+    for (const change of actions.layout ?? []) {
+      this.engine.dispatch(change);
+    }
 
-  // Simulated AI response for demonstration
-  return simulateAIResponse(userInput, context);
-}
+    // Generate predictive actions based on new state
+    const newState = this.engine.getState();
+    const visibleComponents = Object.values(newState).filter((c) => c.visible);
+    const predictionContext = buildPredictionContext(visibleComponents, response.notes);
+    const predictions = getPredictiveActions(predictionContext);
+
+    // Add predictive action bar if confidence is high enough
+    if (shouldShowPredictions(predictions)) {
+      const predictiveAction: UIComponent = {
+        id: "predictive-actions",
+        type: "PredictiveActionBar",
+        visible: true,
+        props: {
+          actions: predictions.map((p) => ({
+            label: p.label,
+            input: p.input,
+            confidence: p.confidence,
+          })),
+        },
+        order: 999, // Always show at the bottom
+      };
+      actions.render.push(predictiveAction);
+      this.engine.dispatch({ type: "render", component: predictiveAction });
+    }
 
-/**
- * Helper to create debug data for a response
- */
-function createDebugData(
-  reasoning: string,
-  componentDecisions: Array<{
-    id: string;
-    type: string;
-    reason: string;
-    confidence?: number;
-  }>
-): OrchestratorResponse["debug"] {
-  return {
-    reasoning,
-    componentDecisions,
-  };
-}
+    // Record intent
+    // Layout targets precede renders so "it" after a layout command is its target;
+    // removed ids come last so "it" never points at something off screen
+    const affectedIds = [
+      ...(actions.layout ?? []).map((change) => change.id),
+      ...actions.render.map((c) => c.id),
+      ...actions.update.map((u) => u.id),
+      ...actions.remove,
+    ];
 
-/**
- * Simulated AI Response Function
- *
- * DEMONSTRATION: This function simulates AI-driven UI orchestration decisions
- * using pattern matching. In production, the Tambo SDK would handle this.
- *
- * The simulation demonstrates Generative UI principles:
- * - Intent-driven component rendering
- * - Incremental UI mutations (not full resets)
- * - Context-aware decisions based on current state
- *
- * Production integration would use Tambo's component registry and
- * intent understanding to generate these decisions dynamically.
- */
-function simulateAIResponse(userInput: string, context: string): OrchestratorResponse {
-  const lowerInput = userInput.toLowerCase();
+    this.memory.recordIntent({
+      input: response.notes || "User request processed",
+      type: "ui_orchestration",
+      componentIds: affectedIds,
+      data: { response },
+    });
+
+    // Re-index components for intent reference resolution
+    indexComponents(Object.values(this.engine.getState()), this.memory);
 
-  // Check for salary comparison request
-  if (lowerInput.includes("salary") && (lowerInput.includes("comparison") || lowerInput.includes("compare") || (lowerInput.includes("last month") && lowerInput.includes("current month")))) {
-    // Check if we need to collect salary data
-    if (needsSalaryData()) {
-      const hasLastMonth = dataStore.exists("salary.lastMonth");
-      const hasCurrentMonth = dataStore.exists("salary.currentMonth");
+    return actions;
+  }
 
-      // Missing data - request via InputForm
+  /**
+   * AI Orchestrator Call
+   *
+   * Builds the context and delegates the decision to the active provider.
+   * Defaults to the simulated provider; see orchestrator-providers.ts.
+   * Timeouts and other transient provider errors are retried with backoff,
+   * each retry reported to `onError`.
+   */
+  private async callAIOrchestrator(
+    userInput: string,
+    context: OrchestrationContext,
+    store: DataStore,
+    signal?: AbortSignal
+  ): Promise<OrchestratorResponse> {
+    const snapshot = createSnapshot(this.engine, store, this.memory, this.pending);
+    const provider = this.provider;
+    const response = await withRetry(
+      (attemptSignal) => provider.generate({ userInput, context, snapshot, signal: attemptSignal }),
+      {
+        policy: this.retryPolicy,
+        provider: provider.name,
+        signal,
+        onRetry: (error, attempt) =>
+          this.onError?.({ kind: "retry", error, provider: provider.name, attempt }),
+      }
+    );
+    this.recorder.noteResponse(response);
+    return response;
+  }
+
+  /**
+   * Describe an undo/redo step as an OrchestratorAction
+   */
+  private historyToAction(command: HistoryCommand, entry: HistoryEntry | null): OrchestratorAction {
+    if (!entry) {
       return {
-        render: [
-          {
-            id: "salary-data-form",
-            type: "InputForm",
-            visible: true,
-            props: {
-              fields: [
-                {
-                  name: "lastMonthSalary",
-                  label: "Last Month Salary",
-                  type: "number",
-                  placeholder: "Enter your last month salary",
-                  required: !hasLastMonth,
-                },
-                {
-                  name: "currentMonthSalary",
-                  label: "Current Month Salary",
-                  type: "number",
-                  placeholder: "Enter your current month salary",
-                  required: !hasCurrentMonth,
-                },
-              ],
-              submitLabel: "Compare Salary",
-            },
-            order: 0,
-          },
-        ],
+        render: [],
         remove: [],
         update: [],
-        notes: "Collecting missing salary data for comparison",
-        debug: createDebugData(
-          "User requested salary comparison but salary data is missing. Rendering InputForm to collect required values.",
-          [
-            {
-              id: "salary-data-form",
-              type: "InputForm",
-              reason: "Salary data not found in store. User must provide last month and current month values.",
-              confidence: 1.0,
-            },
-          ]
-        ),
+        debug: createDebugData(`Nothing to ${command}.`, []),
       };
     }
 
-    // Data exists - use computed values from data store
-    const salaryData = getSalaryComparisonData();
-    const cardsData = getSalaryCardsData();
+    const uiActions = command === "undo" ? entry.undo : entry.redo;
+    const render: UIComponent[] = [];
+    const remove: string[] = [];
+    for (const action of uiActions) {
+      if (action.type === "render") render.push(action.component);
+      if (action.type === "remove") remove.push(action.id);
+    }
+
+    const dataKeys = Object.keys(entry.dataBefore);
+    const verb = command === "undo" ? "Undid" : "Redid";
+    this.memory.recordIntent({
+      input: `${verb}: ${entry.label}`,
+      type: command,
+      componentIds: [...remove, ...render.map((c) => c.id)],
+    });
+    indexComponents(Object.values(this.engine.getState()), this.memory);
 
     return {
-      render: [
-        {
-          id: "salary-comparison-cards",
-          type: "SummaryCards",
-          visible: true,
-          props: {
-            cards: cardsData,
-          },
-          order: 0,
-        },
-        {
-          id: "salary-comparison-chart",
-          type: "ChartView",
-          visible: true,
-          props: {
-            title: "Salary Comparison",
-            data: [salaryData.lastMonth ?? 0, salaryData.currentMonth ?? 0],
-            labels: ["Last Month", "Current Month"],
-            type: "bar",
-          },
-          order: 1,
-        },
-      ],
-      remove: ["empty-state", "salary-data-form"],
+      render,
+      remove,
       update: [],
-      notes: "Displayed salary comparison with available data",
       debug: createDebugData(
-        `Salary data available. Rendering comparison: Last Month ($${salaryData.lastMonth ?? 0}) vs Current Month ($${salaryData.currentMonth ?? 0}). Change: ${salaryData.change && salaryData.change > 0 ? '+' : ''}${salaryData.change ?? 0} (${salaryData.changePercent ?? 0}%).`,
-        [
-          {
-            id: "salary-comparison-cards",
-            type: "SummaryCards",
-            reason: "Display salary metrics with computed change and trend.",
-            confidence: 0.95,
-          },
-          {
-            id: "salary-comparison-chart",
-            type: "ChartView",
-            reason: "Visual comparison of the two salary values.",
-            confidence: 0.9,
-          },
-        ]
+        `${verb} "${entry.label}" (${render.length} restored, ${remove.length} removed` +
+          (dataKeys.length > 0 ? `, data: ${dataKeys.join(", ")}` : "") +
+          ").",
+        []
       ),
     };
   }
 
-  // Handle form submission completion
-  if (lowerInput.includes("form submitted")) {
-    // Form data was already stored by handleFormSubmission
-    // Now render the comparison if data is available
-    if (dataStore.hasSalaryData()) {
-      const salaryData = getSalaryComparisonData();
-      const cardsData = getSalaryCardsData();
+  /**
+   * Revert the most recent action set, including its data store writes
+   */
+  undoLastAction(): OrchestratorAction {
+    return this.historyToAction("undo", this.history.undo());
+  }
 
-      return {
-        render: [
-          {
-            id: "salary-comparison-cards",
-            type: "SummaryCards",
-            visible: true,
-            props: {
-              cards: cardsData,
-            },
-            order: 0,
-          },
+  /**
+   * Re-apply the most recently undone action set
+   */
+  redoLastAction(): OrchestratorAction {
+    return this.historyToAction("redo", this.history.redo());
+  }
+
+  /**
+   * Split extracted values into those safe to write and a GuardrailModal for
+   * the ones that would overwrite user-provided data
+   */
+  private guardOverwrites(
+    userInput: string,
+    values: Record<string, unknown>
+  ): {
+    safe: Record<string, unknown>;
+    modal?: UIComponent & { reason: string };
+    ticket?: GuardrailTicket;
+  } {
+    const policy = getGuardrailPolicy("overwrite-user-values");
+    const state = this.engine.getState();
+    const scope = policy?.resolveScope(
+      createRuleContext(userInput, this.store, state, this.memory),
+      values
+    );
+
+    if (!policy || !scope || scope.kind !== "user-values") {
+      return { safe: values };
+    }
+
+    const safe = Object.fromEntries(Object.entries(values).filter(([key]) => !(key in scope.values)));
+    const { reason = "", ...modal } = createGuardrailModal(policy, scope, this.store, state);
+    return { safe, modal: { ...modal, reason }, ticket: { policyId: policy.id, scope } };
+  }
+
+  /**
+   * Main orchestrator function
+   * Processes user input and updates UI accordingly
+   *
+   * Runs the middleware pipeline around the provider call: beforeRequest hooks
+   * may rewrite the input, afterResponse hooks may change or veto the response,
+   * and afterCommit hooks observe the result.
+   *
+   * Rejects with an AbortError if `options.signal` is aborted before the
+   * actions are applied.
+   */
+  processUserInput(userInput: string, options: ProcessOptions = {}): Promise<OrchestratorAction> {
+    return this.recorder.record({ kind: "input", input: userInput }, () =>
+      this.runUserInput(userInput, options)
+    );
+  }
+
+  /**
+   * Run the middleware pipeline and the request itself
+   */
+  private async runUserInput(
+    userInput: string,
+    options: ProcessOptions
+  ): Promise<OrchestratorAction> {
+    const { signal } = options;
+
+    if (!userInput || userInput.trim().length === 0) {
+      return { render: [], remove: [], update: [] };
+    }
+
+    const request: MiddlewareRequest = { originalInput: userInput, input: userInput, signal };
+    let action: OrchestratorAction;
+
+    try {
+      signal?.throwIfAborted();
+      request.input = await this.middleware.runBeforeRequest(userInput, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      return this.fail(error, { kind: "input", input: userInput });
+    }
+
+    // "undo" / "redo" operate on the history instead of producing new UI
+    const historyCommand = parseHistoryCommand(request.input);
+    if (historyCommand) {
+      action = historyCommand === "undo" ? this.undoLastAction() : this.redoLastAction();
+    } else {
+      action = await this.orchestrate(request);
+    }
+
+    await this.middleware.runAfterCommit(action, request);
+    return action;
+  }
+
+  /**
+   * Resolve, decide and apply a single request, recorded as one history entry
+   */
+  private async orchestrate(request: MiddlewareRequest): Promise<OrchestratorAction> {
+    const { input: userInput, signal } = request;
+
+    this.history.begin();
+    try {
+      // Resolve natural language references like "this", "that", "the chart"
+      const resolvedInput = this.resolveReferences(userInput);
+
+      // Values stated inline ("my salary was 50000 last month") become user data;
+      // values that would replace earlier user input need confirmation first
+      const {
+        safe: extracted,
+        modal: overwriteModal,
+        ticket: overwriteTicket,
+      } = this.guardOverwrites(
+        userInput,
+        extractEntities(userInput).values
+      );
+      const hasExtracted = Object.keys(extracted).length > 0;
+
+      // The provider decides with the values in place, but they are only stored
+      // once the request can no longer be cancelled
+      const store = hasExtracted
+        ? restoreSnapshot({ ui: {}, data: this.store.export() }).data
+        : this.store;
+      if (hasExtracted) {
+        processFormData(extracted, store);
+      }
+
+      const state = this.engine.getState();
+      const context = buildContext(
+        resolvedInput,
+        state,
+        store,
+        getMemoryContext(this.memory),
+        getPendingContext(this.pending, state)
+      );
+      const providerResponse = await this.callAIOrchestrator(resolvedInput, context, store, signal);
+
+      // The provider may ignore the signal - never apply a cancelled response
+      signal?.throwIfAborted();
+
+      const { response, veto } = await this.middleware.runAfterResponse(providerResponse, {
+        ...request,
+        context,
+      });
+      signal?.throwIfAborted();
+
+      const note = veto ? `Vetoed by ${veto.middleware}: ${veto.reason}` : "";
+      if (veto && !veto.replacement) {
+        // A dropped response commits nothing, not even the values stated inline
+        return { render: [], remove: [], update: [], debug: createDebugData(note, []) };
+      }
+
+      if (hasExtracted) {
+        processFormData(extracted, this.store);
+      }
+
+      if (veto?.replacement) {
+        const replacement = veto.replacement;
+        return this.executeOrchestratorActions(
           {
-            id: "salary-comparison-chart",
-            type: "ChartView",
-            visible: true,
-            props: {
-              title: "Salary Comparison",
-              data: [salaryData.lastMonth ?? 0, salaryData.currentMonth ?? 0],
-              labels: ["Last Month", "Current Month"],
-              type: "bar",
+            ...replacement,
+            debug: {
+              reasoning: replacement.debug?.reasoning ? `${note}. ${replacement.debug.reasoning}` : note,
+              componentDecisions: replacement.debug?.componentDecisions ?? [],
             },
-            order: 1,
           },
-        ],
-        remove: ["salary-data-form"],
-        update: [],
-        notes: "Processed salary data and displayed comparison",
-        debug: createDebugData(
-          "Form submitted with salary data. Computing comparison and rendering visualization.",
-          [
-            {
-              id: "salary-comparison-cards",
-              type: "SummaryCards",
-              reason: "Display computed salary metrics (change, percentage, trend).",
-              confidence: 0.95,
-            },
-            {
-              id: "salary-comparison-chart",
-              type: "ChartView",
-              reason: "Visual representation of salary comparison.",
-              confidence: 0.9,
-            },
-          ]
-        ),
-      };
+          context
+        );
+      }
+
+      return this.executeOrchestratorActions(
+        withGuardrailModal(withExtractionNote(response, extracted), overwriteModal),
+        context,
+        overwriteTicket ? [overwriteTicket] : []
+      );
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      return this.fail(error, { kind: "input", input: request.originalInput });
+    } finally {
+      this.history.end(userInput);
     }
   }
 
-  // Export report request
-  if (lowerInput.includes("export") && (lowerInput.includes("report") || lowerInput.includes("pdf") || lowerInput.includes("salary"))) {
-    return {
-      render: [
-        {
-          id: "export-success",
-          type: "InsightSummary",
-          visible: true,
-          props: {
-            insights: [{
-              title: "Report Ready",
-              description: "Salary comparison report has been prepared for export.",
-              type: "success" as const,
-            }]
-          },
-          order: 0,
-        },
-        {
-          id: "export-actions",
-          type: "ExportActions",
-          visible: true,
-          props: {
-            formats: [
-              { id: "pdf", label: "PDF" },
-              { id: "csv", label: "CSV" }
-            ]
-          },
-          order: 1,
-        }
-      ],
-      remove: [],
-      update: [],
-      notes: "Export options displayed for salary comparison",
-      debug: createDebugData("User requested export. Showing format options.", []),
-    };
+  /**
+   * Handle form submission
+   * Called when an InputForm is submitted
+   */
+  handleFormSubmission(
+    formData: Record<string, unknown>,
+    options: ProcessOptions = {}
+  ): Promise<OrchestratorAction> {
+    return this.recorder.record({ kind: "form", formData }, () =>
+      this.runFormSubmission(formData, options)
+    );
   }
 
-  // View expenses request
-  if (lowerInput.includes("expense") || lowerInput.includes("expenses")) {
-    // Check if we have expense data
-    const hasExpenseData = dataStore.exists("expenses.total");
+  /**
+   * Store the submitted values and re-run the orchestrator with them
+   */
+  private async runFormSubmission(
+    formData: Record<string, unknown>,
+    options: ProcessOptions
+  ): Promise<OrchestratorAction> {
+    // Map form field names to data store keys and process
+    const mappedData: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(formData)) {
+      const dataKey = mapFormFieldToDataKey(key);
+      mappedData[dataKey] = value;
+    }
 
-    if (!hasExpenseData) {
-      return {
-        render: [
-          {
-            id: "expense-data-form",
-            type: "InputForm",
-            visible: true,
-            props: {
-              title: "Expense Information",
-              description: "Enter your expense details to see a breakdown",
-              fields: [
-                { name: "totalExpenses", label: "Total Monthly Expenses", type: "number" as const, placeholder: "e.g., 35000", required: true },
-                { name: "category", label: "Highest Category", type: "text" as const, placeholder: "e.g., Rent, Food, Transport", required: true }
-              ],
-              submitLabel: "Analyze Expenses"
-            },
-            order: 0,
-          }
-        ],
-        remove: [],
-        update: [],
-        notes: "Collecting expense data for breakdown",
-        debug: createDebugData("No expense data found. Requesting user input.", []),
-      };
+    // Nothing is stored unless every value fits its key
+    const problems = validateFormData(mappedData);
+    if (problems.length > 0) {
+      return this.fail(new DataValidationError(problems));
     }
 
-    // Has expense data - show breakdown
-    const totalExpenses = dataStore.get("expenses.total") ?? 0;
-    const category = dataStore.get("expenses.category") ?? "Other";
+    // Record the data writes and the resulting UI as one undoable step
+    this.history.begin();
+    try {
+      // Store data using the hybrid data store
+      processFormData(mappedData, this.store);
 
-    return {
-      render: [
-        {
-          id: "expense-summary",
-          type: "SummaryCards",
-          visible: true,
-          props: {
-            cards: [
-              { title: "Total Expenses", value: `₹${totalExpenses}`, trend: "neutral" as const },
-              { title: "Top Category", value: `${category}`, trend: "neutral" as const }
-            ]
-          },
-          order: 0,
-        },
-        {
-          id: "expense-breakdown",
-          type: "InsightSummary",
-          visible: true,
-          props: {
-            insights: [{
-              title: "Expense Breakdown",
-              description: `Your highest spending category is ${category} at ₹${totalExpenses}. Consider tracking individual categories for better insights.`,
-              type: "info" as const,
-            }]
-          },
-          order: 1,
-        }
-      ],
-      remove: ["expense-data-form"],
-      update: [],
-      notes: "Displayed expense breakdown",
-      debug: createDebugData(`Showing expense analysis. Total: ₹${totalExpenses}`, []),
-    };
+      // Trigger re-processing with form completion context
+      const formContext = Object.entries(mappedData)
+        .map(([k, v]) => `${k}: ${v}`)
+        .join(", ");
+
+      return await this.processUserInput(`Form submitted with ${formContext}`, options);
+    } finally {
+      this.history.end("Form submission");
+    }
   }
 
-  // Clear/reset request
-  if (lowerInput.includes("clear") || lowerInput.includes("reset") || lowerInput.includes("remove all")) {
-    return {
-      render: [
-        {
-          id: "confirm-clear",
-          type: "GuardrailModal",
-          visible: true,
-          props: {
-            title: "Clear All Components",
-            message: "This will remove all components from the screen. This action cannot be undone.",
-            confirmLabel: "Clear All",
-            cancelLabel: "Cancel",
-          },
-          order: 0,
-        },
-      ],
-      remove: [],
+  /**
+   * Confirm destructive action
+   * Recorded in the action history, so a confirmed clear or deletion can be undone.
+   * A confirmation that doesn't satisfy the policy (wrong typed phrase, or
+   * before its wait is over) is refused with a PolicyViolationError notice,
+   * leaving the modal and its pending operation in place.
+   */
+  confirmDestructiveAction(
+    actionId: string,
+    input: GuardrailConfirmationInput = {}
+  ): OrchestratorAction {
+    const operation = this.pending.get(actionId);
+    const waitedMs = operation ? Date.now() - operation.createdAt : undefined;
+
+    return this.recorder.record({ kind: "confirm", modalId: actionId, phrase: input.phrase, waitedMs }, () => {
+      const refusal = operation && this.checkConfirmation(operation, input, waitedMs ?? 0);
+      if (refusal) {
+        return this.fail(refusal);
+      }
+
+      this.history.begin();
+      try {
+        return this.applyDestructiveAction(actionId);
+      } finally {
+        this.history.end(`Confirmed ${actionId}`);
+      }
+    });
+  }
+
+  /**
+   * Check a confirmation against the policy behind a live guardrail operation
+   * Expired operations aren't checked; confirming them changes nothing.
+   */
+  private checkConfirmation(
+    operation: PendingOperation,
+    input: GuardrailConfirmationInput,
+    waitedMs: number
+  ): PolicyViolationError | null {
+    if (!isPendingOperation(operation, "guardrail") || operation.expiresAt < Date.now()) {
+      return null;
+    }
+    const policy = getGuardrailPolicy(operation.payload.policyId);
+    const problem = policy && checkGuardrailConfirmation(policy, input, waitedMs);
+    return policy && problem ? new PolicyViolationError(policy.id, problem) : null;
+  }
+
+  /**
+   * Apply the destructive action behind a confirmed modal
+   * Runs exactly the operation registered for this modal id; a modal with no
+   * pending operation (or an expired one) is dismissed without side effects.
+   */
+  private applyDestructiveAction(actionId: string): OrchestratorAction {
+    const actions: OrchestratorAction = {
+      render: [],
+      remove: [actionId],
       update: [],
-      notes: "Awaiting confirmation for destructive action",
-      debug: createDebugData(
-        "User requested to clear/reset all components. This is destructive - requiring confirmation.",
-        [
-          {
-            id: "confirm-clear",
-            type: "GuardrailModal",
-            reason: "Destructive action detected. Must get explicit user confirmation.",
-            confidence: 1.0,
-          },
-        ]
-      ),
     };
+
+    const pending = this.pending.take(actionId);
+
+    if (pending.status === "expired") {
+      actions.debug = createDebugData(
+        `Confirmation for "${actionId}" expired; nothing was changed. Ask again to retry.`,
+        []
+      );
+    } else if (pending.status === "missing") {
+      actions.debug = createDebugData(`No pending operation for "${actionId}"; dismissed.`, []);
+    } else if (isPendingOperation(pending.operation, "guardrail")) {
+      const { policyId, scope } = pending.operation.payload;
+      const policy = getGuardrailPolicy(policyId);
+
+      if (policy) {
+        const changedKeys = applyGuardrailData(scope, this.store);
+
+        if (scope.kind === "ui") {
+          actions.remove = [...scope.componentIds, actionId];
+          actions.render = [
+            {
+              id: "empty-state",
+              type: "EmptyState",
+              visible: true,
+              props: {
+                title: "Screen Cleared",
+                description: "All components have been removed.",
+                actionLabel: "Start Over",
+              },
+              order: 0,
+            },
+          ];
+        } else if (scope.kind === "all-data") {
+          actions.remove = Object.keys(this.engine.getState());
+          actions.render = [
+            {
+              id: "empty-state",
+              type: "EmptyState",
+              visible: true,
+              props: {
+                title: "All Data Deleted",
+                description: "Your personal data has been removed. Mock data remains available for demonstration.",
+                actionLabel: "Start Over",
+              },
+              order: 0,
+            },
+          ];
+        }
+
+        actions.debug = createDebugData(
+          `Confirmed "${policy.id}" (${policy.severity}).` +
+            (changedKeys.length > 0 ? ` Data changed: ${changedKeys.join(", ")}.` : ""),
+          []
+        );
+      }
+    }
+
+    // Execute actions
+    for (const id of actions.remove) {
+      this.pending.discard(id);
+      this.engine.dispatch({ type: "remove", id });
+    }
+    for (const comp of actions.render) {
+      this.engine.dispatch({ type: "render", component: comp });
+    }
+
+    return actions;
+  }
+
+  /**
+   * Cancel destructive action
+   * Discards the pending operation so the modal can't be confirmed later.
+   */
+  cancelDestructiveAction(actionId: string): OrchestratorAction {
+    return this.recorder.record({ kind: "cancel", modalId: actionId }, () => {
+      this.pending.discard(actionId);
+      this.engine.dispatch({ type: "remove", id: actionId });
+      return { render: [], remove: [actionId], update: [] };
+    });
   }
 
-  // Destructive data requests - never execute directly, always show guardrail
-  const destructivePatterns = [
-    "delete all",
-    "delete my data",
-    "delete everything",
-    "erase all",
-    "erase everything",
-    "erase my data",
-    "remove all data",
-    "remove my data",
-    "remove everything",
-    "destroy all",
-    "destroy my data",
-    "wipe all",
-    "wipe everything",
-    "wipe my data",
-    "clear all data",
-    "clear my data",
-    "reset everything",
-    "reset all data",
-    "forget everything",
-    "forget my data",
-  ];
-
-  const isDestructiveRequest = destructivePatterns.some((pattern) =>
-    lowerInput.includes(pattern)
-  );
-
-  if (isDestructiveRequest) {
-    // Check what data exists to provide specific warning
-    const sourceSummary = dataStore.getSourceSummary();
-    const hasUserData = sourceSummary.user > 0;
-    const hasMockData = sourceSummary.mock > 0;
-
-    let message = "This action will permanently delete your data. ";
-    if (hasUserData) {
-      message += `You have ${sourceSummary.user} user-provided data entries that will be lost. `;
+  /**
+   * Serializable copy of the orchestrator's UI, data, intent memory and
+   * pending confirmations, as accepted by loadState()
+   */
+  captureState(): RecordedState {
+    return captureState(this.engine, this.store, this.memory, this.pending);
+  }
+
+  /**
+   * Replace the orchestrator's UI, data, intent memory and pending confirmations
+   * Undo history is cleared; handlers are kept. Used to start a replay from a
+   * recording's initial state.
+   */
+  loadState(state: RecordedState): void {
+    for (const key of this.store.keys()) {
+      if (!(key in state.data)) {
+        this.store.delete(key);
+      }
     }
-    if (hasMockData) {
-      message += "Mock data will remain available for new sessions. ";
+    for (const [key, entry] of Object.entries(state.data)) {
+      this.store.restore(key, entry);
     }
-    message += "This action cannot be undone.";
 
-    return {
-      render: [
-        {
-          id: "confirm-data-deletion",
-          type: "GuardrailModal",
-          visible: true,
-          props: {
-            title: "Delete All Data?",
-            message,
-            confirmLabel: "Delete Everything",
-            cancelLabel: "Keep My Data",
-          },
-          order: 0,
-        },
-      ],
-      remove: [],
-      update: [],
-      notes: "Awaiting confirmation for data deletion",
-      debug: createDebugData(
-        `Destructive data request detected. User has ${dataStore.getSourceSummary().user} entries. Showing guardrail modal.`,
-        [
-          {
-            id: "confirm-data-deletion",
-            type: "GuardrailModal",
-            reason: "Data deletion is destructive. Must get explicit user confirmation.",
-            confidence: 1.0,
-          },
-        ]
-      ),
-    };
+    this.memory.import({
+      intents: [...state.memory.intents],
+      references: new Map(state.memory.references),
+      currentIntentId: state.memory.currentIntentId,
+    });
+
+    // Keep each confirmation's original time-to-live, counted from now
+    this.pending.clear();
+    for (const operation of state.pending) {
+      this.pending.register(operation.modalId, operation.kind, operation.payload, {
+        ttlMs: operation.expiresAt - operation.createdAt,
+      });
+    }
+
+    this.engine.reset();
+    this.engine.dispatchAll(
+      Object.values(state.ui).map((component) => ({ type: "render" as const, component }))
+    );
+    this.history.clear();
   }
 
-  // Confirm clear action
-  if (lowerInput.includes("confirmed") || lowerInput.includes("confirm clear")) {
-    const state = uiEngine.getState();
-    const allIds = Object.keys(state);
-    return {
-      render: [
-        {
-          id: "empty-state",
-          type: "EmptyState",
-          visible: true,
-          props: {
-            title: "Screen Cleared",
-            description: "All components have been removed.",
-            actionLabel: "Start Over",
-          },
-          order: 0,
-        },
-      ],
-      remove: [...allIds, "confirm-clear"],
-      update: [],
-      notes: "Cleared all components after confirmation",
-      debug: createDebugData(
-        "User confirmed clear action. Removing all components and resetting to empty state.",
-        [
-          {
-            id: "empty-state",
-            type: "EmptyState",
-            reason: "Reset to initial state after confirmed clear action.",
-            confidence: 1.0,
-          },
-        ]
-      ),
-    };
+  /**
+   * Show the UI recorded at `version` in the engine's history
+   * Time travel is UI-only: data, intent memory, pending confirmations and undo
+   * history keep their current values. A GuardrailModal whose confirmation is
+   * no longer pending is left out, since confirming it could change nothing.
+   */
+  jumpTo(version: number): UIStateResult | null {
+    return this.engine.jumpTo(version, {
+      exclude: (component) =>
+        component.type === "GuardrailModal" && this.pending.get(component.id) === undefined,
+    });
   }
 
-  // Default: show empty state
-  return {
-    render: [
-      {
-        id: "empty-state",
-        type: "EmptyState",
-        visible: true,
-        props: {
-          title: "What would you like to see?",
-          description: "Try asking for a salary comparison, chart, or summary.",
-          actionLabel: "Get Started",
-        },
-        order: 0,
-      },
-    ],
-    remove: [],
-    update: [],
-    notes: "Displayed empty state for new user",
-    debug: createDebugData(
-      "User input did not match any known patterns. Showing empty state with helpful suggestions.",
-      [
-        {
-          id: "empty-state",
-          type: "EmptyState",
-          reason: "No specific intent recognized. Providing onboarding options.",
-          confidence: 0.4,
-        },
-      ]
-    ),
-  };
+  /**
+   * Clear UI, data, intent memory, pending confirmations and undo history
+   * The data store keeps its mock defaults; handlers and provider are kept.
+   */
+  reset(): void {
+    this.loadState({
+      ui: {},
+      data: new DataStore().export(),
+      memory: { intents: [], references: [], currentIntentId: null },
+      pending: [],
+    });
+  }
 }
 
 /**
- * Main orchestrator function
- * Processes user input and updates UI accordingly
+ * Create an isolated orchestrator
+ * Nothing is shared with the default instance or other orchestrators.
  */
-export async function processUserInput(userInput: string): Promise<OrchestratorAction> {
-  if (!userInput || userInput.trim().length === 0) {
-    return { render: [], remove: [], update: [] };
-  }
-
-  try {
-    // Resolve natural language references like "this", "that", "the chart"
-    const resolvedInput = resolveReferences(userInput);
-    const response = await callAIOrchestrator(resolvedInput);
-    return executeOrchestratorActions(response);
-  } catch (error) {
-    console.error("Orchestrator error:", error);
-    return {
-      render: [
-        {
-          id: "error-state",
-          type: "EmptyState",
-          visible: true,
-          props: {
-            title: "Something went wrong",
-            description: "Please try again.",
-          },
-          order: 0,
-        },
-      ],
-      remove: [],
-      update: [],
-      debug: createDebugData(
-        `Error processing request: ${error instanceof Error ? error.message : String(error)}`,
-        [
-          {
-            id: "error-state",
-            type: "EmptyState",
-            reason: "Error occurred. Showing user-friendly error message.",
-            confidence: 1.0,
-          },
-        ]
-      ),
-    };
-  }
+export function createOrchestrator(options: OrchestratorOptions = {}): UIOrchestrator {
+  return new UIOrchestrator(options);
 }
 
 /**
- * Handle form submission
- * Called when an InputForm is submitted
+ * Default instance, built on the shared singletons
+ * Used by the module-level functions and by components outside an
+ * OrchestratorScope.
  */
-export async function handleFormSubmission(formData: Record<string, unknown>): Promise<OrchestratorAction> {
-  // Map form field names to data store keys and process
-  const mappedData: Record<string, unknown> = {};
+export const defaultOrchestrator = new UIOrchestrator({
+  engine: uiEngine,
+  store: dataStore,
+  memory: intentMemory,
+  pending: pendingConfirmations,
+  history: actionHistory,
+  recorder: sessionRecorder,
+});
 
-  for (const [key, value] of Object.entries(formData)) {
-    const dataKey = mapFormFieldToDataKey(key);
-    mappedData[dataKey] = value;
-  }
+/**
+ * Register handlers for component events
+ */
+export function registerHandlers(handlers: HandlerRegistry): void {
+  defaultOrchestrator.registerHandlers(handlers);
+}
 
-  // Store data using the hybrid data store
-  processFormData(mappedData);
+/**
+ * Clear all handlers
+ */
+export function clearHandlers(): void {
+  defaultOrchestrator.clearHandlers();
+}
 
-  // Trigger re-processing with form completion context
-  const formContext = Object.entries(mappedData)
-    .map(([k, v]) => `${k}: ${v}`)
-    .join(", ");
+/**
+ * Route a component event on the default orchestrator
+ */
+export function dispatchComponentEvent(event: ComponentEvent): boolean {
+  return defaultOrchestrator.dispatchEvent(event);
+}
 
-  return processUserInput(`Form submitted with ${formContext}`);
+/**
+ * Add a middleware to this orchestrator
+ * Returns a function that removes it again
+ */
+export function registerMiddleware(plugin: OrchestratorMiddleware): () => void {
+  return defaultOrchestrator.registerMiddleware(plugin);
 }
 
 /**
- * Confirm destructive action
+ * Remove a middleware by name
  */
-export function confirmDestructiveAction(actionId: string): OrchestratorAction {
-  const actions: OrchestratorAction = {
-    render: [],
-    remove: [],
-    update: [],
-  };
+export function unregisterMiddleware(name: string): boolean {
+  return defaultOrchestrator.unregisterMiddleware(name);
+}
 
-  if (actionId === "confirm-clear" || actionId.startsWith("confirm-")) {
-    // Clear all components
-    const state = uiEngine.getState();
-    actions.remove = Object.keys(state);
-    actions.render = [
-      {
-        id: "empty-state",
-        type: "EmptyState",
-        visible: true,
-        props: {
-          title: "Screen Cleared",
-          description: "All components have been removed.",
-          actionLabel: "Start Over",
-        },
-        order: 0,
-      },
-    ];
-  } else if (actionId === "confirm-data-deletion") {
-    // Delete all user data but keep mock data
-    dataStore.clear(); // This resets to mock data defaults
-
-    // Also clear all components
-    const state = uiEngine.getState();
-    actions.remove = Object.keys(state);
-    actions.render = [
-      {
-        id: "empty-state",
-        type: "EmptyState",
-        visible: true,
-        props: {
-          title: "All Data Deleted",
-          description: "Your personal data has been removed. Mock data remains available for demonstration.",
-          actionLabel: "Start Over",
-        },
-        order: 0,
-      },
-    ];
-  }
+/**
+ * Get registered middleware in execution order
+ */
+export function getMiddleware(): OrchestratorMiddleware[] {
+  return defaultOrchestrator.getMiddleware();
+}
 
-  // Attach handlers
-  actions.render = actions.render.map((comp) => attachHandlers(comp, handlerRegistry));
+/**
+ * Select the decision provider used by processUserInput
+ */
+export function setOrchestratorProvider(
+  provider: OrchestratorProvider | OrchestratorProviderConfig
+): void {
+  defaultOrchestrator.setProvider(provider);
+}
 
-  // Execute actions
-  for (const id of actions.remove) {
-    uiEngine.dispatch({ type: "remove", id });
-  }
-  for (const comp of actions.render) {
-    uiEngine.dispatch({ type: "render", component: comp });
-  }
+/**
+ * Get the active decision provider
+ */
+export function getOrchestratorProvider(): OrchestratorProvider {
+  return defaultOrchestrator.getProvider();
+}
 
-  return actions;
+/**
+ * Revert the most recent action set, including its data store writes
+ */
+export function undoLastAction(): OrchestratorAction {
+  return defaultOrchestrator.undoLastAction();
+}
+
+/**
+ * Re-apply the most recently undone action set
+ */
+export function redoLastAction(): OrchestratorAction {
+  return defaultOrchestrator.redoLastAction();
+}
+
+/**
+ * Process user input on the default orchestrator
+ * See UIOrchestrator.processUserInput.
+ */
+export function processUserInput(
+  userInput: string,
+  options: ProcessOptions = {}
+): Promise<OrchestratorAction> {
+  return defaultOrchestrator.processUserInput(userInput, options);
+}
+
+/**
+ * Handle form submission
+ * Called when an InputForm is submitted
+ */
+export function handleFormSubmission(
+  formData: Record<string, unknown>,
+  options: ProcessOptions = {}
+): Promise<OrchestratorAction> {
+  return defaultOrchestrator.handleFormSubmission(formData, options);
+}
+
+/**
+ * Confirm destructive action
+ */
+export function confirmDestructiveAction(
+  actionId: string,
+  input?: GuardrailConfirmationInput
+): OrchestratorAction {
+  return defaultOrchestrator.confirmDestructiveAction(actionId, input);
 }
 
 /**
  * Cancel destructive action
  */
 export function cancelDestructiveAction(actionId: string): OrchestratorAction {
-  uiEngine.dispatch({ type: "remove", id: actionId });
-  return { render: [], remove: [actionId], update: [] };
+  return defaultOrchestrator.cancelDestructiveAction(actionId);
 }
 
+/**
+ * Replace the default orchestrator's state
+ * See UIOrchestrator.loadState.
+ */
+export function loadOrchestratorState(state: RecordedState): void {
+  defaultOrchestrator.loadState(state);
+}
+
+// Re-export provider contract
+export {
+  simulatedProvider,
+  createTamboProvider,
+  createHttpProvider,
+  createServerProvider,
+  createProvider,
+} from "./orchestrator-providers";
+export type {
+  OrchestratorResponse,
+  OrchestratorRequest,
+  OrchestratorProvider,
+  OrchestratorProviderConfig,
+} from "./orchestrator-providers";
+
+export type { ValidationRejection } from "./response-validator";
+export {
+  OrchestrationError,
+  ProviderTimeoutError,
+  ProviderUnavailableError,
+  InvalidResponseError,
+  PolicyViolationError,
+  DataValidationError,
+  HandlerFailureError,
+  InvalidEventError,
+  DEFAULT_RETRY_POLICY,
+  describeOrchestrationError,
+  toOrchestrationError,
+  withRetry,
+} from "./orchestration-errors";
+export type {
+  OrchestrationErrorKind,
+  ErrorDescription,
+  RetryPolicy,
+} from "./orchestration-errors";
+export { ComponentEventBus, bindComponentEvents, getComponentEvents } from "./component-events";
+export type { ComponentEvent, ComponentEventHandler, HandlerRegistry } from "./component-events";
+export { MiddlewarePipeline, veto } from "./orchestrator-middleware";
+export type {
+  OrchestratorMiddleware,
+  MiddlewareRequest,
+  MiddlewareResponseRequest,
+  MiddlewareVeto,
+} from "./orchestrator-middleware";
+export { createSnapshot, restoreSnapshot } from "./orchestration-snapshot";
+export type { OrchestrationSnapshot } from "./orchestration-snapshot";
+export { buildContext, getMemoryContext, getPendingContext } from "./orchestration-context";
+export type {
+  OrchestrationContext,
+  ContextComponent,
+  ContextDataEntry,
+  ContextIntent,
+  PendingConfirmation,
+} from "./orchestration-context";
+export { OrchestrationQueue, isAbortError } from "./orchestration-queue";
+export type { QueueMode, QueueSnapshot, QueuedRequest } from "./orchestration-queue";
+export { actionHistory, ActionHistory, parseHistoryCommand } from "./action-history";
+export type { HistoryEntry, HistorySnapshot, HistoryCommand } from "./action-history";
+export {
+  pendingConfirmations,
+  PendingConfirmationRegistry,
+  isPendingOperation,
+} from "./pending-confirmations";
+export type {
+  PendingOperation,
+  PendingOperationKind,
+  PendingOperationTypes,
+} from "./pending-confirmations";
+export { sessionRecorder, SessionRecorder } from "./session-recorder";
+export type {
+  SessionEvent,
+  SessionRecording,
+  RecordedStep,
+  RecordedState,
+  RecorderSnapshot,
+} from "./session-recorder";
+
 // Re-export data store for convenience
 export { dataStore, DataStore } from "./data-store";
 export type { DataEntry, DataSource } from "./data-store";
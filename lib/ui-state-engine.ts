@@ -7,6 +7,11 @@
  *
  * Integrates with Intent Memory for tracking user intents and
  * resolving natural language references like "this", "that", "the chart".
+ *
+ * Optionally keeps a bounded history of transitions for time travel: jump
+ * to any recorded version, diff two versions, or fork a new engine from a
+ * past state. Time travel covers the UI state only - data store values,
+ * intent memory, pending confirmations and undo history are not rewound.
  */
 
 import type { IntentMemoryEngine } from "./intent-memory";
@@ -60,6 +65,96 @@ export interface UIStateResult {
   visibilityChanged: string[];
 }
 
+/**
+ * A transition that can appear in the history
+ * "init" is the state when history was enabled.
+ */
+export type UIHistoryAction = UIAction | { type: "reset" } | { type: "init" };
+
+/**
+ * One recorded state transition
+ */
+export interface UIHistoryEntry {
+  /** Engine version after the transition */
+  version: number;
+  action: UIHistoryAction;
+  result: UIStateResult;
+  /** State after the transition */
+  state: UIState;
+  timestamp: number;
+}
+
+/**
+ * Recorded history and the version currently shown
+ */
+export interface UIHistorySnapshot {
+  enabled: boolean;
+  entries: UIHistoryEntry[];
+  /** Version of the entry the engine is showing */
+  current: number;
+  /** Whether that entry is older than the latest one */
+  rewound: boolean;
+  limit: number;
+}
+
+/**
+ * Differences between two versions
+ */
+export interface UIStateDiff {
+  from: number;
+  to: number;
+  added: string[];
+  removed: string[];
+  /** Components whose props or order differ */
+  updated: string[];
+  visibilityChanged: string[];
+  /** Names of the props that differ, by component id */
+  changedProps: Record<string, string[]>;
+}
+
+/**
+ * Default number of history entries kept
+ */
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+/**
+ * Compare two states component by component
+ */
+export function diffStates(before: UIState, after: UIState): Omit<UIStateDiff, "from" | "to"> {
+  const diff: Omit<UIStateDiff, "from" | "to"> = {
+    added: [],
+    removed: [],
+    updated: [],
+    visibilityChanged: [],
+    changedProps: {},
+  };
+
+  for (const id of Object.keys(before)) {
+    if (!(id in after)) diff.removed.push(id);
+  }
+
+  for (const [id, next] of Object.entries(after)) {
+    const prev = before[id];
+    if (!prev) {
+      diff.added.push(id);
+      continue;
+    }
+    if (prev === next) continue;
+
+    const keys = new Set([...Object.keys(prev.props), ...Object.keys(next.props)]);
+    const changed = [...keys].filter(
+      (key) => JSON.stringify(prev.props[key]) !== JSON.stringify(next.props[key])
+    );
+    if (changed.length > 0) diff.changedProps[id] = changed;
+    if (changed.length > 0 || prev.order !== next.order || prev.type !== next.type) {
+      diff.updated.push(id);
+    }
+    if (prev.visible !== next.visible) diff.visibilityChanged.push(id);
+  }
+
+  return diff;
+}
+
 /**
  * UI State Engine class
  *
@@ -72,9 +167,15 @@ export class UIStateEngine {
   private intentMemory?: IntentMemoryEngine;
   private nextOrder: number = 0;
   private version: number = 0;
+  /** Recorded transitions, oldest first; null while history is disabled */
+  private history: UIHistoryEntry[] | null = null;
+  private historyLimit: number = DEFAULT_HISTORY_LIMIT;
+  /** Index of the entry the engine is showing */
+  private cursor: number = -1;
 
   /**
    * Get the current version - increments on every state change
+   * Never decreases, including when jumping back through the history.
    */
   getVersion(): number {
     return this.version;
@@ -125,6 +226,7 @@ export class UIStateEngine {
     const result = this.reduce(this.state, action);
     this.state = result.state;
     this.version++;
+    this.record(action, result);
     this.notify(result);
     return result;
   }
@@ -159,10 +261,179 @@ export class UIStateEngine {
       updated: [],
       visibilityChanged: [],
     };
+    this.record({ type: "reset" }, result);
     this.notify(result);
     return result;
   }
 
+  /**
+   * Start recording transitions, keeping at most `limit` entries
+   * The current state becomes the first entry. Calling it again only
+   * changes the limit.
+   */
+  enableHistory(limit: number = DEFAULT_HISTORY_LIMIT): void {
+    this.historyLimit = Math.max(1, limit);
+    if (this.history) {
+      this.trimHistory();
+      return;
+    }
+
+    const state = { ...this.state };
+    this.history = [
+      {
+        version: this.version,
+        action: { type: "init" },
+        result: { state, added: [], removed: [], updated: [], visibilityChanged: [] },
+        state,
+        timestamp: Date.now(),
+      },
+    ];
+    this.cursor = 0;
+  }
+
+  /**
+   * Stop recording and drop the history
+   */
+  disableHistory(): void {
+    this.history = null;
+    this.cursor = -1;
+  }
+
+  /**
+   * Get the recorded history
+   */
+  getHistory(): UIHistorySnapshot {
+    const entries = this.history ?? [];
+    return {
+      enabled: this.history !== null,
+      entries: [...entries],
+      current: this.currentEntryVersion(),
+      rewound: this.isRewound(),
+      limit: this.historyLimit,
+    };
+  }
+
+  /**
+   * Whether the engine is showing an entry older than the latest one
+   */
+  isRewound(): boolean {
+    return this.history !== null && this.cursor < this.history.length - 1;
+  }
+
+  /**
+   * Show the state recorded at `version`
+   * Only the UI state changes. The jump is a state change of its own, so the
+   * engine version still increases; the entry keeps the version it was
+   * recorded at. Later entries are kept, so the engine can jump forward again
+   * until the next dispatch, which discards them. Components matching
+   * `options.exclude` are left out of the state shown. Returns null if the
+   * version is not in the history.
+   */
+  jumpTo(
+    version: number,
+    options: { exclude?: (component: UIComponent) => boolean } = {}
+  ): UIStateResult | null {
+    const index = this.findEntry(version);
+    if (index === -1 || !this.history) return null;
+
+    const { exclude } = options;
+    const target = exclude
+      ? Object.fromEntries(
+          Object.entries(this.history[index].state).filter(([, component]) => !exclude(component))
+        )
+      : { ...this.history[index].state };
+    const { added, removed, updated, visibilityChanged } = diffStates(this.state, target);
+    const result: UIStateResult = { state: { ...target }, added, removed, updated, visibilityChanged };
+
+    this.state = target;
+    this.version++;
+    this.cursor = index;
+    this.notify(result);
+    return result;
+  }
+
+  /**
+   * Differences between the states recorded at two versions
+   * `toVersion` defaults to the entry currently shown. Returns null if either
+   * version is not in the history.
+   */
+  diff(fromVersion: number, toVersion: number = this.currentEntryVersion()): UIStateDiff | null {
+    const from = this.findEntry(fromVersion);
+    const to = this.findEntry(toVersion);
+    if (from === -1 || to === -1 || !this.history) return null;
+
+    return {
+      from: fromVersion,
+      to: toVersion,
+      ...diffStates(this.history[from].state, this.history[to].state),
+    };
+  }
+
+  /**
+   * New engine starting from the state recorded at `version` (default: the entry shown)
+   * The fork gets the history up to that version and nothing else - no
+   * listeners or intent memory - so it can diverge without touching this one.
+   * Returns null if the version is not in the history.
+   */
+  fork(version: number = this.currentEntryVersion()): UIStateEngine | null {
+    const index = this.findEntry(version);
+    if (index === -1 || !this.history) return null;
+
+    const fork = new UIStateEngine();
+    fork.state = { ...this.history[index].state };
+    fork.version = version;
+    fork.nextOrder = this.nextOrder;
+    fork.historyLimit = this.historyLimit;
+    fork.history = this.history.slice(0, index + 1);
+    fork.cursor = index;
+    return fork;
+  }
+
+  /**
+   * Version of the entry the engine is showing (the engine version without history)
+   */
+  private currentEntryVersion(): number {
+    return this.history?.[this.cursor]?.version ?? this.version;
+  }
+
+  /**
+   * Index of the history entry for a version, or -1
+   */
+  private findEntry(version: number): number {
+    return this.history?.findIndex((entry) => entry.version === version) ?? -1;
+  }
+
+  /**
+   * Append a transition to the history, if enabled
+   * A transition made after jumping back discards the entries after the jump.
+   */
+  private record(action: UIHistoryAction, result: UIStateResult): void {
+    if (!this.history) return;
+
+    this.history.splice(this.cursor + 1);
+    this.history.push({
+      version: this.version,
+      action,
+      result,
+      state: result.state,
+      timestamp: Date.now(),
+    });
+    this.cursor = this.history.length - 1;
+    this.trimHistory();
+  }
+
+  /**
+   * Drop the oldest entries beyond the limit
+   */
+  private trimHistory(): void {
+    if (!this.history) return;
+    const excess = this.history.length - this.historyLimit;
+    if (excess > 0) {
+      this.history.splice(0, excess);
+      this.cursor = Math.max(0, this.cursor - excess);
+    }
+  }
+
   /**
    * Attach an intent memory engine for automatic intent tracking
    */
@@ -14,6 +14,7 @@ import {
   resolveRef,
   indexComponents,
 } from "./intent-memory";
+import { useOrchestrator } from "./use-orchestrator";
 
 /**
  * Hook to access the intent memory engine
@@ -156,11 +157,14 @@ export function useUIWithIntentMemory() {
 
 /**
  * Hook to auto-index components for intent reference
+ * Indexes into the intent memory of the nearest orchestrator.
  */
 export function useComponentIndexer(components: Array<{ id: string; type: string }>) {
+  const { memory } = useOrchestrator();
+
   useEffect(() => {
-    indexComponents(components);
-  }, [components]);
+    indexComponents(components, memory);
+  }, [components, memory]);
 }
 
 // Re-export types and helpers
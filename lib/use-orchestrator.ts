@@ -0,0 +1,26 @@
+/**
+ * React integration for UI Orchestrator instances
+ *
+ * Components read the orchestrator from the nearest OrchestratorScope; outside
+ * any scope they get the default (singleton-backed) instance.
+ */
+
+"use client";
+
+import { createContext, useContext } from "react";
+import { defaultOrchestrator, type UIOrchestrator } from "./ui-orchestrator";
+
+/**
+ * Orchestrator used by the hooks in this tree
+ */
+export const OrchestratorContext = createContext<UIOrchestrator>(defaultOrchestrator);
+
+/**
+ * Hook to get the nearest orchestrator
+ */
+export function useOrchestrator(): UIOrchestrator {
+  return useContext(OrchestratorContext);
+}
+
+export { createOrchestrator, defaultOrchestrator, UIOrchestrator } from "./ui-orchestrator";
+export type { OrchestratorOptions, OrchestratorErrorReport, HandlerRegistry } from "./ui-orchestrator";
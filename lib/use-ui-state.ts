@@ -1,12 +1,22 @@
 /**
  * React integration for UI State Engine
+ *
+ * Hooks bind to the UI engine of the nearest OrchestratorScope (the shared
+ * uiEngine outside of one).
  */
 
 "use client";
 
 import { useCallback, useEffect, useState, useRef } from "react";
-import type { UIComponent, UIStateResult } from "./ui-state-engine";
-import { actions, defineComponent, type UIAction, uiEngine } from "./ui-state-engine";
+import type { UIComponent, UIHistorySnapshot, UIStateResult } from "./ui-state-engine";
+import {
+  actions,
+  defineComponent,
+  DEFAULT_HISTORY_LIMIT,
+  type UIAction,
+  uiEngine,
+} from "./ui-state-engine";
+import { useOrchestrator } from "./use-orchestrator";
 
 // Cached server snapshots for stability
 const EMPTY_STATE = {};
@@ -17,20 +27,21 @@ const EMPTY_COMPONENTS: UIComponent[] = [];
  * Returns the current state and a dispatcher
  */
 export function useUIState() {
+  const { engine } = useOrchestrator();
   const [, forceUpdate] = useState({});
-  const stateRef = useRef(uiEngine.getState());
+  const stateRef = useRef(engine.getState());
 
   useEffect(() => {
-    const unsubscribe = uiEngine.subscribe(() => {
-      stateRef.current = uiEngine.getState();
+    const unsubscribe = engine.subscribe(() => {
+      stateRef.current = engine.getState();
       forceUpdate({});
     });
     return unsubscribe;
-  }, []);
+  }, [engine]);
 
   const dispatch = useCallback((action: UIAction) => {
-    return uiEngine.dispatch(action);
-  }, []);
+    return engine.dispatch(action);
+  }, [engine]);
 
   return { state: stateRef.current, dispatch };
 }
@@ -39,24 +50,25 @@ export function useUIState() {
  * Hook to get visible components, sorted by order
  */
 export function useVisibleComponents() {
+  const { engine } = useOrchestrator();
   const [, forceUpdate] = useState({});
   const componentsRef = useRef<UIComponent[]>(EMPTY_COMPONENTS);
   const versionRef = useRef<number>(-1);
 
   // Initial read (only on first mount when versionRef is -1)
   if (versionRef.current === -1) {
-    versionRef.current = uiEngine.getVersion();
-    componentsRef.current = uiEngine.getVisibleComponents();
+    versionRef.current = engine.getVersion();
+    componentsRef.current = engine.getVisibleComponents();
   }
 
   useEffect(() => {
-    const unsubscribe = uiEngine.subscribe(() => {
-      versionRef.current = uiEngine.getVersion();
-      componentsRef.current = uiEngine.getVisibleComponents();
+    const unsubscribe = engine.subscribe(() => {
+      versionRef.current = engine.getVersion();
+      componentsRef.current = engine.getVisibleComponents();
       forceUpdate({});
     });
     return unsubscribe;
-  }, []);
+  }, [engine]);
 
   return componentsRef.current;
 }
@@ -65,24 +77,25 @@ export function useVisibleComponents() {
  * Hook to get a specific component
  */
 export function useComponent(id: string) {
+  const { engine } = useOrchestrator();
   const [, forceUpdate] = useState({});
   const componentRef = useRef<UIComponent | undefined>(undefined);
   const versionRef = useRef<number>(-1);
 
   // Initial read (only on first mount when versionRef is -1)
   if (versionRef.current === -1) {
-    versionRef.current = uiEngine.getVersion();
-    componentRef.current = uiEngine.getComponent(id);
+    versionRef.current = engine.getVersion();
+    componentRef.current = engine.getComponent(id);
   }
 
   useEffect(() => {
-    const unsubscribe = uiEngine.subscribe(() => {
-      versionRef.current = uiEngine.getVersion();
-      componentRef.current = uiEngine.getComponent(id);
+    const unsubscribe = engine.subscribe(() => {
+      versionRef.current = engine.getVersion();
+      componentRef.current = engine.getComponent(id);
       forceUpdate({});
     });
     return unsubscribe;
-  }, [id]);
+  }, [engine, id]);
 
   return componentRef.current;
 }
@@ -92,9 +105,10 @@ export function useComponent(id: string) {
  * Returns convenient methods for common UI operations
  */
 export function useUIControls() {
+  const { engine } = useOrchestrator();
   const dispatch = useCallback((action: UIAction) => {
-    return uiEngine.dispatch(action);
-  }, []);
+    return engine.dispatch(action);
+  }, [engine]);
 
   const render = useCallback((component: UIComponent) => {
     return dispatch(actions.render(component));
@@ -121,8 +135,8 @@ export function useUIControls() {
   }, [dispatch]);
 
   const clear = useCallback(() => {
-    return uiEngine.reset();
-  }, []);
+    return engine.reset();
+  }, [engine]);
 
   return {
     render,
@@ -142,18 +156,72 @@ export function useUIControls() {
  * Useful for animations and transitions
  */
 export function useUIChange() {
+  const { engine } = useOrchestrator();
   const [lastChange, setLastChange] = useState<UIStateResult | null>(null);
 
   useEffect(() => {
-    const unsubscribe = uiEngine.subscribe((result) => {
+    const unsubscribe = engine.subscribe((result) => {
       setLastChange(result);
     });
     return unsubscribe;
-  }, []);
+  }, [engine]);
 
   return lastChange;
 }
 
+/**
+ * Hook for time travel through the engine's history
+ * Records history (keeping at most `limit` entries) only while `enabled`, e.g.
+ * while the DebugPanel is open. Turning it off returns the UI to its latest
+ * version and drops the history. Jumps only move the UI; see
+ * UIOrchestrator.jumpTo().
+ */
+export function useUIHistory(enabled: boolean, limit: number = DEFAULT_HISTORY_LIMIT) {
+  const orchestrator = useOrchestrator();
+  const { engine } = orchestrator;
+  const [history, setHistory] = useState<UIHistorySnapshot>(() => engine.getHistory());
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    engine.enableHistory(limit);
+    const unsubscribe = engine.subscribe(() => {
+      setHistory(engine.getHistory());
+    });
+    // Pick up the entry created when history was enabled
+    queueMicrotask(() => setHistory(engine.getHistory()));
+
+    return () => {
+      unsubscribe();
+      const { entries, rewound } = engine.getHistory();
+      if (rewound) {
+        orchestrator.jumpTo(entries[entries.length - 1].version);
+      }
+      engine.disableHistory();
+      setHistory(engine.getHistory());
+    };
+  }, [orchestrator, engine, enabled, limit]);
+
+  const jumpTo = useCallback((version: number) => orchestrator.jumpTo(version), [orchestrator]);
+
+  const diff = useCallback(
+    (fromVersion: number, toVersion?: number) => engine.diff(fromVersion, toVersion),
+    [engine]
+  );
+
+  const fork = useCallback((version?: number) => engine.fork(version), [engine]);
+
+  return { ...history, jumpTo, diff, fork };
+}
+
 // Re-export types and helpers
-export type { UIComponent, UIState, UIAction, UIStateResult } from "./ui-state-engine";
+export type {
+  UIComponent,
+  UIState,
+  UIAction,
+  UIStateResult,
+  UIHistoryEntry,
+  UIHistorySnapshot,
+  UIStateDiff,
+} from "./ui-state-engine";
 export { uiEngine, defineComponent, actions };
@@ -0,0 +1,24 @@
+/**
+ * Golden utterance runner
+ *
+ * Usage: npm run golden [-- path/to/file.json]
+ * Defaults to golden/orchestrator.json. Exits non-zero if any case fails.
+ */
+
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { formatGoldenReport, parseGoldenSuite, runGoldenSuite } from "../lib/golden-harness";
+
+async function main(): Promise<void> {
+  const file = resolve(process.argv[2] ?? "golden/orchestrator.json");
+  const suite = parseGoldenSuite(JSON.parse(readFileSync(file, "utf8")));
+
+  const results = await runGoldenSuite(suite);
+  console.log(formatGoldenReport(results));
+  process.exitCode = results.every((result) => result.passed) ? 0 : 1;
+}
+
+main().catch((error) => {
+  process.stderr.write(`${error instanceof Error ? error.stack : String(error)}\n`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,106 @@
+/**
+ * Undo/redo of UI and data changes
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ActionHistory, parseHistoryCommand } from "../lib/action-history";
+import { UIStateEngine } from "../lib/ui-state-engine";
+import { DataStore } from "../lib/data-store";
+import { createOrchestrator } from "../lib/ui-orchestrator";
+
+function setup() {
+  const engine = new UIStateEngine();
+  const store = new DataStore();
+  return { engine, store, history: new ActionHistory(engine, store) };
+}
+
+describe("ActionHistory", () => {
+  it("undoes and redoes UI and data changes as one step", () => {
+    const { engine, store, history } = setup();
+
+    history.begin();
+    engine.dispatch({ type: "render", component: { id: "a", type: "EmptyState", props: {}, visible: true } });
+    store.set("salary.lastMonth", 5000);
+    const entry = history.end("first");
+
+    assert.equal(entry?.label, "first");
+    assert.deepEqual(history.getSnapshot(), { canUndo: true, canRedo: false, undoLabel: "first", redoLabel: undefined });
+
+    history.undo();
+    assert.deepEqual(engine.getState(), {});
+    assert.equal(store.has("salary.lastMonth"), false);
+
+    history.redo();
+    assert.ok(engine.getState().a);
+    assert.equal(store.get("salary.lastMonth"), 5000);
+    assert.equal(store.isUserProvided("salary.lastMonth"), true);
+  });
+
+  it("folds nested changes into one entry and skips empty ones", () => {
+    const { engine, history } = setup();
+
+    history.begin();
+    history.begin();
+    engine.dispatch({ type: "render", component: { id: "a", type: "EmptyState", props: {}, visible: true } });
+    assert.equal(history.end("inner"), null);
+    engine.dispatch({ type: "render", component: { id: "b", type: "EmptyState", props: {}, visible: true } });
+    assert.equal(history.end("outer")?.redo.length, 2);
+
+    history.begin();
+    assert.equal(history.end("nothing"), null);
+    assert.equal(history.getSnapshot().undoLabel, "outer");
+  });
+
+  it("clears redo when a new change is recorded", () => {
+    const { engine, history } = setup();
+
+    history.begin();
+    engine.dispatch({ type: "render", component: { id: "a", type: "EmptyState", props: {}, visible: true } });
+    history.end("first");
+    history.undo();
+
+    history.begin();
+    engine.dispatch({ type: "render", component: { id: "b", type: "EmptyState", props: {}, visible: true } });
+    history.end("second");
+
+    assert.equal(history.getSnapshot().canRedo, false);
+    assert.equal(history.redo(), null);
+  });
+
+  it("never records guardrail modals", () => {
+    const { engine, history } = setup();
+
+    history.begin();
+    engine.dispatch({ type: "render", component: { id: "modal", type: "GuardrailModal", props: {}, visible: true } });
+    assert.equal(history.end("ask"), null);
+  });
+});
+
+describe("undo through the orchestrator", () => {
+  it("restores the screen after a confirmed clear without the spent modal", async () => {
+    const orchestrator = createOrchestrator({ provider: { kind: "simulated" } });
+    await orchestrator.processUserInput("show my expenses");
+    const before = Object.keys(orchestrator.engine.getState()).sort();
+
+    await orchestrator.processUserInput("clear the screen");
+    assert.ok(orchestrator.engine.getState()["guardrail-clear-ui"]);
+    orchestrator.confirmDestructiveAction("guardrail-clear-ui");
+    assert.ok(orchestrator.engine.getState()["empty-state"]);
+
+    await orchestrator.processUserInput("undo");
+    assert.deepEqual(Object.keys(orchestrator.engine.getState()).sort(), before);
+
+    await orchestrator.processUserInput("redo");
+    assert.deepEqual(Object.keys(orchestrator.engine.getState()), ["empty-state"]);
+  });
+});
+
+describe("parseHistoryCommand", () => {
+  it("recognizes whole-input undo and redo phrases only", () => {
+    assert.equal(parseHistoryCommand("undo"), "undo");
+    assert.equal(parseHistoryCommand("Take that back!"), "undo");
+    assert.equal(parseHistoryCommand("redo it"), "redo");
+    assert.equal(parseHistoryCommand("undo my salary change"), null);
+  });
+});
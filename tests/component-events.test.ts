@@ -0,0 +1,147 @@
+/**
+ * Component events and the bus that routes them to handlers
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ComponentEventBus,
+  bindComponentEvents,
+  type ComponentEvent,
+} from "../lib/component-events";
+import { HandlerFailureError, type InvalidEventError } from "../lib/orchestration-errors";
+import { createOrchestrator } from "../lib/ui-orchestrator";
+import type { UIComponent, UIState } from "../lib/ui-state-engine";
+
+const picker: UIComponent = {
+  id: "period",
+  type: "DateRangePicker",
+  props: {},
+  visible: true,
+};
+
+const form: UIComponent = {
+  id: "salary-data-form",
+  type: "InputForm",
+  props: { fields: [] },
+  visible: true,
+};
+
+const state: UIState = { [picker.id]: picker, [form.id]: form };
+
+describe("bindComponentEvents", () => {
+  it("turns callback arguments into a payload in schema key order", () => {
+    const emitted: ComponentEvent[] = [];
+    const props = bindComponentEvents(picker, (event) => emitted.push(event));
+
+    assert.deepEqual(Object.keys(props), ["onChange"]);
+    props.onChange("2026-01-01", "2026-01-31");
+    assert.deepEqual(emitted, [
+      { componentId: "period", event: "change", payload: { startDate: "2026-01-01", endDate: "2026-01-31" } },
+    ]);
+  });
+
+  it("binds nothing for components without events", () => {
+    assert.deepEqual(bindComponentEvents({ ...picker, type: "SummaryCards" }, () => {}), {});
+  });
+});
+
+describe("ComponentEventBus", () => {
+  it("hands a declared event to its handler with the parsed payload", () => {
+    const bus = new ComponentEventBus();
+    const seen: Array<[ComponentEvent, string]> = [];
+    bus.register({ submit: (event, component) => void seen.push([event, component.id]) });
+
+    const ran = bus.emit(
+      { componentId: form.id, event: "submit", payload: { values: { salary: "5000" } } },
+      state
+    );
+    assert.equal(ran, true);
+    assert.deepEqual(seen, [
+      [{ componentId: form.id, event: "submit", payload: { values: { salary: "5000" } } }, form.id],
+    ]);
+  });
+
+  it("rejects events from unknown components, undeclared events and bad payloads", () => {
+    const rejected: InvalidEventError[] = [];
+    const bus = new ComponentEventBus((error) => rejected.push(error));
+    let calls = 0;
+    bus.register({ submit: () => void calls++, change: () => void calls++ });
+
+    assert.equal(bus.emit({ componentId: "gone", event: "submit", payload: { values: {} } }, state), false);
+    assert.equal(bus.emit({ componentId: form.id, event: "change" }, state), false);
+    assert.equal(bus.emit({ componentId: form.id, event: "submit", payload: { values: 5 } }, state), false);
+    assert.equal(calls, 0);
+
+    assert.deepEqual(
+      rejected.map((error) => [error.kind, error.componentId, error.event]),
+      [
+        ["invalid-event", "gone", "submit"],
+        ["invalid-event", form.id, "change"],
+        ["invalid-event", form.id, "submit"],
+      ]
+    );
+    assert.match(rejected[2].problem, /^values:/);
+  });
+
+  it("reports events without a handler as unhandled", () => {
+    const bus = new ComponentEventBus();
+    bus.register({ submit: () => {} });
+    assert.equal(bus.unregister("submit"), true);
+    assert.deepEqual(bus.getEvents(), []);
+
+    assert.equal(bus.emit({ componentId: form.id, event: "submit", payload: { values: {} } }, state), false);
+  });
+
+  it("replaces handlers by event name", () => {
+    const bus = new ComponentEventBus();
+    const seen: string[] = [];
+    bus.register({ submit: () => void seen.push("old") });
+    bus.register({ submit: () => void seen.push("new") });
+
+    bus.emit({ componentId: form.id, event: "submit", payload: { values: {} } }, state);
+    assert.deepEqual(seen, ["new"]);
+  });
+
+  it("wraps a throwing handler in a HandlerFailureError", () => {
+    const bus = new ComponentEventBus();
+    bus.register({
+      submit: () => {
+        throw new Error("disk full");
+      },
+    });
+
+    assert.throws(
+      () => bus.emit({ componentId: form.id, event: "submit", payload: { values: {} } }, state),
+      (error) =>
+        error instanceof HandlerFailureError &&
+        error.event === "submit" &&
+        error.componentId === form.id &&
+        /disk full/.test(error.message)
+    );
+  });
+});
+
+describe("events through the orchestrator", () => {
+  it("shows a failed handler and runs the event again on retry", async () => {
+    const orchestrator = createOrchestrator({ provider: { kind: "simulated" } });
+    orchestrator.engine.dispatch({ type: "render", component: form });
+    let attempts = 0;
+    orchestrator.registerHandlers({
+      submit: () => {
+        if (++attempts === 1) throw new Error("disk full");
+      },
+    });
+
+    const event: ComponentEvent = { componentId: form.id, event: "submit", payload: { values: {} } };
+    assert.equal(orchestrator.dispatchEvent(event), true);
+    const notice = orchestrator.engine.getState()["error-state"];
+    assert.equal(notice.props.kind, "handler-failure");
+    assert.equal(notice.props.retryable, true);
+    assert.deepEqual(orchestrator.getLastFailure(), { kind: "event", event });
+
+    await orchestrator.retryLastFailure();
+    assert.equal(attempts, 2);
+    assert.equal(orchestrator.engine.getState()["error-state"], undefined);
+  });
+});
@@ -0,0 +1,21 @@
+/**
+ * Golden utterances (golden/orchestrator.json), one test per case
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { parseGoldenSuite, runGoldenCase } from "../lib/golden-harness";
+
+const suite = parseGoldenSuite(
+  JSON.parse(readFileSync(new URL("../golden/orchestrator.json", import.meta.url), "utf8"))
+);
+
+describe("golden utterances", () => {
+  for (const testCase of suite.cases) {
+    it(`${testCase.intent}: ${testCase.name ?? testCase.utterance}`, async () => {
+      const result = await runGoldenCase(testCase, suite.data);
+      assert.deepEqual(result.failures, []);
+    });
+  }
+});
@@ -0,0 +1,139 @@
+/**
+ * Guardrail policies and the operations confirmed through them
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getGuardrailPolicy } from "../lib/guardrail-policies";
+import { createRuleContext } from "../lib/intent-rules";
+import { createOrchestrator } from "../lib/ui-orchestrator";
+import type { OrchestratorProvider, OrchestratorResponse } from "../lib/orchestrator-providers";
+import type { UIComponent } from "../lib/ui-state-engine";
+import { DataStore } from "../lib/data-store";
+import { IntentMemoryEngine } from "../lib/intent-memory";
+
+/** Provider that always answers with the given modal */
+function providerRendering(modal: UIComponent): OrchestratorProvider {
+  return {
+    name: "forged",
+    async generate(): Promise<OrchestratorResponse> {
+      return { render: [modal], remove: [], update: [], notes: "" };
+    },
+  };
+}
+
+describe("delete-category policy", () => {
+  const policy = getGuardrailPolicy("delete-category")!;
+  const scopeFor = (input: string) =>
+    policy.resolveScope(createRuleContext(input, new DataStore(), {}, new IntentMemoryEngine()));
+
+  it("applies to the category the delete verb governs", () => {
+    assert.deepEqual(scopeFor("delete my expenses data"), { kind: "category", category: "expenses" });
+    assert.deepEqual(scopeFor("please wipe all my salary values"), { kind: "category", category: "salary" });
+  });
+
+  it("ignores categories in another clause", () => {
+    assert.equal(scopeFor("remove the chart and show my salary"), null);
+    assert.equal(scopeFor("clear the screen, then show my expenses"), null);
+  });
+});
+
+describe("guardrail modals from a provider", () => {
+  it("ignore the provider's ticket and confirm only what the policy does", async () => {
+    const orchestrator = createOrchestrator({
+      provider: providerRendering({
+        id: "guardrail-clear-ui",
+        type: "GuardrailModal",
+        visible: true,
+        props: {
+          title: "Nothing to worry about",
+          guardrail: { policyId: "delete-all-data", scope: { kind: "all-data" } },
+        },
+      }),
+    });
+    orchestrator.store.set("salary.lastMonth", 5000);
+
+    await orchestrator.processUserInput("hello");
+    const modal = orchestrator.engine.getState()["guardrail-clear-ui"];
+    assert.equal(modal.props.title, "Clear All Components");
+    assert.equal(modal.props.guardrail, undefined);
+
+    orchestrator.confirmDestructiveAction("guardrail-clear-ui");
+    assert.equal(orchestrator.store.get("salary.lastMonth"), 5000);
+  });
+
+  it("can't raise a value overwrite", async () => {
+    const orchestrator = createOrchestrator({
+      provider: providerRendering({
+        id: "guardrail-overwrite-user-values",
+        type: "GuardrailModal",
+        visible: true,
+        props: {
+          guardrail: {
+            policyId: "overwrite-user-values",
+            scope: { kind: "user-values", values: { "salary.lastMonth": 1 }, previous: {} },
+          },
+        },
+      }),
+    });
+    orchestrator.store.set("salary.lastMonth", 5000);
+
+    await orchestrator.processUserInput("hello");
+    assert.deepEqual(orchestrator.pending.list(), []);
+
+    orchestrator.confirmDestructiveAction("guardrail-overwrite-user-values");
+    assert.equal(orchestrator.store.get("salary.lastMonth"), 5000);
+  });
+
+  it("register the orchestrator's own overwrite confirmation", async () => {
+    const orchestrator = createOrchestrator({ provider: { kind: "simulated" } });
+    orchestrator.store.set("salary.lastMonth", 5000);
+
+    await orchestrator.processUserInput("my salary was 6000 last month");
+    assert.equal(orchestrator.store.get("salary.lastMonth"), 5000);
+
+    orchestrator.confirmDestructiveAction("guardrail-overwrite-user-values");
+    assert.equal(orchestrator.store.get("salary.lastMonth"), 6000);
+  });
+});
+
+describe("confirmation styles", () => {
+  /** Orchestrator with a user-provided salary, asked to run `input` */
+  async function asked(input: string) {
+    const orchestrator = createOrchestrator({ provider: { kind: "simulated" } });
+    await orchestrator.processUserInput("my salary was 5000 last month");
+    await orchestrator.processUserInput(input);
+    return orchestrator;
+  }
+
+  it("refuses a typed confirmation without the phrase", async () => {
+    const orchestrator = await asked("delete all my data");
+
+    for (const phrase of [undefined, "delete"]) {
+      orchestrator.confirmDestructiveAction("guardrail-delete-all-data", { phrase });
+      const notice = orchestrator.engine.getState()["error-state"];
+      assert.equal(notice.props.kind, "policy-violation");
+      assert.equal(orchestrator.store.get("salary.lastMonth"), 5000);
+      assert.ok(orchestrator.pending.get("guardrail-delete-all-data"));
+    }
+
+    orchestrator.confirmDestructiveAction("guardrail-delete-all-data", { phrase: "DELETE" });
+    assert.equal(orchestrator.store.isUserProvided("salary.lastMonth"), false);
+  });
+
+  it("refuses a delayed confirmation before the wait is over", async () => {
+    const orchestrator = await asked("delete my salary data");
+
+    orchestrator.confirmDestructiveAction("guardrail-delete-category");
+    assert.equal(orchestrator.engine.getState()["error-state"].props.kind, "policy-violation");
+    assert.ok(orchestrator.engine.getState()["guardrail-delete-category"]);
+    assert.equal(orchestrator.store.get("salary.lastMonth"), 5000);
+
+    const operation = orchestrator.pending.get("guardrail-delete-category")!;
+    orchestrator.pending.register(operation.modalId, operation.kind, operation.payload, {
+      now: Date.now() - 3000,
+    });
+    orchestrator.confirmDestructiveAction("guardrail-delete-category");
+    assert.equal(orchestrator.store.isUserProvided("salary.lastMonth"), false);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Provider context, and how the simulated provider reads it
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildContext, getPendingContext } from "../lib/orchestration-context";
+import { PendingConfirmationRegistry } from "../lib/pending-confirmations";
+import { createSnapshot } from "../lib/orchestration-snapshot";
+import { simulateAIResponse } from "../lib/orchestrator-simulator";
+import { UIStateEngine, type UIComponent } from "../lib/ui-state-engine";
+import { DataStore } from "../lib/data-store";
+import { IntentMemoryEngine } from "../lib/intent-memory";
+
+const modal: UIComponent = {
+  id: "guardrail-clear-ui",
+  type: "GuardrailModal",
+  props: { title: "Clear All Components", message: "This will remove all components." },
+  visible: true,
+};
+
+describe("getPendingContext", () => {
+  it("lists registered operations that have not expired", () => {
+    const pending = new PendingConfirmationRegistry();
+    pending.register(
+      "guardrail-clear-ui",
+      "guardrail",
+      { policyId: "clear-ui", scope: { kind: "ui", componentIds: [] } },
+      { now: 0, ttlMs: 100 }
+    );
+    pending.register(
+      "guardrail-delete-all-data",
+      "guardrail",
+      { policyId: "delete-all-data", scope: { kind: "all-data" } },
+      { now: 0, ttlMs: 10 }
+    );
+
+    assert.deepEqual(getPendingContext(pending, { [modal.id]: modal }, 50), [
+      {
+        id: "guardrail-clear-ui",
+        policy: "clear-ui",
+        expiresAt: 100,
+        title: "Clear All Components",
+        message: "This will remove all components.",
+      },
+    ]);
+  });
+
+  it("ignores modals on screen that have no operation behind them", () => {
+    const context = buildContext("hi", { [modal.id]: modal }, new DataStore());
+    assert.deepEqual(context.pendingConfirmations, []);
+  });
+});
+
+describe("simulated provider", () => {
+  function respond(input: string, pending: PendingConfirmationRegistry) {
+    const engine = new UIStateEngine();
+    engine.dispatch({ type: "render", component: modal });
+    const snapshot = createSnapshot(engine, new DataStore(), new IntentMemoryEngine(), pending);
+    const context = buildContext(
+      input,
+      engine.getState(),
+      new DataStore(),
+      snapshot.memory,
+      snapshot.pendingConfirmations
+    );
+    return simulateAIResponse(input, context, snapshot);
+  }
+
+  it("keeps a modal whose confirmation is pending", () => {
+    const pending = new PendingConfirmationRegistry();
+    pending.register(modal.id, "guardrail", {
+      policyId: "clear-ui",
+      scope: { kind: "ui", componentIds: [] },
+    });
+
+    assert.ok(!respond("show my expenses", pending).remove.includes(modal.id));
+  });
+
+  it("removes a modal whose confirmation is gone", () => {
+    assert.ok(respond("show my expenses", new PendingConfirmationRegistry()).remove.includes(modal.id));
+  });
+});
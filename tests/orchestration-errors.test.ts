@@ -0,0 +1,190 @@
+/**
+ * Retries with backoff, and how failures reach the user
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  InvalidResponseError,
+  ProviderTimeoutError,
+  ProviderUnavailableError,
+  backoffDelay,
+  describeOrchestrationError,
+  withRetry,
+  type RetryPolicy,
+} from "../lib/orchestration-errors";
+import { createOrchestrator, type OrchestratorErrorReport } from "../lib/ui-orchestrator";
+import type { OrchestratorProvider, OrchestratorResponse } from "../lib/orchestrator-providers";
+
+const policy: RetryPolicy = { retries: 2, baseDelayMs: 1, maxDelayMs: 4, timeoutMs: 1000 };
+
+/** Task that throws the given errors in turn, then succeeds */
+function flaky(errors: Error[]) {
+  let calls = 0;
+  return {
+    task: async () => {
+      const error = errors[calls++];
+      if (error) throw error;
+      return "ok";
+    },
+    calls: () => calls,
+  };
+}
+
+describe("backoffDelay", () => {
+  it("doubles from the base delay up to the maximum", () => {
+    const slow: RetryPolicy = { retries: 5, baseDelayMs: 500, maxDelayMs: 4000, timeoutMs: 0 };
+    assert.deepEqual(
+      [1, 2, 3, 4, 5].map((attempt) => backoffDelay(attempt, slow)),
+      [500, 1000, 2000, 4000, 4000]
+    );
+  });
+});
+
+describe("withRetry", () => {
+  it("retries retryable errors and reports each retry", async () => {
+    const { task, calls } = flaky([
+      new ProviderUnavailableError("http", 503),
+      new ProviderTimeoutError("http", 1000),
+    ]);
+    const retries: Array<[string, number]> = [];
+
+    const result = await withRetry(task, {
+      policy,
+      provider: "http",
+      onRetry: (error, attempt) => retries.push([error.kind, attempt]),
+    });
+
+    assert.equal(result, "ok");
+    assert.equal(calls(), 3);
+    assert.deepEqual(retries, [
+      ["provider-unavailable", 1],
+      ["provider-timeout", 2],
+    ]);
+  });
+
+  it("gives up after the configured retries", async () => {
+    const unavailable = new ProviderUnavailableError("http", 502);
+    const { task, calls } = flaky([unavailable, unavailable, unavailable, unavailable]);
+
+    await assert.rejects(withRetry(task, { policy, provider: "http" }), unavailable);
+    assert.equal(calls(), 3);
+  });
+
+  it("throws errors that are not worth retrying at once", async () => {
+    const errors = [new ProviderUnavailableError("http", 401), new InvalidResponseError("bad"), new Error("boom")];
+    for (const error of errors) {
+      const { task, calls } = flaky([error]);
+      await assert.rejects(withRetry(task, { policy, provider: "http" }), error);
+      assert.equal(calls(), 1);
+    }
+  });
+
+  it("times out an attempt that never answers", async () => {
+    let attempts = 0;
+    const hanging = (signal: AbortSignal) => {
+      attempts++;
+      return new Promise<string>((_, reject) => signal.addEventListener("abort", () => reject(signal.reason)));
+    };
+
+    await assert.rejects(
+      withRetry(hanging, { policy: { ...policy, retries: 1, timeoutMs: 5 }, provider: "slow" }),
+      ProviderTimeoutError
+    );
+    assert.equal(attempts, 2);
+  });
+
+  it("stops waiting for a retry when aborted", async () => {
+    const controller = new AbortController();
+    const { task, calls } = flaky([new ProviderUnavailableError("http", 503)]);
+
+    const pending = withRetry(task, {
+      policy: { ...policy, baseDelayMs: 60_000, maxDelayMs: 60_000 },
+      provider: "http",
+      signal: controller.signal,
+      onRetry: () => controller.abort(new DOMException("Cancelled", "AbortError")),
+    });
+
+    await assert.rejects(pending, { name: "AbortError" });
+    assert.equal(calls(), 1);
+  });
+});
+
+describe("describeOrchestrationError", () => {
+  it("offers a retry only when running the request again may help", () => {
+    assert.equal(describeOrchestrationError(new ProviderUnavailableError("http", 503)).canRetry, true);
+    assert.equal(describeOrchestrationError(new ProviderUnavailableError("http", 401)).canRetry, false);
+    assert.match(describeOrchestrationError(new ProviderTimeoutError("http", 20000)).message, /after 20 seconds/);
+  });
+});
+
+describe("orchestrator error reporting", () => {
+  it("reports provider retries to onError instead of the console", async (t) => {
+    const warned = t.mock.method(console, "warn", () => {});
+    const reports: OrchestratorErrorReport[] = [];
+    let calls = 0;
+    const provider: OrchestratorProvider = {
+      name: "flaky",
+      async generate(): Promise<OrchestratorResponse> {
+        if (++calls === 1) throw new ProviderUnavailableError("flaky", 503);
+        return { render: [], remove: [], update: [], notes: "" };
+      },
+    };
+    const orchestrator = createOrchestrator({
+      provider,
+      retry: { baseDelayMs: 1 },
+      onError: (report) => reports.push(report),
+    });
+
+    await orchestrator.processUserInput("show my budget");
+    assert.equal(calls, 2);
+    assert.equal(reports.length, 1);
+    const [report] = reports;
+    assert.ok(report.kind === "retry");
+    assert.equal(report.attempt, 1);
+    assert.equal(report.error.kind, "provider-unavailable");
+    assert.equal(warned.mock.callCount(), 0);
+  });
+
+  it("reports a failed request to onError as well as the ErrorNotice", async (t) => {
+    const logged = t.mock.method(console, "error", () => {});
+    const reports: OrchestratorErrorReport[] = [];
+    const provider: OrchestratorProvider = {
+      name: "broken",
+      async generate(): Promise<OrchestratorResponse> {
+        throw new InvalidResponseError("no actions");
+      },
+    };
+    const orchestrator = createOrchestrator({
+      provider,
+      retry: { retries: 0 },
+      onError: (report) => reports.push(report),
+    });
+
+    await orchestrator.processUserInput("show my budget");
+    assert.ok(orchestrator.engine.getState()["error-state"]);
+    assert.equal(reports.length, 1);
+    const [report] = reports;
+    assert.ok(report.kind === "request");
+    assert.equal(report.error.kind, "invalid-response");
+    assert.deepEqual(report.request, { kind: "input", input: "show my budget" });
+    assert.equal(logged.mock.callCount(), 0);
+  });
+
+  it("reports rejected component events to onError", (t) => {
+    const warned = t.mock.method(console, "warn", () => {});
+    const reports: OrchestratorErrorReport[] = [];
+    const orchestrator = createOrchestrator({
+      provider: { kind: "simulated" },
+      onError: (report) => reports.push(report),
+    });
+
+    assert.equal(orchestrator.dispatchEvent({ componentId: "gone", event: "submit" }), false);
+    assert.deepEqual(
+      reports.map((report) => [report.kind, report.error.kind]),
+      [["event", "invalid-event"]]
+    );
+    assert.equal(orchestrator.engine.getState()["error-state"], undefined);
+    assert.equal(warned.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Request queue and cancellation
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { OrchestrationQueue, isAbortError } from "../lib/orchestration-queue";
+import { createOrchestrator } from "../lib/ui-orchestrator";
+import { simulatedProvider, type OrchestratorProvider } from "../lib/orchestrator-providers";
+
+/** A promise plus the function that settles it */
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+/** Simulated provider that waits for `gate` before answering, ignoring the signal */
+function gatedProvider(gate: Promise<void>): OrchestratorProvider {
+  return {
+    name: "gated",
+    async generate(request) {
+      await gate;
+      return simulatedProvider.generate({ ...request, signal: undefined });
+    },
+  };
+}
+
+function userKeys(orchestrator: ReturnType<typeof createOrchestrator>): string[] {
+  return orchestrator.store.keys().filter((key) => orchestrator.store.isUserProvided(key));
+}
+
+describe("OrchestrationQueue", () => {
+  it("runs requests one at a time, in order", async () => {
+    const queue = new OrchestrationQueue();
+    const events: string[] = [];
+    const first = deferred<void>();
+
+    const a = queue.enqueue("a", async () => {
+      events.push("a:start");
+      await first.promise;
+      events.push("a:end");
+      return "a";
+    });
+    const b = queue.enqueue("b", async () => {
+      events.push("b:start");
+      return "b";
+    });
+
+    assert.equal(queue.getSnapshot().running?.label, "a");
+    assert.deepEqual(queue.getSnapshot().pending.map((r) => r.label), ["b"]);
+
+    first.resolve();
+    assert.deepEqual(await Promise.all([a.result, b.result]), ["a", "b"]);
+    assert.deepEqual(events, ["a:start", "a:end", "b:start"]);
+    assert.equal(queue.isBusy(), false);
+  });
+
+  it("supersede cancels the running request and everything waiting", async () => {
+    const queue = new OrchestrationQueue();
+    const gate = deferred<void>();
+    let runningSignal: AbortSignal | undefined;
+
+    const running = queue.enqueue("running", async (signal) => {
+      runningSignal = signal;
+      await gate.promise;
+      return "stale";
+    });
+    const waiting = queue.enqueue("waiting", async () => "never");
+    const latest = queue.enqueue("latest", async () => "latest", "supersede");
+
+    await assert.rejects(waiting.result, (error) => isAbortError(error));
+    assert.equal(runningSignal?.aborted, true);
+
+    // The running task ignores its signal; its result is still discarded
+    gate.resolve();
+    await assert.rejects(running.result, (error) => isAbortError(error));
+    assert.equal(await latest.result, "latest");
+  });
+
+  it("cancels a single pending request without touching the others", async () => {
+    const queue = new OrchestrationQueue();
+    const a = queue.enqueue("a", async () => "a");
+    const b = queue.enqueue("b", async () => "b");
+    const c = queue.enqueue("c", async () => "c");
+
+    b.cancel();
+    assert.equal(queue.cancel("request_unknown"), false);
+
+    await assert.rejects(b.result, { name: "AbortError" });
+    assert.deepEqual(await Promise.all([a.result, c.result]), ["a", "c"]);
+  });
+
+  it("notifies subscribers of each change", async () => {
+    const queue = new OrchestrationQueue();
+    const seen: string[] = [];
+    queue.subscribe((snapshot) => seen.push(snapshot.running?.label ?? "idle"));
+
+    await queue.enqueue("only", async () => null).result;
+    await new Promise((resolve) => setImmediate(resolve));
+
+    assert.equal(seen[0], "idle");
+    assert.ok(seen.includes("only"));
+    assert.equal(seen.at(-1), "idle");
+  });
+});
+
+describe("cancelling an orchestrator request", () => {
+  it("leaves UI and data untouched, including values stated in the input", async () => {
+    const gate = deferred<void>();
+    const orchestrator = createOrchestrator({ provider: gatedProvider(gate.promise) });
+    const controller = new AbortController();
+
+    const pending = orchestrator.processUserInput("my salary was 50000 last month", {
+      signal: controller.signal,
+    });
+    controller.abort(new DOMException("Cancelled", "AbortError"));
+    gate.resolve();
+
+    await assert.rejects(pending, { name: "AbortError" });
+    assert.deepEqual(orchestrator.engine.getState(), {});
+    assert.deepEqual(userKeys(orchestrator), []);
+  });
+
+  it("stores values stated in the input once the request completes", async () => {
+    const gate = deferred<void>();
+    const orchestrator = createOrchestrator({ provider: gatedProvider(gate.promise) });
+
+    const pending = orchestrator.processUserInput("my salary was 50000 last month");
+    // Nothing is written while the provider is still deciding
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.deepEqual(userKeys(orchestrator), []);
+
+    gate.resolve();
+    await pending;
+    assert.equal(userKeys(orchestrator).length, 1);
+    assert.equal(orchestrator.store.get(userKeys(orchestrator)[0]), 50000);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Middleware around processUserInput
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MiddlewarePipeline, veto } from "../lib/orchestrator-middleware";
+import { PolicyViolationError } from "../lib/orchestration-errors";
+import { createOrchestrator } from "../lib/ui-orchestrator";
+import type { OrchestratorProvider, OrchestratorResponse } from "../lib/orchestrator-providers";
+import type { UIComponent } from "../lib/ui-state-engine";
+
+const chart: UIComponent = {
+  id: "chart",
+  type: "EmptyState",
+  props: { message: "chart" },
+  visible: true,
+};
+
+/** Provider that renders `chart` and remembers the inputs it was asked about */
+function recordingProvider() {
+  const inputs: string[] = [];
+  const provider: OrchestratorProvider = {
+    name: "recording",
+    async generate(request): Promise<OrchestratorResponse> {
+      inputs.push(request.userInput);
+      return { render: [chart], remove: [], update: [], notes: "" };
+    },
+  };
+  return { provider, inputs };
+}
+
+describe("MiddlewarePipeline", () => {
+  it("runs by order, then registration order, and replaces by name", () => {
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use({ name: "late", order: 10 });
+    pipeline.use({ name: "first" });
+    pipeline.use({ name: "second" });
+    pipeline.use({ name: "early", order: -1 });
+    assert.deepEqual(pipeline.list().map((m) => m.name), ["early", "first", "second", "late"]);
+
+    pipeline.use({ name: "first", order: 20 });
+    assert.deepEqual(pipeline.list().map((m) => m.name), ["early", "second", "late", "first"]);
+  });
+
+  it("removes only the middleware it registered", () => {
+    const pipeline = new MiddlewarePipeline();
+    const removeOld = pipeline.use({ name: "audit" });
+    pipeline.use({ name: "audit", order: 1 });
+
+    removeOld();
+    assert.deepEqual(pipeline.list().map((m) => m.order), [1]);
+    assert.equal(pipeline.remove("audit"), true);
+    assert.equal(pipeline.remove("audit"), false);
+  });
+
+  it("passes each rewrite on to the next beforeRequest hook", async () => {
+    const pipeline = new MiddlewarePipeline();
+    pipeline.use({ name: "trim", beforeRequest: ({ input }) => input.trim() });
+    pipeline.use({ name: "noop", beforeRequest: () => undefined });
+    pipeline.use({
+      name: "shout",
+      beforeRequest: ({ input, originalInput }) => {
+        assert.equal(originalInput, "  hi  ");
+        return input.toUpperCase();
+      },
+    });
+
+    assert.equal(await pipeline.runBeforeRequest("  hi  "), "HI");
+  });
+});
+
+describe("middleware on an orchestrator", () => {
+  it("lets beforeRequest rewrite what the provider sees", async () => {
+    const { provider, inputs } = recordingProvider();
+    const orchestrator = createOrchestrator({ provider });
+    orchestrator.registerMiddleware({ name: "expand", beforeRequest: () => "show my budget" });
+
+    await orchestrator.processUserInput("budget pls");
+    assert.deepEqual(inputs, ["show my budget"]);
+  });
+
+  it("applies a response changed by afterResponse", async () => {
+    const orchestrator = createOrchestrator({ provider: recordingProvider().provider });
+    orchestrator.registerMiddleware({
+      name: "retitle",
+      afterResponse: (response) => ({
+        ...response,
+        render: response.render.map((c) => ({ ...c, props: { message: "changed" } })),
+      }),
+    });
+
+    await orchestrator.processUserInput("show the chart");
+    assert.equal(orchestrator.engine.getState().chart.props.message, "changed");
+  });
+
+  it("drops a vetoed response, or applies its replacement", async () => {
+    const orchestrator = createOrchestrator({ provider: recordingProvider().provider });
+    const removeVeto = orchestrator.registerMiddleware({
+      name: "no-charts",
+      afterResponse: () => veto("charts are off"),
+    });
+
+    const action = await orchestrator.processUserInput("show the chart");
+    assert.deepEqual(orchestrator.engine.getState(), {});
+    assert.match(action.debug?.reasoning ?? "", /Vetoed by no-charts: charts are off/);
+
+    removeVeto();
+    orchestrator.registerMiddleware({
+      name: "explain",
+      afterResponse: () =>
+        veto("charts are off", {
+          render: [{ ...chart, id: "explanation" }],
+          remove: [],
+          update: [],
+          notes: "",
+        }),
+    });
+
+    await orchestrator.processUserInput("show the chart");
+    assert.deepEqual(Object.keys(orchestrator.engine.getState()), ["explanation"]);
+  });
+
+  it("stores no stated values when the response is dropped", async () => {
+    const orchestrator = createOrchestrator({ provider: recordingProvider().provider });
+    const removeVeto = orchestrator.registerMiddleware({
+      name: "no-charts",
+      afterResponse: () => veto("charts are off"),
+    });
+
+    await orchestrator.processUserInput("my salary was 5000 last month");
+    assert.equal(orchestrator.store.get("salary.lastMonth"), null);
+    assert.equal(orchestrator.store.isUserProvided("salary.lastMonth"), false);
+
+    removeVeto();
+    await orchestrator.processUserInput("my salary was 5000 last month");
+    assert.equal(orchestrator.store.get("salary.lastMonth"), 5000);
+  });
+
+  it("shows a policy violation without offering a retry", async () => {
+    const { provider, inputs } = recordingProvider();
+    const orchestrator = createOrchestrator({ provider });
+    orchestrator.registerMiddleware({
+      name: "policy",
+      beforeRequest: () => {
+        throw new PolicyViolationError("no-budgets", "Budgets are not available");
+      },
+    });
+
+    await orchestrator.processUserInput("show my budget");
+    const notice = Object.values(orchestrator.engine.getState())[0];
+    assert.equal(notice.type, "ErrorNotice");
+    assert.equal(notice.props.retryable, false);
+    assert.deepEqual(inputs, []);
+  });
+
+  it("keeps the applied action when afterCommit fails", async (t) => {
+    const logged = t.mock.method(console, "error", () => {});
+    const orchestrator = createOrchestrator({ provider: recordingProvider().provider });
+    const seen: string[][] = [];
+    orchestrator.registerMiddleware({
+      name: "broken",
+      afterCommit: () => {
+        throw new Error("audit log offline");
+      },
+    });
+    orchestrator.registerMiddleware({
+      name: "observer",
+      order: 1,
+      afterCommit: (action) => void seen.push(action.render.map((c) => c.id)),
+    });
+
+    await orchestrator.processUserInput("show the chart");
+    assert.ok(orchestrator.engine.getState().chart);
+    assert.deepEqual(seen, [["chart"]]);
+    assert.equal(logged.mock.callCount(), 1);
+  });
+});
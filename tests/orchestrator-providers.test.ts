@@ -0,0 +1,207 @@
+/**
+ * HTTP provider against a local fake server
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  createHttpProvider,
+  getDefaultProvider,
+  parseOrchestratorResponse,
+  type OrchestratorRequest,
+} from "../lib/orchestrator-providers";
+import {
+  InvalidResponseError,
+  ProviderTimeoutError,
+  ProviderUnavailableError,
+} from "../lib/orchestration-errors";
+import { buildContext } from "../lib/orchestration-context";
+import { DataStore } from "../lib/data-store";
+
+type Route = (req: IncomingMessage, body: string, res: ServerResponse) => void;
+
+const routes: Record<string, Route> = {
+  "/ok": (_req, body, res) => {
+    const { userInput } = JSON.parse(body);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ render: [], notes: `echo: ${userInput}` }));
+  },
+  "/unavailable": (_req, _body, res) => {
+    res.writeHead(503);
+    res.end();
+  },
+  "/forbidden": (_req, _body, res) => {
+    res.writeHead(403);
+    res.end();
+  },
+  "/not-json": (_req, _body, res) => {
+    res.writeHead(200, { "Content-Type": "text/html" });
+    res.end("<html>oops</html>");
+  },
+  "/missing": (_req, _body, res) => {
+    res.writeHead(404);
+    res.end();
+  },
+  "/slow": (_req, _body, res) => {
+    setTimeout(() => {
+      res.writeHead(200);
+      res.end("{}");
+    }, 500);
+  },
+};
+
+let server: Server;
+let baseUrl: string;
+const received: Array<{ url: string; headers: IncomingMessage["headers"]; body: string }> = [];
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      received.push({ url: req.url ?? "", headers: req.headers, body });
+      (routes[req.url ?? ""] ?? routes["/unavailable"])(req, body, res);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+function request(userInput: string): OrchestratorRequest {
+  return { userInput, context: buildContext(userInput, {}, new DataStore()) };
+}
+
+describe("createHttpProvider", () => {
+  it("posts the request as JSON and parses the response", async () => {
+    const provider = createHttpProvider({ url: `${baseUrl}/ok`, headers: { "X-Test": "1" } });
+    const response = await provider.generate(request("show my salary"));
+
+    assert.equal(response.notes, "echo: show my salary");
+    assert.deepEqual(response.remove, []);
+    assert.deepEqual(response.update, []);
+
+    const sent = received.at(-1)!;
+    assert.equal(sent.headers["content-type"], "application/json");
+    assert.equal(sent.headers["x-test"], "1");
+    assert.equal(JSON.parse(sent.body).context.userInput, "show my salary");
+  });
+
+  it("reports server errors as retryable ProviderUnavailableError", async () => {
+    const provider = createHttpProvider({ url: `${baseUrl}/unavailable` });
+    await assert.rejects(provider.generate(request("hi")), (error) => {
+      assert.ok(error instanceof ProviderUnavailableError);
+      assert.equal(error.status, 503);
+      assert.equal(error.retryable, true);
+      return true;
+    });
+  });
+
+  it("does not retry client errors", async () => {
+    const provider = createHttpProvider({ url: `${baseUrl}/forbidden` });
+    await assert.rejects(provider.generate(request("hi")), (error) => {
+      assert.ok(error instanceof ProviderUnavailableError);
+      assert.equal(error.retryable, false);
+      return true;
+    });
+  });
+
+  it("reports a body that is not JSON as InvalidResponseError", async () => {
+    const provider = createHttpProvider({ url: `${baseUrl}/not-json` });
+    await assert.rejects(provider.generate(request("hi")), InvalidResponseError);
+  });
+
+  it("times out with ProviderTimeoutError", async () => {
+    const provider = createHttpProvider({ url: `${baseUrl}/slow`, timeoutMs: 50 });
+    await assert.rejects(provider.generate(request("hi")), (error) => {
+      assert.ok(error instanceof ProviderTimeoutError);
+      assert.equal(error.timeoutMs, 50);
+      return true;
+    });
+  });
+
+  it("rejects with the caller's abort reason when cancelled", async () => {
+    const provider = createHttpProvider({ url: `${baseUrl}/slow`, timeoutMs: 5000 });
+    const controller = new AbortController();
+    const pending = provider.generate({ ...request("hi"), signal: controller.signal });
+    controller.abort(new DOMException("Superseded", "AbortError"));
+    await assert.rejects(pending, { name: "AbortError" });
+  });
+
+  it("reports an unreachable server as retryable ProviderUnavailableError", async () => {
+    const provider = createHttpProvider({ url: "http://127.0.0.1:1/nothing" });
+    await assert.rejects(provider.generate(request("hi")), (error) => {
+      assert.ok(error instanceof ProviderUnavailableError);
+      assert.equal(error.status, undefined);
+      assert.equal(error.retryable, true);
+      return true;
+    });
+  });
+});
+
+describe("getDefaultProvider", () => {
+  /** Run `task` as if in a browser, with the given orchestrator URL */
+  async function inBrowser<T>(url: string, task: () => Promise<T>): Promise<T> {
+    const globals = globalThis as { window?: unknown };
+    globals.window = {};
+    process.env.NEXT_PUBLIC_ORCHESTRATOR_URL = url;
+    try {
+      return await task();
+    } finally {
+      delete globals.window;
+      delete process.env.NEXT_PUBLIC_ORCHESTRATOR_URL;
+    }
+  }
+
+  it("uses the simulated provider outside the browser", () => {
+    assert.equal(getDefaultProvider().name, "simulated");
+  });
+
+  it("uses the server route in the browser", async () => {
+    await inBrowser(`${baseUrl}/ok`, async () => {
+      const provider = getDefaultProvider();
+      assert.equal(provider.name, "server");
+      assert.equal((await provider.generate(request("hi"))).notes, "echo: hi");
+    });
+  });
+
+  it("falls back to the simulated provider when the route is missing", async () => {
+    await inBrowser(`${baseUrl}/missing`, async () => {
+      const provider = getDefaultProvider();
+      const before = received.length;
+
+      const first = await provider.generate(request("show my expenses"));
+      const second = await provider.generate(request("show my expenses"));
+
+      assert.ok(first.render.some((c) => c.type === "SummaryCards"));
+      assert.deepEqual(second.render, first.render);
+      // The missing route is only asked once
+      assert.equal(received.length, before + 1);
+    });
+  });
+
+  it("reports other server failures instead of falling back", async () => {
+    await inBrowser(`${baseUrl}/unavailable`, async () => {
+      await assert.rejects(getDefaultProvider().generate(request("hi")), ProviderUnavailableError);
+    });
+  });
+});
+
+describe("parseOrchestratorResponse", () => {
+  it("extracts JSON wrapped in prose or code fences", () => {
+    const fenced = parseOrchestratorResponse('Sure:\n```json\n{"notes":"ok"}\n```');
+    assert.equal(fenced.notes, "ok");
+    assert.equal(parseOrchestratorResponse('Here you go {"notes":"x"} done').notes, "x");
+  });
+
+  it("rejects non-object payloads", () => {
+    assert.throws(() => parseOrchestratorResponse("[1,2]"), InvalidResponseError);
+    assert.throws(() => parseOrchestratorResponse("no json here"), InvalidResponseError);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Response validation against the component schemas
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { validateOrchestratorResponse } from "../lib/response-validator";
+import type { OrchestratorResponse } from "../lib/orchestrator-providers";
+import type { UIState } from "../lib/ui-state-engine";
+
+const onScreen: UIState = {
+  "salary-chart": { id: "salary-chart", type: "ChartView", props: { data: [1, 2] }, visible: true },
+};
+
+/** A render entry the way a provider may send it, e.g. without an id */
+function entry(component: Record<string, unknown>): OrchestratorResponse["render"][number] {
+  return component as unknown as OrchestratorResponse["render"][number];
+}
+
+function response(partial: Partial<OrchestratorResponse>): OrchestratorResponse {
+  return { render: [], remove: [], update: [], notes: "", ...partial };
+}
+
+describe("validateOrchestratorResponse", () => {
+  it("passes valid entries through unchanged", () => {
+    const { response: valid, rejections } = validateOrchestratorResponse(
+      response({
+        render: [{ id: "cards", type: "SummaryCards", props: { cards: [{ title: "Pay", value: 10 }] }, visible: true }],
+        update: [{ id: "salary-chart", props: { type: "line" } }],
+        remove: ["old"],
+      }),
+      onScreen
+    );
+
+    assert.deepEqual(rejections, []);
+    assert.equal(valid.render[0].id, "cards");
+    assert.deepEqual(valid.update, [{ id: "salary-chart", props: { type: "line" } }]);
+    assert.deepEqual(valid.remove, ["old"]);
+  });
+
+  it("drops unknown component types and props that can't be repaired", () => {
+    const { response: valid, rejections } = validateOrchestratorResponse(
+      response({
+        render: [
+          { id: "x", type: "Marquee", props: {}, visible: true },
+          { id: "form", type: "InputForm", props: { fields: "name" }, visible: true },
+        ],
+      }),
+      {}
+    );
+
+    assert.deepEqual(valid.render, []);
+    assert.deepEqual(
+      rejections.map((r) => [r.id, r.outcome]),
+      [
+        ["x", "dropped"],
+        ["form", "dropped"],
+      ]
+    );
+    assert.match(rejections[0].reason, /Unknown component type "Marquee"/);
+    assert.match(rejections[1].reason, /^fields:/);
+  });
+
+  it("repairs numeric strings, bad list items, bad optional props and missing ids", () => {
+    const props = {
+      data: ["3", 4, "n/a"],
+      type: "donut",
+    };
+    const { response: valid, rejections } = validateOrchestratorResponse(
+      response({ render: [entry({ type: "ChartView", props, visible: true })] }),
+      {}
+    );
+
+    const chart = valid.render[0];
+    assert.equal(chart.id, "chart-view");
+    assert.deepEqual(chart.props, { data: [3, 4] });
+    assert.equal(rejections.length, 1);
+    assert.equal(rejections[0].outcome, "repaired");
+    assert.match(rejections[0].reason, /coerced "3" to number/);
+    assert.match(rejections[0].reason, /data\[2\]: removed invalid item/);
+    assert.match(rejections[0].reason, /type: removed invalid value/);
+    assert.match(rejections[0].reason, /missing id: assigned "chart-view"/);
+
+    // The provider's payload is left alone
+    assert.deepEqual(props, { data: ["3", 4, "n/a"], type: "donut" });
+  });
+
+  it("derives ids that don't collide with the screen or the response", () => {
+    const { response: valid } = validateOrchestratorResponse(
+      response({
+        render: [
+          entry({ type: "EmptyState", props: {}, visible: true }),
+          { id: "empty-state-2", type: "EmptyState", props: {}, visible: true },
+        ],
+      }),
+      { "empty-state": { id: "empty-state", type: "EmptyState", props: {}, visible: true } }
+    );
+
+    assert.deepEqual(
+      valid.render.map((c) => c.id),
+      ["empty-state-3", "empty-state-2"]
+    );
+  });
+
+  it("checks updates against the target's schema and drops missing targets", () => {
+    const { response: valid, rejections } = validateOrchestratorResponse(
+      response({
+        update: [
+          { id: "salary-chart", props: { data: ["5"] } },
+          { id: "ghost", props: {} },
+          { id: "salary-chart", props: { labels: 7 } },
+        ],
+      }),
+      onScreen
+    );
+
+    assert.deepEqual(valid.update, [{ id: "salary-chart", props: { data: [5] } }, { id: "salary-chart", props: {} }]);
+    assert.deepEqual(
+      rejections.map((r) => [r.action, r.id, r.outcome]),
+      [
+        ["update", "salary-chart", "repaired"],
+        ["update", "ghost", "dropped"],
+        ["update", "salary-chart", "repaired"],
+      ]
+    );
+  });
+
+  it("keeps valid layout changes and drops the rest", () => {
+    const { response: valid, rejections } = validateOrchestratorResponse(
+      response({
+        layout: [
+          { type: "hide", id: "salary-chart" },
+          { type: "setOrder", id: "salary-chart", order: Number.NaN },
+          { type: "show", id: "ghost" },
+          { type: "spin", id: "salary-chart" } as unknown as NonNullable<OrchestratorResponse["layout"]>[number],
+        ],
+      }),
+      onScreen
+    );
+
+    assert.deepEqual(valid.layout, [{ type: "hide", id: "salary-chart" }]);
+    assert.deepEqual(
+      rejections.map((r) => r.reason),
+      ["Invalid order null", 'No component with id "ghost" to lay out', 'Unknown layout change "spin"']
+    );
+  });
+
+  it("drops remove entries that are not ids", () => {
+    const { response: valid, rejections } = validateOrchestratorResponse(
+      response({ remove: ["a", "", 3 as unknown as string] }),
+      {}
+    );
+
+    assert.deepEqual(valid.remove, ["a"]);
+    assert.equal(rejections.length, 2);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Recording sessions and replaying them
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { replaySession, diffData } from "../lib/session-replay";
+import { createOrchestrator, defaultOrchestrator } from "../lib/ui-orchestrator";
+import type { OrchestratorProvider } from "../lib/orchestrator-providers";
+
+async function recordSession() {
+  const orchestrator = createOrchestrator({ provider: { kind: "simulated" } });
+  orchestrator.recorder.start();
+  await orchestrator.processUserInput("my salary was 5000 last month");
+  await orchestrator.processUserInput("show my expenses");
+  await orchestrator.processUserInput("clear the screen");
+  orchestrator.confirmDestructiveAction("guardrail-clear-ui");
+  const recording = orchestrator.recorder.stop();
+  assert.ok(recording);
+  return { orchestrator, recording };
+}
+
+describe("replaySession", () => {
+  it("reproduces a recording on a fresh orchestrator", async () => {
+    const { recording } = await recordSession();
+    const report = await replaySession(recording);
+
+    assert.equal(report.matched, true);
+    assert.equal(report.steps.length, recording.steps.length);
+    assert.deepEqual(report.final, []);
+  });
+
+  it("leaves the live orchestrators' UI and data alone", async () => {
+    const { orchestrator, recording } = await recordSession();
+    await orchestrator.processUserInput("show my salary");
+    const ui = orchestrator.engine.getState();
+    const data = orchestrator.store.export();
+    defaultOrchestrator.engine.dispatch({
+      type: "render",
+      component: { id: "live", type: "EmptyState", props: {}, visible: true },
+    });
+    const defaultUI = defaultOrchestrator.engine.getState();
+    const defaultData = defaultOrchestrator.store.export();
+
+    await replaySession(recording);
+    assert.deepEqual(orchestrator.engine.getState(), ui);
+    assert.deepEqual(diffData(data, orchestrator.store.export()), []);
+    assert.deepEqual(defaultOrchestrator.engine.getState(), defaultUI);
+    assert.deepEqual(diffData(defaultData, defaultOrchestrator.store.export()), []);
+  });
+
+  it("replays typed and delayed confirmations as they were given", async () => {
+    const orchestrator = createOrchestrator({ provider: { kind: "simulated" } });
+    orchestrator.recorder.start();
+    await orchestrator.processUserInput("my salary was 5000 last month");
+    await orchestrator.processUserInput("delete my salary data");
+    const operation = orchestrator.pending.get("guardrail-delete-category")!;
+    orchestrator.pending.register(operation.modalId, operation.kind, operation.payload, {
+      now: Date.now() - 3000,
+    });
+    orchestrator.confirmDestructiveAction("guardrail-delete-category");
+    await orchestrator.processUserInput("delete all my data");
+    orchestrator.confirmDestructiveAction("guardrail-delete-all-data", { phrase: "DELETE" });
+    const recording = orchestrator.recorder.stop();
+    assert.ok(recording);
+
+    const report = await replaySession(recording);
+    assert.equal(report.matched, true);
+  });
+
+  it("reports divergences when another provider decides differently", async () => {
+    const { recording } = await recordSession();
+    const silent: OrchestratorProvider = {
+      name: "silent",
+      async generate() {
+        return { render: [], remove: [], update: [], notes: "" };
+      },
+    };
+
+    const report = await replaySession(recording, { provider: silent });
+    assert.equal(report.matched, false);
+    assert.ok(report.steps.some((step) => step.ui.length > 0));
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Saving orchestrator state and restoring it after a reload
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  DEFAULT_PERSISTENCE_KEY,
+  StatePersistence,
+  createMemoryStorage,
+  persistOrchestrator,
+  type PersistedState,
+  type StorageAdapter,
+} from "../lib/state-persistence";
+import { createFileStorage } from "../lib/file-storage";
+import { createOrchestrator } from "../lib/ui-orchestrator";
+
+function newOrchestrator() {
+  return createOrchestrator({ provider: { kind: "simulated" } });
+}
+
+/** An orchestrator showing expenses, with a clear-screen confirmation pending */
+async function sessionWithPendingClear(adapter: StorageAdapter) {
+  const orchestrator = newOrchestrator();
+  const { persistence, stop } = await persistOrchestrator(orchestrator, adapter);
+  await orchestrator.processUserInput("my salary was 5000 last month");
+  await orchestrator.processUserInput("show my expenses");
+  await orchestrator.processUserInput("clear the screen");
+  await persistence.flush();
+  stop();
+  return orchestrator;
+}
+
+async function readStored(adapter: StorageAdapter): Promise<PersistedState> {
+  return JSON.parse((await adapter.read(DEFAULT_PERSISTENCE_KEY)) ?? "null");
+}
+
+describe("StatePersistence", () => {
+  it("restores UI, data, references and pending confirmations", async () => {
+    const adapter = createMemoryStorage();
+    const saved = await sessionWithPendingClear(adapter);
+
+    const restored = newOrchestrator();
+    assert.equal((await persistOrchestrator(restored, adapter)).restored, true);
+
+    assert.deepEqual(restored.engine.getState(), saved.engine.getState());
+    assert.equal(restored.store.get("salary.lastMonth"), 5000);
+    assert.equal(restored.store.isUserProvided("salary.lastMonth"), true);
+    assert.equal(restored.memory.resolveReference("this"), saved.memory.resolveReference("this"));
+
+    restored.confirmDestructiveAction("guardrail-clear-ui");
+    assert.deepEqual(Object.keys(restored.engine.getState()), ["empty-state"]);
+  });
+
+  it("restores what the renderer shows before any new request", async () => {
+    const adapter = createMemoryStorage();
+    const saved = await sessionWithPendingClear(adapter);
+
+    // OrchestratorClient renders useVisibleComponents(), read from the engine
+    const restored = newOrchestrator();
+    await persistOrchestrator(restored, adapter);
+    const visible = restored.engine.getVisibleComponents();
+    assert.ok(visible.length > 0);
+    assert.deepEqual(visible, saved.engine.getVisibleComponents());
+  });
+
+  it("round-trips through files", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "ui-state-"));
+    try {
+      const adapter = createFileStorage(directory);
+      const saved = await sessionWithPendingClear(adapter);
+
+      const restored = newOrchestrator();
+      assert.equal(await new StatePersistence(restored, adapter).hydrate(), true);
+      assert.deepEqual(restored.engine.getState(), saved.engine.getState());
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("drops confirmations that expired while the page was closed", async () => {
+    const adapter = createMemoryStorage();
+    await sessionWithPendingClear(adapter);
+
+    const stored = await readStored(adapter);
+    stored.state.pending = stored.state.pending.map((operation) => ({
+      ...operation,
+      createdAt: operation.createdAt - 60_000,
+      expiresAt: Date.now() - 1,
+    }));
+    await adapter.write(DEFAULT_PERSISTENCE_KEY, JSON.stringify(stored));
+
+    const restored = newOrchestrator();
+    await new StatePersistence(restored, adapter).hydrate();
+    assert.deepEqual(restored.pending.list(), []);
+
+    // The modal comes back, but confirming it changes nothing
+    restored.confirmDestructiveAction("guardrail-clear-ui");
+    assert.ok(restored.engine.getState()["expense-summary"]);
+    assert.equal(restored.engine.getState()["guardrail-clear-ui"], undefined);
+  });
+
+  it("keeps each confirmation's time-to-live, counted from the reload", async () => {
+    const adapter = createMemoryStorage();
+    await sessionWithPendingClear(adapter);
+
+    const before = Date.now();
+    const restored = newOrchestrator();
+    await new StatePersistence(restored, adapter).hydrate();
+
+    const stored = (await readStored(adapter)).state.pending[0];
+    const [operation] = restored.pending.list();
+    assert.equal(operation.expiresAt - operation.createdAt, stored.expiresAt - stored.createdAt);
+    assert.ok(operation.createdAt >= before);
+  });
+
+  it("skips error notices and unknown component types", async () => {
+    const adapter = createMemoryStorage();
+    const orchestrator = newOrchestrator();
+    orchestrator.engine.dispatch({
+      type: "render",
+      component: { id: "error-state", type: "ErrorNotice", props: {}, visible: true },
+    });
+    orchestrator.engine.dispatch({
+      type: "render",
+      component: { id: "widget", type: "RetiredWidget", props: {}, visible: true },
+    });
+    orchestrator.engine.dispatch({
+      type: "render",
+      component: { id: "empty-state", type: "EmptyState", props: {}, visible: true },
+    });
+    await new StatePersistence(orchestrator, adapter).save();
+
+    const restored = newOrchestrator();
+    await new StatePersistence(restored, adapter).hydrate();
+    assert.deepEqual(Object.keys(restored.engine.getState()), ["empty-state"]);
+  });
+
+  it("leaves the orchestrator alone when stored state can't be used", async (t) => {
+    t.mock.method(console, "warn", () => {});
+    const adapter = createMemoryStorage();
+    const orchestrator = newOrchestrator();
+    const persistence = new StatePersistence(orchestrator, adapter);
+
+    assert.equal(await persistence.hydrate(), false);
+    for (const raw of ["{not json", JSON.stringify({ version: 0, savedAt: 0, state: {} })]) {
+      await adapter.write(DEFAULT_PERSISTENCE_KEY, raw);
+      assert.equal(await persistence.hydrate(), false);
+    }
+    assert.deepEqual(orchestrator.engine.getState(), {});
+  });
+
+  it("stops saving once stopped, and clears what it stored", async () => {
+    const adapter = createMemoryStorage();
+    const orchestrator = newOrchestrator();
+    const { persistence, stop } = await persistOrchestrator(orchestrator, adapter);
+
+    await orchestrator.processUserInput("show my expenses");
+    await persistence.flush();
+    const saved = await adapter.read(DEFAULT_PERSISTENCE_KEY);
+    assert.ok(saved);
+
+    stop();
+    await orchestrator.processUserInput("compare my salary");
+    await persistence.flush();
+    assert.equal(await adapter.read(DEFAULT_PERSISTENCE_KEY), saved);
+
+    await persistence.clear();
+    assert.equal(await adapter.read(DEFAULT_PERSISTENCE_KEY), null);
+  });
+});
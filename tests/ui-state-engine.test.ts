@@ -0,0 +1,171 @@
+/**
+ * UI state history: time travel, diffs and forks
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { UIStateEngine, actions, type UIComponent } from "../lib/ui-state-engine";
+import { createOrchestrator } from "../lib/ui-orchestrator";
+import { StatePersistence, createMemoryStorage, DEFAULT_PERSISTENCE_KEY } from "../lib/state-persistence";
+
+function component(id: string, props: Record<string, unknown> = {}): UIComponent {
+  return { id, type: "EmptyState", props, visible: true };
+}
+
+/** Engine with history at versions 0 (empty), 1 (a), 2 (a, b), 3 (a updated, b) */
+function engineWithHistory() {
+  const engine = new UIStateEngine();
+  engine.enableHistory();
+  engine.dispatch(actions.render(component("a", { message: "one" })));
+  engine.dispatch(actions.render(component("b")));
+  engine.dispatch(actions.update("a", { message: "two" }));
+  return engine;
+}
+
+describe("UIStateEngine history", () => {
+  it("records nothing until enabled, and drops it when disabled", () => {
+    const engine = new UIStateEngine();
+    engine.dispatch(actions.render(component("a")));
+    assert.deepEqual(engine.getHistory().entries, []);
+    assert.equal(engine.jumpTo(0), null);
+
+    engine.enableHistory();
+    engine.dispatch(actions.remove("a"));
+    assert.deepEqual(engine.getHistory().entries.map((e) => e.action.type), ["init", "remove"]);
+
+    engine.disableHistory();
+    assert.deepEqual(engine.getHistory(), {
+      enabled: false,
+      entries: [],
+      current: engine.getVersion(),
+      rewound: false,
+      limit: engine.getHistory().limit,
+    });
+  });
+
+  it("jumps back and forward without moving the version backwards", () => {
+    const engine = engineWithHistory();
+    assert.equal(engine.getVersion(), 3);
+
+    const result = engine.jumpTo(1);
+    assert.deepEqual(Object.keys(engine.getState()), ["a"]);
+    assert.deepEqual(result?.removed, ["b"]);
+    assert.deepEqual(result?.updated, ["a"]);
+    assert.equal(engine.getVersion(), 4);
+    assert.equal(engine.getHistory().current, 1);
+    assert.equal(engine.isRewound(), true);
+
+    engine.jumpTo(3);
+    assert.equal(engine.getState().a.props.message, "two");
+    assert.equal(engine.getVersion(), 5);
+    assert.equal(engine.isRewound(), false);
+  });
+
+  it("discards later entries when a change is made after jumping back", () => {
+    const engine = engineWithHistory();
+    engine.jumpTo(1);
+    engine.dispatch(actions.render(component("c")));
+
+    const { entries, current, rewound } = engine.getHistory();
+    assert.deepEqual(entries.map((e) => e.version), [0, 1, 5]);
+    assert.equal(current, 5);
+    assert.equal(rewound, false);
+    assert.deepEqual(Object.keys(engine.getState()), ["a", "c"]);
+    assert.equal(engine.jumpTo(3), null);
+  });
+
+  it("keeps at most `limit` entries", () => {
+    const engine = new UIStateEngine();
+    engine.enableHistory(2);
+    engine.dispatch(actions.render(component("a")));
+    engine.dispatch(actions.render(component("b")));
+
+    assert.deepEqual(engine.getHistory().entries.map((e) => e.version), [1, 2]);
+    assert.equal(engine.jumpTo(0), null);
+  });
+
+  it("diffs two recorded versions", () => {
+    const engine = engineWithHistory();
+    engine.dispatch(actions.hide("b"));
+
+    assert.deepEqual(engine.diff(1, 4), {
+      from: 1,
+      to: 4,
+      added: ["b"],
+      removed: [],
+      updated: ["a"],
+      visibilityChanged: [],
+      changedProps: { a: ["message"] },
+    });
+    assert.deepEqual(engine.diff(2)?.visibilityChanged, ["b"]);
+    assert.equal(engine.diff(99), null);
+  });
+
+  it("forks an independent engine from a past version", () => {
+    const engine = engineWithHistory();
+    const listenerCalls: number[] = [];
+    engine.subscribe(() => listenerCalls.push(engine.getVersion()));
+
+    const fork = engine.fork(2);
+    assert.ok(fork);
+    assert.deepEqual(Object.keys(fork.getState()), ["a", "b"]);
+    assert.deepEqual(fork.getHistory().entries.map((e) => e.version), [0, 1, 2]);
+
+    fork.dispatch(actions.remove("a"));
+    assert.deepEqual(Object.keys(fork.getState()), ["b"]);
+    assert.equal(engine.getState().a.props.message, "two");
+    assert.deepEqual(listenerCalls, []);
+  });
+});
+
+describe("time travel through the orchestrator", () => {
+  it("only moves the UI, leaving out modals whose confirmation is gone", async () => {
+    const orchestrator = createOrchestrator({ provider: { kind: "simulated" } });
+    orchestrator.engine.enableHistory();
+    await orchestrator.processUserInput("my salary was 5000 last month");
+    await orchestrator.processUserInput("show my expenses");
+    await orchestrator.processUserInput("clear the screen");
+    const asked = orchestrator.engine.getHistory().current;
+    orchestrator.confirmDestructiveAction("guardrail-clear-ui");
+
+    orchestrator.jumpTo(asked);
+    const state = orchestrator.engine.getState();
+    assert.ok(state["expense-summary"]);
+    assert.equal(state["guardrail-clear-ui"], undefined);
+    assert.equal(orchestrator.store.get("salary.lastMonth"), 5000);
+  });
+
+  it("keeps a modal whose confirmation is still pending", async () => {
+    const orchestrator = createOrchestrator({ provider: { kind: "simulated" } });
+    orchestrator.engine.enableHistory();
+    await orchestrator.processUserInput("show my expenses");
+    await orchestrator.processUserInput("clear the screen");
+    const asked = orchestrator.engine.getHistory().current;
+    await orchestrator.processUserInput("show my expenses");
+
+    orchestrator.jumpTo(asked);
+    assert.ok(orchestrator.engine.getState()["guardrail-clear-ui"]);
+  });
+
+  it("doesn't persist the rewound UI", async () => {
+    const orchestrator = createOrchestrator({ provider: { kind: "simulated" } });
+    const adapter = createMemoryStorage();
+    const persistence = new StatePersistence(orchestrator, adapter);
+    persistence.start();
+    orchestrator.engine.enableHistory();
+
+    await orchestrator.processUserInput("show my expenses");
+    await persistence.flush();
+    const saved = await adapter.read(DEFAULT_PERSISTENCE_KEY);
+
+    orchestrator.jumpTo(0);
+    await persistence.flush();
+    assert.equal(await adapter.read(DEFAULT_PERSISTENCE_KEY), saved);
+
+    orchestrator.engine.dispatch(actions.render(component("fresh")));
+    await persistence.flush();
+    const stored = JSON.parse((await adapter.read(DEFAULT_PERSISTENCE_KEY)) ?? "{}");
+    assert.deepEqual(Object.keys(stored.state.ui), ["fresh"]);
+    persistence.stop();
+  });
+});